@@ -0,0 +1,84 @@
+/**
+ * Command line subcommands
+ *
+ * Besides running as an MCP server, the server binary runs a few tools
+ * directly from the shell, so that they can be scripted (e.g. nightly
+ * playlist backups). This file parses their arguments; index.ts runs them
+ * with the stored authorization of the active profile.
+ */
+import { ValidationError } from "./errors.js";
+import { EXPORT_FORMATS, ExportFormat, formatFromFileName, isExportFormat } from "./playlist-export.js";
+
+export interface ExportPlaylistCommand {
+  command: "export-playlist";
+  playlist: string;
+  format: ExportFormat;
+  // File to write; the export goes to stdout when it is not set
+  output?: string;
+}
+
+export type CliCommand = ExportPlaylistCommand;
+
+export const USAGE = `Usage:
+  node build/index.js [--transport stdio|http]
+  node build/index.js export-playlist <playlist> [--format ${EXPORT_FORMATS.join("|")}] [--output <file>]
+
+The playlist can be an ID, URI or link. Without --format, the format is taken
+from the extension of --output, or csv when writing to stdout.`;
+
+/**
+ * Reads the value of an option given as "--name value" or "--name=value"
+ */
+function takeOption(args: string[], name: string): string | undefined {
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === `--${name}`) {
+      if (i + 1 >= args.length) {
+        throw new ValidationError(`--${name} needs a value`);
+      }
+      return args.splice(i, 2)[1];
+    }
+    if (args[i].startsWith(`--${name}=`)) {
+      return args.splice(i, 1)[0].slice(name.length + 3);
+    }
+  }
+  return undefined;
+}
+
+function parseExportPlaylist(args: string[]): ExportPlaylistCommand {
+  const format = takeOption(args, "format")?.toLowerCase();
+  const output = takeOption(args, "output");
+
+  const unknown = args.find((arg) => arg.startsWith("--"));
+  if (unknown) {
+    throw new ValidationError(`Unknown option ${unknown}\n\n${USAGE}`);
+  }
+  if (args.length !== 1) {
+    throw new ValidationError(`export-playlist takes exactly one playlist\n\n${USAGE}`);
+  }
+  if (format !== undefined && !isExportFormat(format)) {
+    throw new ValidationError(`Unknown format "${format}". Use one of: ${EXPORT_FORMATS.join(", ")}`);
+  }
+
+  return {
+    command: "export-playlist",
+    playlist: args[0],
+    format: format ?? (output ? formatFromFileName(output) : "csv"),
+    output,
+  };
+}
+
+/**
+ * Parses the subcommand from the command line arguments
+ *
+ * @param {string[]} argv - Arguments after the script name
+ * @returns {CliCommand | null} The subcommand, or null when the server should start
+ * @throws {ValidationError} If the arguments of the subcommand are invalid
+ */
+export function parseCommand(argv: string[]): CliCommand | null {
+  const [command, ...args] = argv;
+
+  if (command === "export-playlist") {
+    return parseExportPlaylist(args);
+  }
+  return null;
+}
@@ -9,13 +9,36 @@ import dotenv from "dotenv";
 // Load environment variables from .env file
 dotenv.config();
 
+/**
+ * Reads the transport from the command line (--transport <name>, --transport=<name> or --http)
+ */
+function transportFromArgs(args: string[]): string | undefined {
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '--http') {
+      return 'http';
+    }
+    if (args[i] === '--transport') {
+      return args[i + 1];
+    }
+    if (args[i].startsWith('--transport=')) {
+      return args[i].slice('--transport='.length);
+    }
+  }
+  return undefined;
+}
+
+const LOOPBACK_HOSTS = ['127.0.0.1', '::1', 'localhost'];
+
+const transport = transportFromArgs(process.argv.slice(2)) || process.env.MCP_TRANSPORT || 'stdio';
+const httpHost = process.env.MCP_HTTP_HOST || process.env.HOST || '127.0.0.1';
+
 /**
  * Environment variables validation
  */
 function validateConfig() {
+  // SPOTIFY_CLIENT_SECRET is optional: without it the PKCE flow is used
   const requiredVars = [
-    'SPOTIFY_CLIENT_ID',
-    'SPOTIFY_CLIENT_SECRET'
+    'SPOTIFY_CLIENT_ID'
   ];
 
   const missingVars = requiredVars.filter(varName => !process.env[varName]);
@@ -25,6 +48,22 @@ function validateConfig() {
     console.error('Please set these variables in your .env file or environment');
     process.exit(1);
   }
+
+  if (process.env.SPOTIFY_TOKEN_BACKEND === 'encrypted-file' && !process.env.SPOTIFY_TOKEN_PASSPHRASE) {
+    console.error('SPOTIFY_TOKEN_BACKEND is encrypted-file but SPOTIFY_TOKEN_PASSPHRASE is not set');
+    process.exit(1);
+  }
+
+  if (transport !== 'stdio' && transport !== 'http') {
+    console.error(`Unknown transport "${transport}". Use stdio or http`);
+    process.exit(1);
+  }
+
+  // The MCP endpoint must not be reachable from the network without a token
+  if (transport === 'http' && !process.env.MCP_AUTH_TOKEN && !LOOPBACK_HOSTS.includes(httpHost)) {
+    console.error(`MCP_AUTH_TOKEN must be set to serve MCP over HTTP on ${httpHost}`);
+    process.exit(1);
+  }
 }
 
 // Run validation
@@ -35,7 +74,14 @@ validateConfig();
  */
 export const API = {
   SPOTIFY_API_BASE: "https://api.spotify.com/v1",
-  SPOTIFY_AUTH_BASE: "https://accounts.spotify.com"
+  SPOTIFY_AUTH_BASE: "https://accounts.spotify.com",
+
+  // Request scheduler limits
+  MAX_CONCURRENCY: process.env.SPOTIFY_MAX_CONCURRENCY ? parseInt(process.env.SPOTIFY_MAX_CONCURRENCY) : 4,
+  MAX_RETRIES: process.env.SPOTIFY_MAX_RETRIES ? parseInt(process.env.SPOTIFY_MAX_RETRIES) : 3,
+
+  // How often the current playback is polled while a client is subscribed to it
+  PLAYBACK_POLL_INTERVAL_MS: process.env.SPOTIFY_PLAYBACK_POLL_MS ? parseInt(process.env.SPOTIFY_PLAYBACK_POLL_MS) : 5000
 };
 
 /**
@@ -43,7 +89,16 @@ export const API = {
  */
 export const SERVER = {
   PORT: process.env.PORT ? parseInt(process.env.PORT) : 8888,
-  HOST: process.env.HOST || "127.0.0.1"
+  HOST: process.env.HOST || "127.0.0.1",
+
+  // MCP transport: stdio, or http to serve streamable HTTP at /mcp
+  TRANSPORT: transport as "stdio" | "http",
+
+  // Interface the HTTP transport listens on
+  HTTP_HOST: httpHost,
+
+  // Bearer token required by the HTTP transport
+  MCP_AUTH_TOKEN: process.env.MCP_AUTH_TOKEN || undefined
 };
 
 /**
@@ -51,10 +106,20 @@ export const SERVER = {
  */
 export const AUTH = {
   CLIENT_ID: process.env.SPOTIFY_CLIENT_ID as string,
-  CLIENT_SECRET: process.env.SPOTIFY_CLIENT_SECRET as string,
+  CLIENT_SECRET: process.env.SPOTIFY_CLIENT_SECRET || undefined,
   REDIRECT_URI: `http://${SERVER.HOST}:${SERVER.PORT}/callback`,
+
+  // Use Authorization Code + PKCE when no client secret is configured
+  USE_PKCE: !process.env.SPOTIFY_CLIENT_SECRET,
+
+  // Never open a browser; auth-spotify returns the authorization URL instead.
+  // Over HTTP the server usually runs on another machine than the client.
+  HEADLESS: process.env.SPOTIFY_AUTH_HEADLESS === "true" || SERVER.TRANSPORT === "http",
+
+  // Profile to start with, overriding the last active profile
+  PROFILE: process.env.SPOTIFY_PROFILE || undefined,
   
-  // Scopes required for the app
+  // Scopes requested when authorizing; every scope in TOOL_SCOPES must be listed
   SCOPES: [
     "user-read-private",
     "user-read-email",
@@ -65,10 +130,38 @@ export const AUTH = {
     "playlist-modify-private",
     "playlist-modify-public",
     "user-library-read",
+    "user-library-modify",
+    "user-follow-read",
     "user-top-read",
+    "user-read-recently-played",
+    "ugc-image-upload",
   ]
 };
 
+/**
+ * Listening history configuration
+ */
+export const HISTORY = {
+  // Record recently played tracks in the background into the local history
+  RECORD: process.env.SPOTIFY_HISTORY_RECORDER === "true",
+
+  // How often recently played tracks are fetched while recording
+  POLL_INTERVAL_MS: process.env.SPOTIFY_HISTORY_POLL_MS ? parseInt(process.env.SPOTIFY_HISTORY_POLL_MS) : 20 * 60 * 1000
+};
+
+/**
+ * Token storage configuration
+ */
+export const STORAGE = {
+  // Passphrase for the encrypted-file credential backend
+  TOKEN_PASSPHRASE: process.env.SPOTIFY_TOKEN_PASSPHRASE || undefined,
+
+  // Credential backend: file, encrypted-file or memory.
+  // Defaults to encrypted-file when a passphrase is set, file otherwise.
+  CREDENTIAL_BACKEND: process.env.SPOTIFY_TOKEN_BACKEND ||
+    (process.env.SPOTIFY_TOKEN_PASSPHRASE ? "encrypted-file" : "file"),
+};
+
 /**
  * Application configuration
  */
@@ -88,5 +181,6 @@ export default {
   API,
   SERVER,
   AUTH,
+  STORAGE,
   APP
 };
\ No newline at end of file
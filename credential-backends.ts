@@ -0,0 +1,228 @@
+/**
+ * Credential storage backends
+ *
+ * This file defines the CredentialBackend interface used by the TokenStore
+ * to persist tokens, along with three implementations: a plain JSON file
+ * readable only by the current user, an encrypted file protected by a
+ * passphrase, and an in-memory store for tests.
+ */
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import { ValidationError } from "./errors.js";
+import type { TokenData } from "./token-store.js";
+
+const FILE_MODE = 0o600;
+const DIR_MODE = 0o700;
+
+/**
+ * Storage for token data, keyed by the token file path of a profile
+ */
+export interface CredentialBackend {
+  readonly name: string;
+
+  /**
+   * Returns the stored token data, or null if nothing is stored
+   * (or the stored data is not in this backend's format)
+   */
+  load(key: string): TokenData | null;
+
+  save(key: string, data: TokenData): void;
+
+  remove(key: string): void;
+}
+
+/**
+ * Reads a plaintext JSON token file as written by earlier versions
+ *
+ * @returns {TokenData | null} The token data, or null if the file is missing, empty or not plaintext
+ */
+export function readPlaintextTokens(filePath: string): TokenData | null {
+  if (!fs.existsSync(filePath)) {
+    return null;
+  }
+
+  const rawData = fs.readFileSync(filePath, "utf-8");
+  if (rawData.trim() === "") {
+    return null;
+  }
+
+  const data = JSON.parse(rawData);
+  if (!("accessToken" in data) && !("refreshToken" in data)) {
+    return null;
+  }
+
+  return data as TokenData;
+}
+
+/**
+ * Writes a file that only the current user can read
+ */
+function writePrivateFile(filePath: string, contents: string): void {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true, mode: DIR_MODE });
+  fs.writeFileSync(filePath, contents, { mode: FILE_MODE });
+  // The mode option only applies when the file is created
+  fs.chmodSync(filePath, FILE_MODE);
+}
+
+/**
+ * Stores tokens as plain JSON written with 0600 permissions
+ */
+export class PlainFileBackend implements CredentialBackend {
+  readonly name = "file";
+
+  load(key: string): TokenData | null {
+    const data = readPlaintextTokens(key);
+
+    if (data && process.platform !== "win32" && (fs.statSync(key).mode & 0o077) !== 0) {
+      console.error(`Restricting permissions of ${key} to the current user`);
+      fs.chmodSync(key, FILE_MODE);
+    }
+
+    return data;
+  }
+
+  save(key: string, data: TokenData): void {
+    writePrivateFile(key, JSON.stringify(data, null, 2));
+  }
+
+  remove(key: string): void {
+    fs.rmSync(key, { force: true });
+  }
+}
+
+/**
+ * Encrypted file contents
+ */
+interface EncryptedEnvelope {
+  version: 1;
+  algorithm: "aes-256-gcm";
+  salt: string;
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+/**
+ * Stores tokens encrypted with AES-256-GCM, using a key derived from a
+ * passphrase with scrypt. The file is also written with 0600 permissions.
+ */
+export class EncryptedFileBackend implements CredentialBackend {
+  readonly name = "encrypted-file";
+  private readonly passphrase: string;
+
+  constructor(passphrase: string) {
+    if (!passphrase) {
+      throw new ValidationError("The encrypted-file credential backend requires a passphrase");
+    }
+    this.passphrase = passphrase;
+  }
+
+  load(key: string): TokenData | null {
+    if (!fs.existsSync(key)) {
+      return null;
+    }
+
+    const rawData = fs.readFileSync(key, "utf-8");
+    if (rawData.trim() === "") {
+      return null;
+    }
+
+    const envelope = JSON.parse(rawData);
+    if (envelope.algorithm !== "aes-256-gcm" || typeof envelope.data !== "string") {
+      return null;
+    }
+
+    return JSON.parse(this.decrypt(envelope));
+  }
+
+  save(key: string, data: TokenData): void {
+    writePrivateFile(key, JSON.stringify(this.encrypt(JSON.stringify(data)), null, 2));
+  }
+
+  remove(key: string): void {
+    fs.rmSync(key, { force: true });
+  }
+
+  private deriveKey(salt: Buffer): Buffer {
+    return crypto.scryptSync(this.passphrase, salt, 32);
+  }
+
+  private encrypt(plaintext: string): EncryptedEnvelope {
+    const salt = crypto.randomBytes(16);
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv("aes-256-gcm", this.deriveKey(salt), iv);
+    const data = Buffer.concat([cipher.update(plaintext, "utf-8"), cipher.final()]);
+
+    return {
+      version: 1,
+      algorithm: "aes-256-gcm",
+      salt: salt.toString("base64"),
+      iv: iv.toString("base64"),
+      tag: cipher.getAuthTag().toString("base64"),
+      data: data.toString("base64"),
+    };
+  }
+
+  private decrypt(envelope: EncryptedEnvelope): string {
+    const decipher = crypto.createDecipheriv(
+      "aes-256-gcm",
+      this.deriveKey(Buffer.from(envelope.salt, "base64")),
+      Buffer.from(envelope.iv, "base64")
+    );
+    decipher.setAuthTag(Buffer.from(envelope.tag, "base64"));
+
+    try {
+      return Buffer.concat([
+        decipher.update(Buffer.from(envelope.data, "base64")),
+        decipher.final(),
+      ]).toString("utf-8");
+    } catch (error) {
+      throw new ValidationError("Unable to decrypt token file. Check the token passphrase");
+    }
+  }
+}
+
+/**
+ * Keeps tokens in memory only; nothing is written to disk
+ */
+export class MemoryBackend implements CredentialBackend {
+  readonly name = "memory";
+  private readonly entries = new Map<string, TokenData>();
+
+  load(key: string): TokenData | null {
+    const data = this.entries.get(key);
+    return data ? { ...data } : null;
+  }
+
+  save(key: string, data: TokenData): void {
+    this.entries.set(key, { ...data });
+  }
+
+  remove(key: string): void {
+    this.entries.delete(key);
+  }
+}
+
+/**
+ * Creates the credential backend selected in configuration
+ *
+ * @param {string} name - Backend to create: file, encrypted-file or memory
+ * @param {string} passphrase - Passphrase for the encrypted-file backend
+ * @returns {CredentialBackend} The backend instance
+ * @throws {ValidationError} If the name is unknown or a required passphrase is missing
+ */
+export function createCredentialBackend(name: string, passphrase?: string): CredentialBackend {
+  switch (name) {
+    case "file":
+      return new PlainFileBackend();
+    case "encrypted-file":
+      return new EncryptedFileBackend(passphrase || "");
+    case "memory":
+      return new MemoryBackend();
+    default:
+      throw new ValidationError(
+        `Unknown credential backend "${name}". Use one of: file, encrypted-file, memory`
+      );
+  }
+}
@@ -0,0 +1,101 @@
+/**
+ * Device selection
+ *
+ * This file resolves the device argument of playback tools, which may be a
+ * Spotify device ID or a loosely typed device name such as "kitchen speaker",
+ * against the list of devices returned by Spotify.
+ */
+import { ValidationError } from "./errors.js";
+import type { SpotifyDevice } from "./types.js";
+
+// Spotify device IDs are 40 hexadecimal characters
+const DEVICE_ID_PATTERN = /^[0-9a-f]{40}$/i;
+
+// Minimum score for a name to count as a match
+const MIN_MATCH_SCORE = 0.5;
+
+/**
+ * Whether a value looks like a Spotify device ID rather than a name
+ */
+export function isDeviceId(value: string): boolean {
+  return DEVICE_ID_PATTERN.test(value);
+}
+
+function normalize(value: string): string {
+  return value.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, " ").trim();
+}
+
+/**
+ * Scores how well a device name matches a query, from 0 to 1
+ *
+ * An exact name scores 1, a name containing the whole query 0.9, and
+ * otherwise the score is the share of query words that start a word of the name.
+ */
+export function scoreDeviceName(name: string, query: string): number {
+  const normalizedName = normalize(name);
+  const normalizedQuery = normalize(query);
+
+  if (!normalizedQuery) {
+    return 0;
+  }
+  if (normalizedName === normalizedQuery) {
+    return 1;
+  }
+  if (normalizedName.includes(normalizedQuery)) {
+    return 0.9;
+  }
+
+  const nameWords = normalizedName.split(" ");
+  const queryWords = normalizedQuery.split(" ");
+  const matched = queryWords.filter((word) => nameWords.some((nameWord) => nameWord.startsWith(word)));
+
+  return (matched.length / queryWords.length) * 0.8;
+}
+
+/**
+ * Describes a device in one line for error messages and listings
+ */
+export function describeDevice(device: SpotifyDevice): string {
+  return `${device.name} (${device.type})`;
+}
+
+/**
+ * Finds the device a user meant
+ *
+ * @param {SpotifyDevice[]} devices - Available devices
+ * @param {string} query - Device ID or (part of) a device name
+ * @returns {SpotifyDevice} The matching device
+ * @throws {ValidationError} If no device matches, or several match equally well
+ */
+export function resolveDevice(devices: SpotifyDevice[], query: string): SpotifyDevice {
+  const byId = devices.find((device) => device.id === query);
+  if (byId) {
+    return byId;
+  }
+
+  const available = devices.length > 0
+    ? `Available devices: ${devices.map(describeDevice).join(", ")}`
+    : "No devices are available. Open Spotify on a device first.";
+
+  const scored = devices
+    .map((device) => ({ device, score: scoreDeviceName(device.name, query) }))
+    .filter(({ score }) => score >= MIN_MATCH_SCORE)
+    .sort((a, b) => b.score - a.score);
+
+  if (scored.length === 0) {
+    throw new ValidationError(`No device matches "${query}". ${available}`);
+  }
+
+  const best = scored.filter(({ score }) => score === scored[0].score);
+  if (best.length > 1) {
+    throw new ValidationError(
+      `"${query}" matches several devices: ${best.map(({ device }) => describeDevice(device)).join(", ")}. Use a more specific name or the device ID`
+    );
+  }
+
+  if (!best[0].device.id) {
+    throw new ValidationError(`The device ${describeDevice(best[0].device)} cannot be controlled through the Web API`);
+  }
+
+  return best[0].device;
+}
@@ -0,0 +1,74 @@
+/**
+ * Duration parsing and formatting
+ *
+ * This file converts between milliseconds and the human-readable positions
+ * used in tool arguments and output, such as "1:30", "1:02:03" or "2m15s".
+ */
+import { ValidationError } from "./errors.js";
+
+const CLOCK_PATTERN = /^(?:(\d+):)?(\d+):(\d{1,2})(?:\.(\d{1,3}))?$/;
+const UNITS_PATTERN = /^(?:(\d+(?:\.\d+)?)h)?\s*(?:(\d+(?:\.\d+)?)m(?!s))?\s*(?:(\d+(?:\.\d+)?)s)?\s*(?:(\d+)ms)?$/;
+
+/**
+ * Parses a position or duration into milliseconds
+ *
+ * Accepts clock notation ("1:30", "1:02:03", "0:45.5"), units ("90s",
+ * "2m15s", "1h2m", "500ms") and plain numbers, which are taken as seconds.
+ *
+ * @param {string | number} input - The duration to parse
+ * @returns {number} The duration in milliseconds
+ * @throws {ValidationError} If the input is not a valid, non-negative duration
+ */
+export function parseDuration(input: string | number): number {
+  if (typeof input === "number") {
+    if (!Number.isFinite(input) || input < 0) {
+      throw new ValidationError(`Invalid duration: ${input}`);
+    }
+    return Math.round(input * 1000);
+  }
+
+  const value = input.trim().toLowerCase();
+
+  if (/^\d+(\.\d+)?$/.test(value)) {
+    return Math.round(parseFloat(value) * 1000);
+  }
+
+  const clock = CLOCK_PATTERN.exec(value);
+  if (clock) {
+    const [, hours, minutes, seconds, fraction] = clock;
+    if (parseInt(seconds) >= 60 || (hours !== undefined && parseInt(minutes) >= 60)) {
+      throw new ValidationError(`Invalid duration "${input}": minutes and seconds must be below 60`);
+    }
+    return (
+      (parseInt(hours || "0") * 3600 + parseInt(minutes) * 60 + parseInt(seconds)) * 1000 +
+      (fraction ? Math.round(parseFloat(`0.${fraction}`) * 1000) : 0)
+    );
+  }
+
+  const units = UNITS_PATTERN.exec(value);
+  if (value !== "" && units && units.slice(1).some((part) => part !== undefined)) {
+    const [, hours, minutes, seconds, milliseconds] = units;
+    return Math.round(
+      parseFloat(hours || "0") * 3600000 +
+      parseFloat(minutes || "0") * 60000 +
+      parseFloat(seconds || "0") * 1000 +
+      parseInt(milliseconds || "0")
+    );
+  }
+
+  throw new ValidationError(`Invalid duration "${input}". Use a format like "1:30", "90s" or "2m15s"`);
+}
+
+/**
+ * Formats milliseconds as m:ss, or h:mm:ss for an hour or more
+ */
+export function formatDuration(ms: number): string {
+  const totalSeconds = Math.floor(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = (totalSeconds % 60).toString().padStart(2, "0");
+
+  return hours > 0
+    ? `${hours}:${minutes.toString().padStart(2, "0")}:${seconds}`
+    : `${minutes}:${seconds}`;
+}
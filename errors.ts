@@ -25,6 +25,16 @@ export class AuthenticationError extends SpotifyMCPError {
   }
 }
 
+/**
+ * Error thrown when the stored tokens lack a scope a request needs
+ */
+export class InsufficientScopeError extends AuthenticationError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InsufficientScopeError';
+  }
+}
+
 /**
  * Error thrown when an API request fails
  */
@@ -0,0 +1,105 @@
+/**
+ * Listening history recorder
+ *
+ * This file defines the HistoryRecorder, which periodically fetches the
+ * recently played tracks and adds the new ones to the local listening
+ * history. Spotify only keeps the last 50 plays, so polling more often than
+ * 50 tracks take to play keeps the history complete.
+ */
+import { ListeningHistoryStore, fromPlayHistory } from "./listening-history.js";
+import type { SpotifyPlayHistory } from "./types.js";
+
+export const DEFAULT_HISTORY_POLL_INTERVAL_MS = 20 * 60 * 1000;
+
+export interface HistoryRecorderOptions {
+  // Fetches the plays after a time in milliseconds, or the latest plays
+  fetchRecentlyPlayed: (after?: number) => Promise<SpotifyPlayHistory[]>;
+  // Store of the active profile
+  getStore: () => ListeningHistoryStore;
+  intervalMs?: number;
+}
+
+/**
+ * Records recently played tracks into the listening history
+ */
+export class HistoryRecorder {
+  private readonly options: HistoryRecorderOptions;
+  private readonly intervalMs: number;
+  private timer: NodeJS.Timeout | null = null;
+  private recording: Promise<number> | null = null;
+  private lastError: string | null = null;
+
+  constructor(options: HistoryRecorderOptions) {
+    this.options = options;
+    this.intervalMs = options.intervalMs ?? DEFAULT_HISTORY_POLL_INTERVAL_MS;
+  }
+
+  /**
+   * Whether the recorder is polling in the background
+   */
+  get active(): boolean {
+    return this.timer !== null;
+  }
+
+  /**
+   * Starts polling in the background, beginning with an immediate poll
+   */
+  start(): void {
+    if (!this.timer) {
+      this.timer = setInterval(() => this.poll(), this.intervalMs);
+      this.timer.unref();
+      this.poll();
+    }
+  }
+
+  /**
+   * Stops polling
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Fetches the plays since the last recorded one and stores them
+   *
+   * Failures are logged and yield 0, so that a missing authorization does
+   * not stop the background polling.
+   *
+   * @returns {Promise<number>} The number of plays added
+   */
+  poll(): Promise<number> {
+    return this.record().catch((error: any) => {
+      // Log each distinct failure once instead of on every tick
+      if (error.message !== this.lastError) {
+        console.error(`Error recording listening history: ${error.message}`);
+        this.lastError = error.message;
+      }
+      return 0;
+    });
+  }
+
+  /**
+   * Like poll, but lets failures reach the caller
+   */
+  record(): Promise<number> {
+    // Concurrent callers share one request rather than piling up
+    if (!this.recording) {
+      this.recording = (async () => {
+        try {
+          const store = this.options.getStore();
+          const after = store.latestPlayedAt("recently-played") ?? undefined;
+          const plays = await this.options.fetchRecentlyPlayed(after);
+          const { added } = store.add(plays.map(fromPlayHistory));
+          this.lastError = null;
+          return added;
+        } finally {
+          this.recording = null;
+        }
+      })();
+    }
+    return this.recording;
+  }
+}
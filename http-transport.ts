@@ -0,0 +1,260 @@
+/**
+ * Streamable HTTP transport
+ *
+ * This file mounts the MCP endpoint on the Express app that also serves the
+ * OAuth callback, so one server instance can be shared by several MCP
+ * clients. Every client gets its own session with its own transport and MCP
+ * server, requests must carry the configured bearer token, and sessions that
+ * stay idle for too long are closed.
+ */
+import crypto from "crypto";
+import express, { Express, NextFunction, Request, Response } from "express";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+
+const SESSION_HEADER = "mcp-session-id";
+
+export interface McpHttpEndpointOptions {
+  // Creates the MCP server for a new session
+  createServer: () => Server;
+  // Token clients must send as "Authorization: Bearer <token>"; no check when unset
+  authToken?: string;
+  path?: string;
+  sessionIdleTimeoutMs?: number;
+}
+
+interface McpSession {
+  server: Server;
+  transport: StreamableHTTPServerTransport;
+  lastActivity: number;
+}
+
+export const DEFAULT_SESSION_IDLE_TIMEOUT_MS = 60 * 60 * 1000;
+
+/**
+ * Sends a JSON-RPC error response outside of any session
+ */
+function sendJsonRpcError(res: Response, status: number, message: string): void {
+  res.status(status).json({
+    jsonrpc: "2.0",
+    error: { code: -32000, message },
+    id: null,
+  });
+}
+
+/**
+ * Compares two secrets in constant time
+ */
+function secretsMatch(provided: string, expected: string): boolean {
+  const a = crypto.createHash("sha256").update(provided).digest();
+  const b = crypto.createHash("sha256").update(expected).digest();
+  return crypto.timingSafeEqual(a, b);
+}
+
+/**
+ * Creates middleware that rejects requests without the expected bearer token
+ *
+ * @param {string} token - The token clients must present
+ */
+export function requireBearerToken(token: string) {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const header = req.headers.authorization || "";
+    const match = /^Bearer\s+(.+)$/i.exec(header);
+
+    if (!match || !secretsMatch(match[1].trim(), token)) {
+      res.setHeader("WWW-Authenticate", 'Bearer realm="spotify-mcp"');
+      sendJsonRpcError(res, 401, "Unauthorized");
+      return;
+    }
+
+    next();
+  };
+}
+
+/**
+ * Serves MCP over streamable HTTP, with one MCP server per client session
+ */
+export class McpHttpEndpoint {
+  private readonly options: Required<Omit<McpHttpEndpointOptions, "authToken">> & { authToken?: string };
+  private readonly sessions = new Map<string, McpSession>();
+  private sweepTimer: NodeJS.Timeout | null = null;
+
+  constructor(options: McpHttpEndpointOptions) {
+    this.options = {
+      path: "/mcp",
+      sessionIdleTimeoutMs: DEFAULT_SESSION_IDLE_TIMEOUT_MS,
+      ...options,
+    };
+  }
+
+  /**
+   * Path of the MCP endpoint
+   */
+  get path(): string {
+    return this.options.path;
+  }
+
+  /**
+   * Number of open sessions
+   */
+  get sessionCount(): number {
+    return this.sessions.size;
+  }
+
+  /**
+   * Adds the MCP endpoint to an Express app
+   *
+   * POST carries client messages and creates a session on initialize, GET
+   * opens the SSE stream for server notifications and DELETE ends a session.
+   */
+  mount(app: Express): void {
+    const { path } = this.options;
+
+    if (this.options.authToken) {
+      app.use(path, requireBearerToken(this.options.authToken));
+    }
+
+    app.post(path, express.json({ limit: "4mb" }), (req, res) => this.handlePost(req, res));
+    app.get(path, (req, res) => this.handleSessionRequest(req, res));
+    app.delete(path, (req, res) => this.handleSessionRequest(req, res));
+
+    if (!this.sweepTimer) {
+      this.sweepTimer = setInterval(
+        () => this.closeIdleSessions(),
+        Math.min(this.options.sessionIdleTimeoutMs, 60 * 1000)
+      );
+      this.sweepTimer.unref();
+    }
+  }
+
+  /**
+   * Closes every open session
+   */
+  async closeAll(): Promise<void> {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = null;
+    }
+
+    await Promise.all(Array.from(this.sessions.keys()).map((id) => this.closeSession(id)));
+  }
+
+  /**
+   * Closes sessions that have not seen a request within the idle timeout
+   */
+  async closeIdleSessions(now: number = Date.now()): Promise<void> {
+    const expired = Array.from(this.sessions.entries())
+      .filter(([, session]) => now - session.lastActivity > this.options.sessionIdleTimeoutMs)
+      .map(([id]) => id);
+
+    for (const id of expired) {
+      console.error(`Closing idle MCP session ${id}`);
+      await this.closeSession(id);
+    }
+  }
+
+  private async handlePost(req: Request, res: Response): Promise<void> {
+    const sessionId = req.header(SESSION_HEADER);
+
+    try {
+      if (sessionId) {
+        const session = this.sessions.get(sessionId);
+        if (!session) {
+          sendJsonRpcError(res, 404, "Session not found");
+          return;
+        }
+        session.lastActivity = Date.now();
+        await session.transport.handleRequest(req, res, req.body);
+        return;
+      }
+
+      if (!isInitializeRequest(req.body)) {
+        sendJsonRpcError(res, 400, "Bad Request: no session ID provided and the request is not an initialize request");
+        return;
+      }
+
+      const transport = await this.createTransport();
+      try {
+        await transport.handleRequest(req, res, req.body);
+      } finally {
+        // A failed initialize leaves no session to close the server later
+        if (!transport.sessionId || !this.sessions.has(transport.sessionId)) {
+          await transport.close();
+        }
+      }
+    } catch (error: any) {
+      console.error(`Error handling MCP request: ${error.message}`);
+      if (!res.headersSent) {
+        sendJsonRpcError(res, 500, "Internal server error");
+      }
+    }
+  }
+
+  private async handleSessionRequest(req: Request, res: Response): Promise<void> {
+    const sessionId = req.header(SESSION_HEADER);
+
+    if (!sessionId) {
+      sendJsonRpcError(res, 400, "Bad Request: missing session ID");
+      return;
+    }
+
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      sendJsonRpcError(res, 404, "Session not found");
+      return;
+    }
+
+    session.lastActivity = Date.now();
+
+    try {
+      await session.transport.handleRequest(req, res);
+    } catch (error: any) {
+      console.error(`Error handling MCP request: ${error.message}`);
+      if (!res.headersSent) {
+        sendJsonRpcError(res, 500, "Internal server error");
+      }
+    }
+  }
+
+  /**
+   * Creates the transport and MCP server of a new session
+   *
+   * The session is registered once the transport has assigned its ID while
+   * handling the initialize request.
+   */
+  private async createTransport(): Promise<StreamableHTTPServerTransport> {
+    const server = this.options.createServer();
+    const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => crypto.randomUUID(),
+      onsessioninitialized: (id) => {
+        console.error(`MCP session ${id} started`);
+        this.sessions.set(id, { server, transport, lastActivity: Date.now() });
+      },
+    });
+
+    transport.onclose = () => {
+      const id = transport.sessionId;
+      if (id && this.sessions.delete(id)) {
+        console.error(`MCP session ${id} closed`);
+      }
+    };
+
+    await server.connect(transport);
+    return transport;
+  }
+
+  private async closeSession(id: string): Promise<void> {
+    const session = this.sessions.get(id);
+    if (!session) {
+      return;
+    }
+
+    this.sessions.delete(id);
+    try {
+      await session.server.close();
+    } catch (error: any) {
+      console.error(`Error closing MCP session ${id}: ${error.message}`);
+    }
+  }
+}
@@ -3,37 +3,110 @@ import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js"
 import {
   CallToolRequest,
   CallToolRequestSchema,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ListResourcesRequestSchema,
   ListToolsRequestSchema,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
 } from "@modelcontextprotocol/sdk/types.js";
 import dotenv from "dotenv";
 import { z } from "zod";
 import express from "express";
-import axios from "axios";
 import querystring from "querystring";
 import open from "open";
 import net from "net";
-import fs from "fs";
 import path from "path";
 import os from "os";
-import { promisify } from "util";
-import { exec } from "child_process";
-import { ServerAlreadyRunningError } from "./errors.js";
-import { SpotifyPlaylist } from "./types.js";
+import { API, AUTH, HISTORY, SERVER, STORAGE } from "./config.js";
+import { createCredentialBackend } from "./credential-backends.js";
+import { describeDevice, isDeviceId, resolveDevice } from "./devices.js";
+import { formatDuration, parseDuration } from "./durations.js";
+import { HistoryRecorder } from "./history-recorder.js";
+import { McpHttpEndpoint, requireBearerToken } from "./http-transport.js";
+import {
+  ListeningHistoryStore,
+  countHistory,
+  filterHistory,
+  findStreamingHistoryFiles,
+  listeningTimeMs,
+  parseDateBound,
+  readStreamingHistoryFile,
+} from "./listening-history.js";
+import { TIME_RANGES, formatListeningSummary } from "./listening-summary.js";
+import { CliCommand, USAGE, parseCommand } from "./cli.js";
+import { APIError, AuthenticationError, InsufficientScopeError, ValidationError } from "./errors.js";
+import { AuthorizationRequest, createAuthorizationRequest } from "./pkce.js";
+import { PlaybackWatcher } from "./playback-watcher.js";
+import { resolveInsideDirectory } from "./local-files.js";
+import { DUPLICATE_MODES, findDuplicates, formatDuplicateGroups } from "./playlist-duplicates.js";
+import {
+  EXPORT_FORMATS,
+  ExportFormat,
+  PlaylistExport,
+  buildPlaylistExport,
+  formatPlaylistExport,
+  writePlaylistExport,
+} from "./playlist-export.js";
+import { PROMPTS, getPrompt } from "./prompts.js";
+import { ProfileManager } from "./profiles.js";
+import {
+  DEFAULT_MIN_CONFIDENCE,
+  MAX_TRACKLIST_ENTRIES,
+  TRACKLIST_FORMATS,
+  TrackSearch,
+  formatImportReview,
+  matchEntry,
+  parseTracklist,
+  readTracklistFile,
+} from "./playlist-import.js";
+import {
+  PlaylistSnapshot,
+  PlaylistSnapshotStore,
+  RESTORE_REASON,
+  buildPlaylistSnapshot,
+  diffSnapshots,
+  formatSnapshotDiff,
+} from "./playlist-snapshots.js";
+import { RequestScheduler } from "./request-scheduler.js";
+import { missingScopes, requiredScopes } from "./scopes.js";
+import { CURRENT_PLAYBACK_URI, RESOURCES, RESOURCE_TEMPLATES, isSubscribable, readResource } from "./resources.js";
+import { CollectedItems, PlayOptions, PlaylistDetails, SpotifyClient, TimeRange, collectItems } from "./spotify-client.js";
+import { TokenStore } from "./token-store.js";
+import { SpotifyEntityType, resolveSpotifyReference, spotifyId, spotifyReference } from "./spotify-uris.js";
+import {
+  SpotifyAlbumTrack,
+  SpotifyArtist,
+  SpotifyDevice,
+  SpotifyEpisode,
+  SpotifyPaging,
+  SpotifyPlaylist,
+  SpotifyPlaylistItem,
+  SpotifyTrack,
+} from "./types.js";
 
 dotenv.config();
 
-const execAsync = promisify(exec);
-
-const SPOTIFY_API_BASE = "https://api.spotify.com/v1";
-const SPOTIFY_AUTH_BASE = "https://accounts.spotify.com";
+const { SPOTIFY_API_BASE, SPOTIFY_AUTH_BASE } = API;
 
-const PORT = 8888;
-const REDIRECT_URI = `http://127.0.0.1:${PORT}/callback`;
-const CLIENT_ID = process.env.SPOTIFY_CLIENT_ID;
-const CLIENT_SECRET = process.env.SPOTIFY_CLIENT_SECRET;
+const PORT = SERVER.PORT;
+const REDIRECT_URI = AUTH.REDIRECT_URI;
+const CLIENT_ID = AUTH.CLIENT_ID;
+const CLIENT_SECRET = AUTH.CLIENT_SECRET;
 
 const TOKEN_DIR = path.join(os.homedir(), '.spotify-mcp');
-const TOKEN_PATH = path.join(TOKEN_DIR, 'tokens.json');
+
+// Directory export-playlist writes its outputPath in
+const EXPORT_DIR = path.join(TOKEN_DIR, 'exports');
+
+// Directory import-playlist and import-streaming-history read their files from
+const IMPORT_DIR = path.join(TOKEN_DIR, 'imports');
+
+// Item limits for list tools called with fetchAll
+const DEFAULT_MAX_ITEMS = 500;
+const MAX_ITEMS_LIMIT = 10000;
 
 /**
  * Check if a port is already in use
@@ -59,115 +132,79 @@ function isPortInUse(port: number): Promise<boolean> {
   });
 }
 
-let accessToken: string | null = null;
-let refreshToken: string | null = null;
-let tokenExpirationTime = 0;
 let authServer: any = null;
 
+// MCP endpoint of the HTTP transport, when it is used
+let mcpEndpoint: McpHttpEndpoint | null = null;
+
 /**
- * Ensures the token storage directory exists
+ * How long auth-spotify waits for the browser to come back to /callback
  */
-function ensureTokenDirExists() {
-  try {
-    if (!fs.existsSync(TOKEN_DIR)) {
-      fs.mkdirSync(TOKEN_DIR, { recursive: true });
-    }
-  } catch (error) {
-    console.error(`Error creating token directory: ${error}`);
-  }
-}
+const AUTH_TIMEOUT_MS = 5 * 60 * 1000;
 
 /**
- * Saves the tokens to a file
- * This allows tokens to be shared between different instances of the application
+ * How long an authorization request can be completed, by the callback or
+ * complete-spotify-auth, after it was started
  */
-function saveTokens() {
-  try {
-    console.error(`Attempting to save tokens to ${TOKEN_PATH}`);
-    ensureTokenDirExists();
-    const tokenData = {
-      accessToken,
-      refreshToken,
-      tokenExpirationTime
-    };
-
-    console.error(`Token data to save: {
-      accessToken: ${accessToken ? '***token exists***' : 'null'},
-      refreshToken: ${refreshToken ? '***token exists***' : 'null'},
-      tokenExpirationTime: ${tokenExpirationTime}
-    }`);
-
-    fs.writeFileSync(TOKEN_PATH, JSON.stringify(tokenData, null, 2));
-    console.error(`Tokens successfully saved to ${TOKEN_PATH}`);
-  } catch (error) {
-    console.error(`Error saving tokens: ${error}`);
-    // Print the full error stack for debugging
-    if (error instanceof Error && error.stack) {
-      console.error(error.stack);
-    }
-  }
-}
+const PENDING_AUTHORIZATION_TTL_MS = 15 * 60 * 1000;
 
 /**
- * Loads tokens from the tokens file
- * Returns true if tokens were successfully loaded, false otherwise
+ * An authorization request waiting for its code, along with the profile
+ * the resulting tokens belong to
  */
-function loadTokens(): boolean {
-  try {
-    console.error(`Attempting to load tokens from ${TOKEN_PATH}`);
-
-    if (!fs.existsSync(TOKEN_PATH)) {
-      console.error(`Token file does not exist: ${TOKEN_PATH}`);
-      return false;
-    }
-
-    const rawData = fs.readFileSync(TOKEN_PATH, 'utf-8');
-    console.error(`Raw token data loaded (${rawData.length} bytes)`);
+interface PendingAuthorization extends AuthorizationRequest {
+  profile: string;
+  createdAt: number;
+  onComplete?: (error?: Error) => void;
+}
 
-    if (rawData.trim() === '') {
-      console.error(`Token file is empty`);
-      return false;
-    }
+// Pending authorization requests, keyed by their `state` value
+const pendingAuthorizations = new Map<string, PendingAuthorization>();
+
+const credentialBackend = createCredentialBackend(STORAGE.CREDENTIAL_BACKEND, STORAGE.TOKEN_PASSPHRASE);
+console.error(`Using the ${credentialBackend.name} credential backend`);
+
+const profiles = new ProfileManager({
+  baseDir: TOKEN_DIR,
+  initialProfile: AUTH.PROFILE,
+  createStore: (tokenPath) => new TokenStore({
+    tokenPath,
+    clientId: CLIENT_ID,
+    clientSecret: CLIENT_SECRET,
+    authBase: SPOTIFY_AUTH_BASE,
+    backend: credentialBackend,
+  }),
+});
 
-    const tokenData = JSON.parse(rawData);
+const scheduler = new RequestScheduler({
+  maxConcurrency: API.MAX_CONCURRENCY,
+  maxRetries: API.MAX_RETRIES,
+});
 
-    if (!tokenData.accessToken || !tokenData.refreshToken) {
-      console.error(`Token data is incomplete in file`);
-      return false;
-    }
+if (AUTH.USE_PKCE) {
+  console.error("No client secret configured, using the Authorization Code flow with PKCE");
+}
 
-    accessToken = tokenData.accessToken;
-    refreshToken = tokenData.refreshToken;
-    tokenExpirationTime = tokenData.tokenExpirationTime;
+const activeTokenStore = profiles.activeStore();
+console.error(activeTokenStore.hasTokens() ?
+  `Tokens loaded successfully for profile "${profiles.activeName}" from ${activeTokenStore.tokenPath}` :
+  `No tokens found for profile "${profiles.activeName}" at ${activeTokenStore.tokenPath}, will need to authenticate`);
 
-    console.error(`Tokens loaded successfully: {
-      accessToken: ***token masked***,
-      refreshToken: ***token masked***,
-      tokenExpirationTime: ${tokenExpirationTime} (expires ${new Date(tokenExpirationTime).toISOString()})
-    }`);
+const AuthSchema = z.object({
+  reauthorize: z.boolean().default(false),
+});
 
-    return true;
-  } catch (error) {
-    console.error(`Error loading tokens: ${error}`);
-    if (error instanceof Error && error.stack) {
-      console.error(error.stack);
-    }
-    return false;
-  }
-}
+const CompleteAuthSchema = z.object({
+  redirectUrl: z.string().min(1),
+});
 
-const tokensLoaded = loadTokens();
-console.error(tokensLoaded ?
-  `Tokens loaded successfully from ${TOKEN_PATH}` :
-  `No tokens found at ${TOKEN_PATH}, will need to authenticate`);
+const SwitchProfileSchema = z.object({
+  profile: z.string(),
+});
 
-/**
- * Checks if a port is in use
- * 
- * @param {number} port - The port number to check
- * @returns {Promise<boolean>} - True if the port is in use, false otherwise
- */
-// Second isPortInUse definition removed to fix duplicate function error
+const LogoutProfileSchema = z.object({
+  profile: z.string().optional(),
+});
 
 const SearchSchema = z.object({
   query: z.string(),
@@ -175,8 +212,98 @@ const SearchSchema = z.object({
   limit: z.coerce.number().min(1).max(10).default(5),
 });
 
+const GetArtistSchema = z.object({
+  artistId: spotifyId("artist"),
+  limit: z.coerce.number().min(1).max(50).default(10),
+  offset: z.coerce.number().min(0).default(0),
+  fetchAll: z.boolean().default(false),
+  maxItems: z.coerce.number().min(1).max(MAX_ITEMS_LIMIT).default(DEFAULT_MAX_ITEMS),
+});
+
+const GetAlbumSchema = z.object({
+  albumId: spotifyId("album"),
+});
+
+const GetTrackSchema = z.object({
+  trackId: spotifyId("track"),
+});
+
+// Item types that can be played or queued on their own, and that can be played as a context
+const PLAYABLE_TYPES: SpotifyEntityType[] = ["track", "episode"];
+const CONTEXT_TYPES: SpotifyEntityType[] = ["album", "playlist", "artist", "show"];
+
 const PlayTrackSchema = z.object({
-  trackId: z.string(),
+  trackId: spotifyReference({ defaultType: "track", allowedTypes: [...PLAYABLE_TYPES, ...CONTEXT_TYPES] }).optional(),
+  uris: z.array(spotifyReference({ defaultType: "track", allowedTypes: PLAYABLE_TYPES })).min(1).max(100).optional(),
+  contextUri: spotifyReference({ allowedTypes: CONTEXT_TYPES }).optional(),
+  offset: z.union([
+    z.number().int().min(0),
+    spotifyReference({ defaultType: "track", allowedTypes: PLAYABLE_TYPES }),
+  ]).optional(),
+  positionMs: z.coerce.number().int().min(0).optional(),
+  deviceId: z.string().optional(),
+}).refine(
+  (value) => [value.trackId, value.uris, value.contextUri].filter((field) => field !== undefined).length === 1,
+  { message: "Provide exactly one of trackId, uris or contextUri" }
+);
+
+// Plain IDs in items are read as the given type, so items are resolved once type is known
+const AddToQueueSchema = z.object({
+  items: z.array(z.string()).min(1).max(100),
+  type: z.enum(["track", "episode"]).default("track"),
+  deviceId: z.string().optional(),
+}).transform(async ({ items, type, deviceId }, ctx) => {
+  const uris = await Promise.all(items.map(async (item, index) => {
+    try {
+      return (await resolveSpotifyReference(item, { defaultType: type, allowedTypes: PLAYABLE_TYPES })).uri;
+    } catch (error: any) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: error.message, path: ["items", index] });
+      return z.NEVER;
+    }
+  }));
+  return { uris, deviceId };
+});
+
+const QueuePlaylistSliceSchema = z.object({
+  playlistId: spotifyId("playlist"),
+  start: z.coerce.number().int().min(0).default(0),
+  count: z.coerce.number().int().min(1).max(100).default(10),
+  deviceId: z.string().optional(),
+});
+
+const TransferPlaybackSchema = z.object({
+  deviceId: z.string(),
+  play: z.boolean().default(false),
+});
+
+const ResumePlaybackSchema = z.object({
+  deviceId: z.string().optional(),
+});
+
+const SetVolumeSchema = z.object({
+  volumePercent: z.coerce.number().int().min(0).max(100),
+  deviceId: z.string().optional(),
+});
+
+const SeekToPositionSchema = z.object({
+  position: z.union([z.number(), z.string()]).transform((value, ctx) => {
+    try {
+      return parseDuration(value);
+    } catch (error: any) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: error.message });
+      return z.NEVER;
+    }
+  }),
+  deviceId: z.string().optional(),
+});
+
+const SetShuffleSchema = z.object({
+  state: z.boolean(),
+  deviceId: z.string().optional(),
+});
+
+const SetRepeatModeSchema = z.object({
+  mode: z.enum(["off", "track", "context"]),
   deviceId: z.string().optional(),
 });
 
@@ -187,13 +314,13 @@ const CreatePlaylistSchema = z.object({
 });
 
 const AddTracksSchema = z.object({
-  playlistId: z.string(),
-  trackIds: z.array(z.string()),
+  playlistId: spotifyId("playlist"),
+  trackIds: z.array(spotifyId("track")),
 });
 
 const GetRecommendationsSchema = z.object({
-  seedTracks: z.array(z.string()).optional(),
-  seedArtists: z.array(z.string()).optional(),
+  seedTracks: z.array(spotifyId("track")).optional(),
+  seedArtists: z.array(spotifyId("artist")).optional(),
   seedGenres: z.array(z.string()).optional(),
   limit: z.coerce.number().min(1).max(100).default(20),
 });
@@ -202,30 +329,89 @@ const GetTopTracksSchema = z.object({
   limit: z.coerce.number().min(1).max(50).default(20),
   offset: z.coerce.number().min(0).default(0),
   time_range: z.enum(["short_term", "medium_term", "long_term"]).default("medium_term"),
+  fetchAll: z.boolean().default(false),
+  maxItems: z.coerce.number().min(1).max(MAX_ITEMS_LIMIT).default(DEFAULT_MAX_ITEMS),
+});
+
+const GetTopArtistsSchema = z.object({
+  limit: z.coerce.number().min(1).max(50).default(20),
+  offset: z.coerce.number().min(0).default(0),
+  time_range: z.enum(["short_term", "medium_term", "long_term"]).default("medium_term"),
+  fetchAll: z.boolean().default(false),
+  maxItems: z.coerce.number().min(1).max(MAX_ITEMS_LIMIT).default(DEFAULT_MAX_ITEMS),
+});
+
+const ListeningSummarySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(50).default(50),
+  top: z.coerce.number().int().min(1).max(20).default(5),
+});
+
+const QueryListeningHistorySchema = z.object({
+  from: z.string().optional(),
+  to: z.string().optional(),
+  artist: z.string().optional(),
+  track: z.string().optional(),
+  groupBy: z.enum(["none", "artist", "track", "day"]).default("none"),
+  limit: z.coerce.number().int().min(1).max(500).default(50),
+  sync: z.boolean().default(true),
+});
+
+const ImportStreamingHistorySchema = z.object({
+  paths: z.array(z.string().min(1)).min(1),
+  minSecondsPlayed: z.coerce.number().min(0).default(30),
 });
 
 const GetUserPlaylistsSchema = z.object({
   limit: z.coerce.number().min(1).max(50).default(20),
   offset: z.coerce.number().min(0).default(0),
+  fetchAll: z.boolean().default(false),
+  maxItems: z.coerce.number().min(1).max(MAX_ITEMS_LIMIT).default(DEFAULT_MAX_ITEMS),
 });
 
 const GetPlaylistTracksSchema = z.object({
-  playlistId: z.string(),
+  playlistId: spotifyId("playlist"),
   limit: z.coerce.number().min(1).max(50).default(20),
   offset: z.coerce.number().min(0).default(0),
+  fetchAll: z.boolean().default(false),
+  maxItems: z.coerce.number().min(1).max(MAX_ITEMS_LIMIT).default(DEFAULT_MAX_ITEMS),
+});
+
+const ExportPlaylistSchema = z.object({
+  playlistId: spotifyId("playlist"),
+  format: z.enum(EXPORT_FORMATS).default("csv"),
+  outputPath: z.string().min(1).optional(),
+});
+
+const ImportPlaylistSchema = z.object({
+  tracklist: z.string().min(1).optional(),
+  filePath: z.string().min(1).optional(),
+  format: z.enum(TRACKLIST_FORMATS).default("auto"),
+  playlistId: spotifyId("playlist").optional(),
+  name: z.string().min(1).optional(),
+  description: z.string().optional(),
+  public: z.boolean().default(false),
+  minConfidence: z.coerce.number().min(0).max(1).default(DEFAULT_MIN_CONFIDENCE),
+  dryRun: z.boolean().default(false),
+}).superRefine((value, ctx) => {
+  if (Boolean(value.tracklist) === Boolean(value.filePath)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Pass either tracklist or filePath" });
+  }
+  if (!value.dryRun && Boolean(value.playlistId) === Boolean(value.name)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Pass either playlistId to add to an existing playlist or name to create one" });
+  }
 });
 
 const DeletePlaylistSchema = z.object({
-  playlistId: z.string(),
+  playlistId: spotifyId("playlist"),
 });
 
 const RemoveTracksFromPlaylistSchema = z.object({
-  playlistId: z.string(),
-  trackIds: z.array(z.string()),
+  playlistId: spotifyId("playlist"),
+  trackIds: z.array(spotifyId("track")),
 });
 
 const UpdatePlaylistSchema = z.object({
-  playlistId: z.string(),
+  playlistId: spotifyId("playlist"),
   name: z.string().optional(),
   description: z.string().optional(),
   public: z.preprocess((v) => v === "true" ? true : v === "false" ? false : v, z.boolean().optional()),
@@ -233,27 +419,75 @@ const UpdatePlaylistSchema = z.object({
 });
 
 const GetPlaylistCoverSchema = z.object({
-  playlistId: z.string(),
+  playlistId: spotifyId("playlist"),
 });
 
 const UploadPlaylistCoverSchema = z.object({
-  playlistId: z.string(),
+  playlistId: spotifyId("playlist"),
   imageBase64: z.string(),
 });
 
 const ReorderPlaylistTracksSchema = z.object({
-  playlistId: z.string(),
+  playlistId: spotifyId("playlist"),
   rangeStart: z.coerce.number().min(0),
   insertBefore: z.coerce.number().min(0),
   rangeLength: z.coerce.number().min(1).default(1),
 });
 
+const ListPlaylistSnapshotsSchema = z.object({
+  playlistId: spotifyId("playlist").optional(),
+});
+
+const DiffPlaylistSnapshotsSchema = z.object({
+  playlistId: spotifyId("playlist"),
+  from: z.string().min(1).default("latest"),
+  to: z.string().min(1).default("current"),
+});
+
+const RestorePlaylistSnapshotSchema = z.object({
+  playlistId: spotifyId("playlist"),
+  snapshotId: z.string().min(1).default("latest"),
+});
+
+const FindPlaylistDuplicatesSchema = z.object({
+  playlistId: spotifyId("playlist"),
+  mode: z.enum(DUPLICATE_MODES).default("exact"),
+});
+
+const DedupePlaylistSchema = z.object({
+  playlistId: spotifyId("playlist"),
+  mode: z.enum(DUPLICATE_MODES).default("exact"),
+  dryRun: z.boolean().default(false),
+});
+
 const GetRecentlyPlayedSchema = z.object({
   limit: z.coerce.number().min(1).max(50).default(20),
   before: z.coerce.number().optional(),
   after: z.coerce.number().optional(),
 });
 
+const GetSavedItemsSchema = z.object({
+  limit: z.coerce.number().min(1).max(50).default(20),
+  offset: z.coerce.number().min(0).default(0),
+  fetchAll: z.boolean().default(false),
+  maxItems: z.coerce.number().min(1).max(MAX_ITEMS_LIMIT).default(DEFAULT_MAX_ITEMS),
+});
+
+const SavedTracksSchema = z.object({
+  trackIds: z.array(spotifyId("track")).min(1).max(500),
+});
+
+const SaveAlbumsSchema = z.object({
+  albumIds: z.array(spotifyId("album")).min(1).max(200),
+});
+
+const GetFollowedArtistsSchema = z.object({
+  limit: z.coerce.number().min(1).max(50).default(20),
+  after: spotifyId("artist").optional(),
+  fetchAll: z.boolean().default(false),
+  maxItems: z.coerce.number().min(1).max(MAX_ITEMS_LIMIT).default(DEFAULT_MAX_ITEMS),
+});
+
 /**
  * Returns a playlist item count that supports both legacy and current API shapes.
  *
@@ -264,1019 +498,2015 @@ function getPlaylistItemTotal(playlist: SpotifyPlaylist): number | string {
   return playlist.items?.total ?? playlist.tracks?.total ?? "N/A";
 }
 
-const server = new Server(
-  {
-    name: "spotify-mcp",
-    version: "0.5.0",
-  },
-  {
-    capabilities: {
-      tools: {},
-    },
+/**
+ * Fetches either a single page or, with fetchAll, every page up to maxItems
+ *
+ * @param {Function} fetchPage - Fetches a single page of `limit` items
+ * @param {Function} fetchPages - Iterates over all pages starting at the offset
+ * @returns {Promise<CollectedItems<T>>} The items, the total and whether the listing was truncated
+ */
+async function fetchListing<T>(
+  options: { fetchAll: boolean; maxItems: number },
+  fetchPage: () => Promise<SpotifyPaging<T>>,
+  fetchPages: () => AsyncIterable<SpotifyPaging<T>>
+): Promise<CollectedItems<T>> {
+  if (options.fetchAll) {
+    return collectItems(fetchPages(), options.maxItems);
   }
-);
+
+  const page = await fetchPage();
+  return { items: page.items, total: page.total, truncated: false };
+}
 
 /**
- * Ensures a valid access token is available
- * 
- * This function checks if the current access token is valid, and if not,
- * attempts to refresh it using the refresh token. If refresh fails or no
- * refresh token is available, it returns null indicating authentication
- * is required.
- * 
- * @returns {Promise<string|null>} The valid access token or null if authentication is needed
+ * Describes which part of a listing is shown, with a notice when fetchAll stopped at maxItems
  */
-async function ensureToken(): Promise<string | null> {
-  const now = Date.now();
-
-  if (!accessToken && !refreshToken) {
-    loadTokens();
-  }
+function describeListing(listing: CollectedItems<unknown>, offset: number, noun: string): string {
+  const range = `Showing ${offset + 1}-${offset + listing.items.length} of ${listing.total} total ${noun}`;
 
-  if (accessToken && now < tokenExpirationTime - 60000) {
-    console.error(`Using existing valid token, expires in ${Math.floor((tokenExpirationTime - now) / 1000)} seconds`);
-    return accessToken;
+  if (!listing.truncated) {
+    return range;
   }
 
-  if (refreshToken) {
-    try {
-      const response = await axios.post(
-        `${SPOTIFY_AUTH_BASE}/api/token`,
-        querystring.stringify({
-          grant_type: "refresh_token",
-          refresh_token: refreshToken,
-        }),
-        {
-          headers: {
-            "Content-Type": "application/x-www-form-urlencoded",
-            Authorization: `Basic ${Buffer.from(
-              `${CLIENT_ID}:${CLIENT_SECRET}`
-            ).toString("base64")}`,
-          },
-        }
-      );
+  return `${range}
+Listing truncated after ${listing.items.length} ${noun}. Call again with offset=${offset + listing.items.length} or a higher maxItems to see the rest.`;
+}
 
-      accessToken = response.data.access_token;
-      tokenExpirationTime = now + response.data.expires_in * 1000;
+/**
+ * Fetches a whole playlist and writes it in an export format
+ *
+ * Shared by the export-playlist tool and command.
+ */
+async function exportPlaylist(playlistId: string, format: ExportFormat): Promise<{ data: PlaylistExport; contents: string }> {
+  const { playlist, items } = await fetchPlaylistWithItems(playlistId);
 
-      if (response.data.refresh_token) {
-        refreshToken = response.data.refresh_token;
-      }
+  const data = buildPlaylistExport(playlist, items);
+  return { data, contents: formatPlaylistExport(data, format) };
+}
 
-      saveTokens();
+/**
+ * Fetches a playlist's details and all of its items
+ */
+async function fetchPlaylistWithItems(playlistId: string): Promise<{ playlist: SpotifyPlaylist; items: SpotifyPlaylistItem[] }> {
+  const [playlist, items] = await Promise.all([
+    spotify.getPlaylist(playlistId),
+    collectItems(spotify.playlistItemPages(playlistId), Infinity),
+  ]);
+  return { playlist, items: items.items };
+}
 
-      console.error(`Token refreshed successfully, new token expires in ${response.data.expires_in} seconds`);
-      return accessToken;
-    } catch (error: any) {
-      console.error("Error refreshing token:", error.message);
-      accessToken = null;
-      refreshToken = null;
-      tokenExpirationTime = 0;
+/**
+ * Fetches the current details and items of a playlist as a snapshot, without storing it
+ */
+async function currentPlaylistState(playlistId: string, reason: string): Promise<PlaylistSnapshot> {
+  const { playlist, items } = await fetchPlaylistWithItems(playlistId);
+  return buildPlaylistSnapshot(playlist, items, reason);
+}
 
-      saveTokens();
+/**
+ * Stores a snapshot of a playlist before a tool changes it
+ *
+ * The change must not go ahead when the snapshot fails, as it could not be
+ * undone; authorization errors are passed on as they are.
+ *
+ * @param {string} playlistId - The playlist about to change
+ * @param {string} toolName - The tool changing it
+ * @returns {Promise<PlaylistSnapshot>} The snapshot
+ */
+async function snapshotBeforeChange(playlistId: string, toolName: string): Promise<PlaylistSnapshot> {
+  try {
+    const snapshot = await currentPlaylistState(playlistId, toolName);
+    snapshotStore().add(snapshot);
+    return snapshot;
+  } catch (error: any) {
+    if (error instanceof AuthenticationError) {
+      throw error;
     }
+    throw new APIError(
+      `Could not save a snapshot of playlist ${playlistId}, so it was not changed: ${error.message}`,
+      error.status,
+      error.data
+    );
   }
+}
+
+function undoHint(snapshot: PlaylistSnapshot): string {
+  return `A snapshot of the previous state was saved (${snapshot.snapshotId}); use restore-playlist-snapshot to undo.`;
+}
 
-  return null;
+function playlistItemUri(item: SpotifyPlaylistItem): string | null {
+  const track = item.item || item.track;
+  return track ? track.uri ?? `spotify:track:${track.id}` : null;
 }
 
 /**
- * Makes an authenticated request to the Spotify API
- * 
- * Handles token management and formats requests/responses appropriately.
- * Throws appropriate errors when authentication fails or API requests fail.
- * 
- * @param {string} endpoint - The Spotify API endpoint (e.g., "/me/playlists")
- * @param {string} method - HTTP method (GET, POST, PUT, DELETE)
- * @param {any} data - Optional request body data for POST/PUT requests
- * @returns {Promise<any>} The API response data
- * @throws {Error} If authentication is missing or API request fails
+ * Removes items of a playlist by position and checks the result
+ *
+ * Positions in removal requests are not part of the documented Web API.
+ * When Spotify rejects them or removes other items, and the playlist has not
+ * changed otherwise since, it is rebuilt with the items that should remain,
+ * which resets when they were added.
+ *
+ * @param {SpotifyPlaylist} playlist - The playlist, as read along with its items
+ * @param {SpotifyPlaylistItem[]} items - All items of the playlist, in order
+ * @param {object[]} removals - URIs and 0-based positions of the items to remove
+ * @param {PlaylistSnapshot} snapshot - Snapshot saved before the change
+ * @returns {Promise<boolean>} Whether the playlist had to be rebuilt
+ * @throws {APIError} If the positions were not honored and the playlist cannot be rebuilt safely
  */
-async function spotifyApiRequest(endpoint: string, method: string = "GET", data: any = null) {
-  console.error(`Starting API request to ${endpoint}`);
-
-  if (!accessToken || !refreshToken) {
-    console.error(`No tokens in memory, trying to load from file...`);
-    try {
-      if (fs.existsSync(TOKEN_PATH)) {
-        const fileContent = fs.readFileSync(TOKEN_PATH, 'utf8');
-        console.error(`Read ${fileContent.length} bytes from token file`);
-
-        if (fileContent.trim() !== '') {
-          const tokenData = JSON.parse(fileContent);
-          accessToken = tokenData.accessToken;
-          refreshToken = tokenData.refreshToken;
-          tokenExpirationTime = tokenData.tokenExpirationTime;
-          console.error(`Tokens loaded successfully`);
-        } else {
-          console.error(`Token file is empty, cannot load tokens`);
-        }
-      } else {
-        console.error(`Token file does not exist: ${TOKEN_PATH}`);
-      }
-    } catch (err) {
-      console.error(`Error loading tokens from file: ${err}`);
+async function removeItemsAtPositions(
+  playlist: SpotifyPlaylist,
+  items: SpotifyPlaylistItem[],
+  removals: { uri: string; position: number }[],
+  snapshot: PlaylistSnapshot
+): Promise<boolean> {
+  const removed = new Set(removals.map(({ position }) => position));
+  const expected = items.filter((_, position) => !removed.has(position)).map(playlistItemUri);
+
+  let snapshotId = playlist.snapshot_id;
+  try {
+    snapshotId = (await spotify.removeItemsAtPositions(playlist.id, removals, playlist.snapshot_id)).snapshot_id;
+  } catch (error: any) {
+    if (!(error instanceof APIError) || error.status !== 400) {
+      throw error;
     }
+    console.error(`Spotify rejected the removal by position: ${error.message}`);
   }
 
-  if (!accessToken) {
-    console.error(`No access token available for request to ${endpoint}`);
-    throw new Error("Not authenticated. Please authorize the app first.");
+  const current = await fetchPlaylistWithItems(playlist.id);
+  const remaining = current.items.map(playlistItemUri);
+  if (remaining.length === expected.length && remaining.every((uri, index) => uri === expected[index])) {
+    return false;
   }
 
-  const now = Date.now();
-  if (now >= tokenExpirationTime - 60000) {
-    if (refreshToken) {
-      try {
-        console.error(`Token expired, attempting to refresh...`);
-        const response = await axios.post(
-          `${SPOTIFY_AUTH_BASE}/api/token`,
-          querystring.stringify({
-            grant_type: "refresh_token",
-            refresh_token: refreshToken,
-          }),
-          {
-            headers: {
-              "Content-Type": "application/x-www-form-urlencoded",
-              Authorization: `Basic ${Buffer.from(
-                `${CLIENT_ID}:${CLIENT_SECRET}`
-              ).toString("base64")}`,
-            },
-          }
-        );
-
-        accessToken = response.data.access_token;
-        tokenExpirationTime = now + response.data.expires_in * 1000;
-
-        if (response.data.refresh_token) {
-          refreshToken = response.data.refresh_token;
-        }
+  if (current.playlist.snapshot_id !== snapshotId) {
+    throw new APIError(`"${playlist.name}" changed while the duplicates were removed, so it was not rebuilt. ${undoHint(snapshot)}`);
+  }
+  if (expected.some((uri) => uri === null)) {
+    throw new APIError(`Spotify did not remove the duplicates of "${playlist.name}" by position, and the playlist has local files or removed tracks, so it was not rebuilt. ${undoHint(snapshot)}`);
+  }
 
-        console.error(`Token refreshed successfully, expires at ${new Date(tokenExpirationTime).toISOString()}`);
+  await spotify.replaceItems(playlist.id, expected as string[]);
+  return true;
+}
 
-        try {
-          if (!fs.existsSync(TOKEN_DIR)) {
-            fs.mkdirSync(TOKEN_DIR, { recursive: true });
-          }
+/**
+ * Formats a track or episode on one line
+ */
+function formatPlayable(item: SpotifyTrack | SpotifyAlbumTrack | SpotifyEpisode): string {
+  const duration = formatDuration(item.duration_ms);
 
-          const tokenData = JSON.stringify({
-            accessToken,
-            refreshToken,
-            tokenExpirationTime
-          }, null, 2);
+  if ("artists" in item) {
+    return `${item.name} - ${item.artists.map((a: SpotifyArtist) => a.name).join(", ")} (${duration})
+   ID: ${item.id}`;
+  }
+  return `${item.name} - ${item.show?.name || "Podcast episode"} (episode, ${duration})
+   ID: ${item.id}`;
+}
 
-          fs.writeFileSync(TOKEN_PATH, tokenData);
-          console.error(`Refreshed tokens saved to file`);
-        } catch (saveError) {
-          console.error(`Failed to save refreshed tokens: ${saveError}`);
-        }
-      } catch (refreshError) {
-        console.error(`Failed to refresh token: ${refreshError}`);
-        accessToken = null;
-        refreshToken = null;
-        tokenExpirationTime = 0;
-        throw new Error("Authentication expired. Please authenticate again.");
-      }
-    } else {
-      console.error(`Token expired but no refresh token available`);
-      accessToken = null;
-      tokenExpirationTime = 0;
-      throw new Error("Authentication expired. Please authenticate again.");
+/**
+ * Runs a request for an optional part of a result
+ *
+ * Some endpoints, such as related artists, are not available to every app.
+ * Their 403 and 404 answers yield null so that the rest of the result can
+ * still be shown.
+ */
+async function whenAvailable<T>(request: Promise<T>): Promise<T | null> {
+  try {
+    return await request;
+  } catch (error) {
+    if (error instanceof APIError && (error.status === 403 || error.status === 404)) {
+      return null;
     }
+    throw error;
   }
+}
 
-  console.error(`Making authenticated request to ${endpoint}`);
-
-  try {
-    const response = await axios({
-      method,
-      url: `${SPOTIFY_API_BASE}${endpoint}`,
-      headers: {
-        Authorization: `Bearer ${accessToken}`,
-        "Content-Type": "application/json",
-      },
-      data: data ? data : undefined,
-    });
+/**
+ * Adds items to the queue one at a time, keeping their order
+ *
+ * Spotify only accepts one item per request. Queue requests are not retried
+ * on server errors, since a retry could queue an item twice.
+ *
+ * @throws {Error} Naming how many items were queued if one of the requests fails
+ */
+async function queueItems(uris: string[], deviceId?: string): Promise<void> {
+  const device = await resolveDeviceId(deviceId);
 
-    console.error(`Request to ${endpoint} succeeded`);
-    return response.data;
-  } catch (error: any) {
-    console.error(`Spotify API error: ${error.message}`);
-    if (error.response) {
-      console.error(`Status: ${error.response.status}`);
-      console.error(`Data:`, error.response.data);
-
-      if (error.response.status === 401) {
-        console.error(`Token appears to be invalid, clearing tokens`);
-        accessToken = null;
-        refreshToken = null;
-        tokenExpirationTime = 0;
-        throw new Error("Authorization expired. Please authenticate again.");
+  for (let i = 0; i < uris.length; i++) {
+    try {
+      await spotify.addToQueue(uris[i], device);
+    } catch (error: any) {
+      if (i === 0) {
+        throw error;
       }
+      throw new Error(`Queued ${i} of ${uris.length} items, then failed on ${uris[i]}: ${error.message}`);
     }
-    const detail = error.response?.data ? (typeof error.response.data === 'object' ? JSON.stringify(error.response.data) : String(error.response.data)) : '';
-    throw new Error(`Spotify API error: ${error.message}${detail ? ` - ${detail}` : ''}`);
   }
 }
 
 /**
- * Starts an authentication server for Spotify OAuth flow
- * 
- * Creates an Express server to handle the OAuth authentication flow with Spotify.
- * Provides login and callback endpoints, handles the exchange of authorization code
- * for access and refresh tokens, and opens the browser for the user to authenticate.
- * 
- * Handles the case where the server is already running by checking if the port
- * is already in use. If it is, it attempts to use the existing server by
- * opening the login page directly.
- * 
- * @returns {Promise<void>} Resolves when authentication is successful, rejects on failure
+ * Finds a device by Spotify ID or (fuzzy) name
+ *
+ * @param {string} query - Device ID or name, e.g. "kitchen speaker"
+ * @returns {Promise<SpotifyDevice>} The matching device
+ * @throws {ValidationError} If no single device matches
  */
-async function startAuthServer(): Promise<void> {
-  if (authServer) {
-    console.error("Auth server is already running, opening login page");
-    await open(`http://127.0.0.1:${PORT}/login`);
-    return Promise.resolve();
+async function findDevice(query: string): Promise<SpotifyDevice> {
+  return resolveDevice(await spotify.getDevices(), query);
+}
+
+/**
+ * Resolves the device argument of a playback tool to a device ID
+ *
+ * Device IDs are passed through without a lookup, names are matched against
+ * the available devices, and no argument leaves the choice to Spotify.
+ */
+async function resolveDeviceId(device?: string): Promise<string | undefined> {
+  if (!device || isDeviceId(device)) {
+    return device;
   }
+  return (await findDevice(device)).id as string;
+}
 
-  const portInUse = await isPortInUse(PORT);
-  if (portInUse) {
-    console.error(`Port ${PORT} is already in use, attempting to use existing server`);
+/**
+ * Creates an MCP server exposing the Spotify tools
+ *
+ * The stdio transport uses a single server, while the HTTP transport creates
+ * one per client session. All servers share the profiles, the API client and
+ * the playback watcher; resource subscriptions are tracked per server.
+ */
+function createServer(): Server {
+  const server = new Server(
+    {
+      name: "spotify-mcp",
+      version: "0.5.0",
+    },
+    {
+      capabilities: {
+        tools: {},
+        resources: {
+          subscribe: true,
+        },
+        prompts: {},
+      },
+    }
+  );
 
-    console.error(`Attempting to kill any process on port ${PORT}...`);
-    try {
-      if (process.platform === 'win32') {
-        await execAsync(`FOR /F "tokens=5" %P IN ('netstat -ano ^| findstr :${PORT} ^| findstr LISTENING') DO taskkill /F /PID %P`);
-      } else {
-        await execAsync(`lsof -i:${PORT} -t | xargs kill -9`);
-      }
-      console.error(`Successfully killed process on port ${PORT}`);
+  const subscriptions = new Set<string>();
 
-      await new Promise(resolve => setTimeout(resolve, 1000));
+  const notifyTrackChanged = () => {
+    server.sendResourceUpdated({ uri: CURRENT_PLAYBACK_URI }).catch((error) => {
+      console.error(`Error sending resource update: ${error.message}`);
+    });
+  };
 
-      const stillInUse = await isPortInUse(PORT);
-      if (stillInUse) {
-        console.error(`Port ${PORT} is still in use after kill attempt`);
-        throw new ServerAlreadyRunningError(PORT);
-      }
-    } catch (killError) {
-      console.error(`Failed to kill process on port ${PORT}: ${killError}`);
-      try {
-        await open(`http://127.0.0.1:${PORT}/login`);
-        return Promise.resolve();
-      } catch (error) {
-        throw new ServerAlreadyRunningError(PORT);
-      }
+  // The listener is only attached while subscribed, so that sessions that
+  // never subscribe, or are dropped without closing, do not hold on to it
+  const unsubscribe = (uri: string) => {
+    if (subscriptions.delete(uri) && uri === CURRENT_PLAYBACK_URI) {
+      playbackWatcher.off('trackChanged', notifyTrackChanged);
+      playbackWatcher.removeSubscriber();
     }
-  }
+  };
 
-  return new Promise((resolve, reject) => {
-    const app = express();
-
-    // Login endpoint redirects to Spotify authorization page
-    app.get("/login", (req, res) => {
-      const scopes = [
-        "user-read-private",
-        "user-read-email",
-        "user-read-playback-state",
-        "user-modify-playback-state",
-        "user-read-currently-playing",
-        "playlist-read-private",
-        "playlist-modify-private",
-        "playlist-modify-public",
-        "user-library-read",
-        "user-top-read",
-        "user-read-recently-played",
-        "ugc-image-upload",
-      ];
-
-      res.redirect(
-        `${SPOTIFY_AUTH_BASE}/authorize?${querystring.stringify({
-          response_type: "code",
-          client_id: CLIENT_ID,
-          scope: scopes.join(" "),
-          redirect_uri: REDIRECT_URI,
-        })}`
-      );
-    });
+  server.onclose = () => {
+    for (const uri of Array.from(subscriptions)) {
+      unsubscribe(uri);
+    }
+  };
 
-    // Callback endpoint receives authorization code and exchanges it for tokens
-    app.get("/callback", async (req, res) => {
-      const code = req.query.code || null;
+  server.setRequestHandler(ListToolsRequestSchema, handleListTools);
+  server.setRequestHandler(CallToolRequestSchema, handleCallTool);
 
-      if (!code) {
-        res.send("Authentication failed: No code provided");
-        reject(new Error("Authentication failed: No code provided"));
-        return;
-      }
+  server.setRequestHandler(ListResourcesRequestSchema, async () => ({ resources: RESOURCES }));
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({ resourceTemplates: RESOURCE_TEMPLATES }));
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => readResource(spotify, request.params.uri));
 
-      try {
-        console.error(`Received authorization code, exchanging for tokens...`);
-        const response = await axios.post(
-          `${SPOTIFY_AUTH_BASE}/api/token`,
-          querystring.stringify({
-            code: code as string,
-            redirect_uri: REDIRECT_URI,
-            grant_type: "authorization_code",
-          }),
-          {
-            headers: {
-              "Content-Type": "application/x-www-form-urlencoded",
-              Authorization: `Basic ${Buffer.from(
-                `${CLIENT_ID}:${CLIENT_SECRET}`
-              ).toString("base64")}`,
-            },
-          }
-        );
+  server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    const { uri } = request.params;
+    if (!isSubscribable(uri)) {
+      throw new ValidationError(`Subscriptions are only supported for ${CURRENT_PLAYBACK_URI}`);
+    }
+    if (!subscriptions.has(uri)) {
+      subscriptions.add(uri);
+      playbackWatcher.on('trackChanged', notifyTrackChanged);
+      playbackWatcher.addSubscriber();
+    }
+    return {};
+  });
 
-        console.error(`Token exchange successful, got access_token and refresh_token`);
+  server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    unsubscribe(request.params.uri);
+    return {};
+  });
 
-        accessToken = response.data.access_token;
-        refreshToken = response.data.refresh_token;
-        tokenExpirationTime = Date.now() + response.data.expires_in * 1000;
+  server.setRequestHandler(ListPromptsRequestSchema, async () => ({ prompts: PROMPTS }));
+  server.setRequestHandler(GetPromptRequestSchema, async (request) => getPrompt(request.params.name, request.params.arguments));
 
-        try {
-          if (!fs.existsSync(TOKEN_DIR)) {
-            console.error(`Creating token directory: ${TOKEN_DIR}`);
-            fs.mkdirSync(TOKEN_DIR, { recursive: true });
-          }
-        } catch (dirError) {
-          console.error(`CRITICAL ERROR creating token directory: ${dirError}`);
-        }
+  return server;
+}
 
-        try {
-          const tokenData = JSON.stringify({
-            accessToken,
-            refreshToken,
-            tokenExpirationTime
-          }, null, 2);
-
-          console.error(`Writing ${tokenData.length} bytes to ${TOKEN_PATH}`);
-          fs.writeFileSync(TOKEN_PATH, tokenData);
-
-          if (fs.existsSync(TOKEN_PATH)) {
-            const stats = fs.statSync(TOKEN_PATH);
-            console.error(`Token file successfully written: ${stats.size} bytes`);
-          } else {
-            console.error(`CRITICAL ERROR: Token file not found after writing`);
-          }
-        } catch (fileError) {
-          console.error(`CRITICAL ERROR writing token file: ${fileError}`);
-        }
+const spotify = new SpotifyClient({
+  apiBase: SPOTIFY_API_BASE,
+  scheduler,
+  getTokenStore: () => profiles.activeStore(),
+});
 
-        try {
-          console.error(`Verifying tokens with a test API call...`);
-          const verifyResponse = await axios({
-            method: 'GET',
-            url: `${SPOTIFY_API_BASE}/me`,
-            headers: {
-              Authorization: `Bearer ${accessToken}`,
-              "Content-Type": "application/json",
-            },
-          });
-
-          console.error(`Token verification successful! Authenticated as: ${verifyResponse.data.display_name}`);
-        } catch (verifyError) {
-          console.error(`Token verification failed: ${verifyError}`);
-        }
+// Polls the playback for clients subscribed to the current playback resource
+const playbackWatcher = new PlaybackWatcher({
+  getPlayback: () => spotify.getPlayback(),
+  intervalMs: API.PLAYBACK_POLL_INTERVAL_MS,
+});
 
-        res.send("Authentication successful! You can close this window now.");
-        resolve();
-      } catch (error: any) {
-        console.error("Error getting tokens:", error.message);
-        if (error.response) {
-          console.error("Error response:", error.response.data);
-        }
-        res.send("Authentication failed: " + error.message);
-        reject(error);
-      }
-    });
+// Listening history of each profile, kept next to the tokens
+const historyStores = new Map<string, ListeningHistoryStore>();
+
+function historyStore(profile: string = profiles.activeName): ListeningHistoryStore {
+  let store = historyStores.get(profile);
+  if (!store) {
+    store = new ListeningHistoryStore(path.join(TOKEN_DIR, "history", `${profile}.jsonl`));
+    historyStores.set(profile, store);
+  }
+  return store;
+}
+
+const snapshotStores = new Map<string, PlaylistSnapshotStore>();
+
+function snapshotStore(profile: string = profiles.activeName): PlaylistSnapshotStore {
+  let store = snapshotStores.get(profile);
+  if (!store) {
+    store = new PlaylistSnapshotStore(path.join(TOKEN_DIR, "snapshots", profile));
+    snapshotStores.set(profile, store);
+  }
+  return store;
+}
+
+// Records recently played tracks of the active profile into its history
+const historyRecorder = new HistoryRecorder({
+  fetchRecentlyPlayed: async (after) => (await spotify.getRecentlyPlayed(50, undefined, after)).items,
+  getStore: () => historyStore(),
+  intervalMs: HISTORY.POLL_INTERVAL_MS,
+});
+
+/**
+ * Returns the display name of the authenticated user, or null if the
+ * stored tokens are missing or no longer valid
+ */
+async function getAuthenticatedUserName(): Promise<string | null> {
+  try {
+    const user = await spotify.getCurrentUser();
+    return user.display_name || user.id;
+  } catch (error) {
+    console.error(`Token verification failed: ${error}`);
+    return null;
+  }
+}
+
+/**
+ * Drops authorization requests that were started too long ago
+ *
+ * Every tool call missing a scope starts a request, so without this the
+ * pending requests of a long-running server would pile up.
+ */
+function prunePendingAuthorizations(now: number = Date.now()) {
+  for (const [state, authRequest] of pendingAuthorizations) {
+    if (now - authRequest.createdAt > PENDING_AUTHORIZATION_TTL_MS) {
+      pendingAuthorizations.delete(state);
+      authRequest.onComplete?.(new AuthenticationError("The authorization request expired"));
+    }
+  }
+}
+
+/**
+ * Creates a new authorization request for the active profile
+ * 
+ * Every request carries a `state` value that must come back with the code;
+ * when no client secret is configured, a PKCE code challenge is added too.
+ * 
+ * @param {Function} onComplete - Called once the request succeeds or fails
+ * @returns {string} The Spotify authorization URL to open in a browser
+ */
+function beginAuthorization(onComplete?: (error?: Error) => void): string {
+  prunePendingAuthorizations();
+
+  const authRequest = createAuthorizationRequest(AUTH.USE_PKCE);
+  pendingAuthorizations.set(authRequest.state, { ...authRequest, profile: profiles.activeName, createdAt: Date.now(), onComplete });
+
+  const params: Record<string, string> = {
+    response_type: "code",
+    client_id: CLIENT_ID,
+    scope: AUTH.SCOPES.join(" "),
+    redirect_uri: REDIRECT_URI,
+    state: authRequest.state,
+  };
+
+  if (authRequest.codeChallenge) {
+    params.code_challenge_method = "S256";
+    params.code_challenge = authRequest.codeChallenge;
+  }
+
+  return `${SPOTIFY_AUTH_BASE}/authorize?${querystring.stringify(params)}`;
+}
+
+/**
+ * Exchanges an authorization code for tokens
+ * 
+ * The `state` must match a pending authorization request, so that a code
+ * can only complete an authorization this server started.
+ * 
+ * @param {string} code - Authorization code returned by Spotify
+ * @param {string} state - State value returned along with the code
+ * @returns {Promise<string>} The profile the tokens were stored for
+ * @throws {AuthenticationError} If there is no matching pending request
+ */
+async function completeAuthorization(code: string, state: string | undefined): Promise<string> {
+  prunePendingAuthorizations();
+  const authRequest = state ? pendingAuthorizations.get(state) : undefined;
+
+  if (!state || !authRequest) {
+    throw new AuthenticationError(state
+      ? "Invalid state parameter. Run auth-spotify again to start a new authorization."
+      : "The state parameter is missing. Pass the full redirect URL, including its state.");
+  }
+
+  pendingAuthorizations.delete(state);
+
+  try {
+    console.error(`Received authorization code, exchanging for tokens...`);
+    await profiles
+      .getStore(authRequest.profile)
+      .exchangeAuthorizationCode(code, REDIRECT_URI, authRequest.codeVerifier);
+    console.error(`Token exchange successful, got access_token and refresh_token`);
+    authRequest.onComplete?.();
+    return authRequest.profile;
+  } catch (error: any) {
+    console.error("Error getting tokens:", error.message);
+    if (error.response) {
+      console.error("Error response:", error.response.data);
+    }
+    authRequest.onComplete?.(error);
+    throw error;
+  }
+}
+
+/**
+ * Extracts the code and state from a pasted redirect URL, query string or bare code
+ * 
+ * @param {string} input - What the user copied after authorizing
+ * @returns The code, state and error parameters found in the input
+ */
+function parseAuthorizationResponse(input: string): { code?: string; state?: string; error?: string } {
+  const trimmed = input.trim();
+
+  if (!trimmed.includes("=")) {
+    return { code: trimmed };
+  }
+
+  const query = trimmed.includes("?") ? trimmed.slice(trimmed.indexOf("?") + 1) : trimmed;
+  const params = new URLSearchParams(query.split("#")[0]);
+
+  return {
+    code: params.get("code") || undefined,
+    state: params.get("state") || undefined,
+    error: params.get("error") || undefined,
+  };
+}
+
+/**
+ * Formats the instructions for completing authentication by hand
+ */
+function manualAuthInstructions(authUrl: string, reason: string): string {
+  return `${reason}
+
+1. Open this URL in a browser and authorize the app:
+${authUrl}
+
+2. Your browser is then redirected to ${REDIRECT_URI}?code=... That page may fail to load, which is expected.
+3. Copy the full URL from the address bar and pass it to the complete-spotify-auth tool.`;
+}
+
+/**
+ * Builds the result of a tool call that needs scopes the stored tokens lack
+ *
+ * Starts a new authorization for the active profile and returns its URL, both
+ * as instructions for the user and as structured content for the client.
+ *
+ * @param {string} toolName - The tool that was called
+ * @param {string[]} missing - Scopes the tool needs that were not granted
+ */
+async function reauthorizationResult(toolName: string, missing: string[]) {
+  await startAuthServer();
+  const loginUrl = beginAuthorization();
+
+  return {
+    content: [
+      {
+        type: "text",
+        text: manualAuthInstructions(
+          loginUrl,
+          `${toolName} needs permissions that were not granted when profile "${profiles.activeName}" was authorized: ${missing.join(", ")}. Authorize again to grant them.`
+        ),
+      },
+    ],
+    structuredContent: {
+      reauthorizationRequired: true,
+      tool: toolName,
+      profile: profiles.activeName,
+      missingScopes: missing,
+      requestedScopes: AUTH.SCOPES,
+      loginUrl,
+    },
+    isError: true,
+  };
+}
+
+/**
+ * Express app serving the OAuth endpoints, and the MCP endpoint when the
+ * HTTP transport is used
+ */
+const app = express();
+
+// Anyone reaching /login could bind their own Spotify account to the active
+// profile, so over HTTP it takes the same token as the MCP endpoint. The
+// callback cannot carry the token, but only completes authorizations started
+// by /login or a tool call.
+const loginGuards = SERVER.TRANSPORT === "http" && SERVER.MCP_AUTH_TOKEN ? [requireBearerToken(SERVER.MCP_AUTH_TOKEN)] : [];
+
+// Login endpoint redirects to Spotify authorization page
+app.get("/login", ...loginGuards, (req, res) => {
+  res.redirect(beginAuthorization());
+});
+
+// Callback endpoint receives authorization code and exchanges it for tokens
+app.get("/callback", async (req, res) => {
+  const code = typeof req.query.code === "string" ? req.query.code : null;
+  const state = typeof req.query.state === "string" ? req.query.state : "";
+
+  if (!code) {
+    const error = typeof req.query.error === "string" ? req.query.error : "No code provided";
+    pendingAuthorizations.get(state)?.onComplete?.(new AuthenticationError(`Authentication failed: ${error}`));
+    pendingAuthorizations.delete(state);
+    res.send(`Authentication failed: ${error}`);
+    return;
+  }
+
+  try {
+    await completeAuthorization(code, state);
+    res.send("Authentication successful! You can close this window now.");
+  } catch (error: any) {
+    res.send("Authentication failed: " + error.message);
+  }
+});
+
+/**
+ * Starts the HTTP server that handles the Spotify OAuth callback
+ * 
+ * Creates an Express server with login and callback endpoints. The callback
+ * exchanges the authorization code for access and refresh tokens.
+ * 
+ * If the port is already in use (for example by another instance), the server
+ * is not started and the authorization has to be completed by pasting the
+ * redirect URL into complete-spotify-auth. Processes owning the port are never
+ * touched.
+ * 
+ * @returns {Promise<boolean>} True if the callback server is listening, false otherwise
+ */
+async function startAuthServer(): Promise<boolean> {
+  if (authServer) {
+    return true;
+  }
+
+  if (await isPortInUse(PORT)) {
+    console.error(`Port ${PORT} is already in use, the callback cannot be received by this instance`);
+    return false;
+  }
 
+  return new Promise((resolve) => {
     try {
       authServer = app.listen(PORT, () => {
         console.error(`Auth server listening at http://127.0.0.1:${PORT}`);
-        open(`http://127.0.0.1:${PORT}/login`);
+        resolve(true);
       });
 
       // Handle server errors
       authServer.on('error', (error: any) => {
-        if (error.code === 'EADDRINUSE') {
-          console.error(`Port ${PORT} is already in use`);
-          reject(new ServerAlreadyRunningError(PORT));
-        } else {
-          console.error(`Server error: ${error.message}`);
-          reject(error);
-        }
-      });
-
-      // Clean up server when process is about to exit
-      process.on('beforeExit', () => {
-        if (authServer) {
-          console.error('Closing auth server');
-          authServer.close();
-          authServer = null;
-        }
+        console.error(`Auth server error: ${error.message}`);
+        authServer = null;
+        resolve(false);
       });
     } catch (error: any) {
       console.error(`Error starting auth server: ${error.message}`);
-      reject(error);
+      authServer = null;
+      resolve(false);
     }
   });
 }
 
-server.setRequestHandler(ListToolsRequestSchema, async () => {
+/**
+ * Runs the interactive authorization flow for the active profile
+ * 
+ * Opens the browser and waits for the callback. In headless mode, or when the
+ * browser or callback server is unavailable, returns instructions for
+ * completing the flow with complete-spotify-auth instead.
+ * 
+ * @returns {Promise<string | null>} Instructions to show the user, or null once authenticated
+ */
+async function authorizeInteractively(): Promise<string | null> {
+  const listening = await startAuthServer();
+
+  if (AUTH.HEADLESS || !listening) {
+    return manualAuthInstructions(
+      beginAuthorization(),
+      AUTH.HEADLESS
+        ? "Headless mode: no browser will be opened."
+        : `Port ${PORT} is in use by another process, so the callback cannot be received here.`
+    );
+  }
+
+  let settle: (error?: Error) => void = () => {};
+  const completion = new Promise<void>((resolve, reject) => {
+    settle = (error) => (error ? reject(error) : resolve());
+  });
+  // The flow may still complete after we stop waiting for it
+  completion.catch(() => {});
+
+  const authUrl = beginAuthorization((error) => settle(error));
+
+  try {
+    await open(authUrl);
+  } catch (error) {
+    console.error(`Could not open a browser: ${error}`);
+    return manualAuthInstructions(authUrl, "Could not open a browser.");
+  }
+
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<"timeout">((resolve) => {
+    timer = setTimeout(() => resolve("timeout"), AUTH_TIMEOUT_MS);
+  });
+
+  try {
+    if (await Promise.race([completion, timeout]) === "timeout") {
+      return manualAuthInstructions(authUrl, "Timed out waiting for the browser to return to the callback.");
+    }
+    return null;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Lists the available tools
+ */
+async function handleListTools() {
   return {
     tools: [
       {
         name: "auth-spotify",
-        description: "Authenticate with Spotify",
+        description: "Authenticate with Spotify. In headless mode, returns an authorization URL to finish with complete-spotify-auth",
         inputSchema: {
           type: "object",
-          properties: {},
+          properties: {
+            reauthorize: {
+              type: "boolean",
+              description: "Authorize again even when already authenticated, to grant permissions needed by newer tools (default: false)",
+            },
+          },
         },
       },
       {
-        name: "search-spotify",
-        description: "Search for tracks, albums, artists, or playlists on Spotify",
+        name: "complete-spotify-auth",
+        description: "Finish authenticating with Spotify by pasting the URL the browser was redirected to after authorizing (used in headless mode, over SSH or in Docker)",
         inputSchema: {
           type: "object",
           properties: {
-            query: {
-              type: "string",
-              description: "Search query",
-            },
-            type: {
+            redirectUrl: {
               type: "string",
-              enum: ["track", "album", "artist", "playlist"],
-              description: "Type of item to search for (default: track)",
-            },
-            limit: {
-              type: "number",
-              description: "Maximum number of results to return (1-10, default: 5)",
+              description: "The full redirect URL (http://127.0.0.1:8888/callback?code=...&state=...)",
             },
           },
-          required: ["query"],
+          required: ["redirectUrl"],
         },
       },
       {
-        name: "get-current-playback",
-        description: "Get information about the user's current playback state",
+        name: "list-spotify-profiles",
+        description: "List the Spotify account profiles and show which one is active",
         inputSchema: {
           type: "object",
           properties: {},
         },
       },
       {
-        name: "play-track",
-        description: "Play a specific track on an active device",
+        name: "switch-spotify-profile",
+        description: "Switch the active Spotify account profile. A new profile is created if it does not exist; run auth-spotify afterwards to log it in",
         inputSchema: {
           type: "object",
           properties: {
-            trackId: {
+            profile: {
               type: "string",
-              description: "Spotify ID of the track to play",
-            },
-            deviceId: {
-              type: "string",
-              description: "Spotify ID of the device to play on (optional)",
+              description: "Name of the profile (letters, digits, - and _)",
             },
           },
-          required: ["trackId"],
-        },
-      },
-      {
-        name: "pause-playback",
-        description: "Pause the user's playback",
-        inputSchema: {
-          type: "object",
-          properties: {},
+          required: ["profile"],
         },
       },
       {
-        name: "next-track",
-        description: "Skip to the next track",
+        name: "logout-spotify-profile",
+        description: "Log out of a Spotify account profile by deleting its stored tokens",
         inputSchema: {
           type: "object",
-          properties: {},
+          properties: {
+            profile: {
+              type: "string",
+              description: "Name of the profile to log out (default: the active profile)",
+            },
+          },
         },
       },
       {
-        name: "previous-track",
-        description: "Skip to the previous track",
+        name: "get-api-metrics",
+        description: "Show Spotify API request metrics: queued, retried, rate-limited and failed requests",
         inputSchema: {
           type: "object",
           properties: {},
         },
       },
       {
-        name: "get-user-playlists",
-        description: "Get a list of the user's playlists",
+        name: "search-spotify",
+        description: "Search for tracks, albums, artists, or playlists on Spotify",
         inputSchema: {
           type: "object",
           properties: {
-            limit: {
-              type: "number",
-              description: "Maximum number of playlists to return (1-50, default: 20)",
+            query: {
+              type: "string",
+              description: "Search query",
             },
-            offset: {
+            type: {
+              type: "string",
+              enum: ["track", "album", "artist", "playlist"],
+              description: "Type of item to search for (default: track)",
+            },
+            limit: {
               type: "number",
-              description: "The index of the first playlist to return (default: 0)",
+              description: "Maximum number of results to return (1-10, default: 5)",
             },
           },
+          required: ["query"],
         },
       },
       {
-        name: "create-playlist",
-        description: "Create a new playlist for the current user",
+        name: "get-artist",
+        description: "Get an artist's genres, popularity, followers, top tracks, albums and related artists",
         inputSchema: {
           type: "object",
           properties: {
-            name: {
+            artistId: {
               type: "string",
-              description: "Name of the playlist",
+              description: "Spotify ID, URI or link of the artist",
             },
-            description: {
-              type: "string",
-              description: "Description of the playlist (optional)",
+            limit: {
+              type: "number",
+              description: "The number of albums to return (1-50, default: 10)",
             },
-            public: {
+            offset: {
+              type: "number",
+              description: "The index of the first album to return (default: 0)",
+            },
+            fetchAll: {
               type: "boolean",
-              description: "Whether the playlist should be public (default: false)",
+              description: "Follow pagination and return every album starting at offset, up to maxItems; limit is ignored (default: false)",
+            },
+            maxItems: {
+              type: "number",
+              description: "Maximum number of albums to return when fetchAll is set (1-10000, default: 500)",
             },
           },
-          required: ["name"],
+          required: ["artistId"],
         },
       },
       {
-        name: "add-tracks-to-playlist",
-        description: "Add tracks to a playlist",
+        name: "get-album",
+        description: "Get an album with its full tracklist, label and copyrights",
         inputSchema: {
           type: "object",
           properties: {
-            playlistId: {
+            albumId: {
               type: "string",
-              description: "Spotify ID of the playlist",
-            },
-            trackIds: {
-              type: "array",
-              items: {
-                type: "string",
-              },
-              description: "Array of Spotify track IDs to add",
+              description: "Spotify ID, URI or link of the album",
             },
           },
-          required: ["playlistId", "trackIds"],
+          required: ["albumId"],
         },
       },
       {
-        name: "get-playlist-tracks",
-        description: "Get the tracks in a playlist",
+        name: "get-track",
+        description: "Get a track with its popularity, ISRC and available markets",
         inputSchema: {
           type: "object",
           properties: {
-            playlistId: {
+            trackId: {
               type: "string",
-              description: "Spotify ID of the playlist",
-            },
-            limit: {
-              type: "number",
-              description: "Maximum number of tracks to return (1-50, default: 20)",
-            },
-            offset: {
-              type: "number",
-              description: "The index of the first track to return (default: 0)",
+              description: "Spotify ID, URI or link of the track",
             },
           },
-          required: ["playlistId"],
+          required: ["trackId"],
         },
       },
       {
-        name: "delete-playlist",
-        description: "Unfollow a playlist (removes it from your library, but the playlist still exists on Spotify)",
+        name: "get-current-playback",
+        description: "Get information about the user's current playback state",
         inputSchema: {
           type: "object",
-          properties: {
-            playlistId: {
-              type: "string",
-              description: "Spotify ID of the playlist to delete",
-            },
-          },
-          required: ["playlistId"],
+          properties: {},
         },
       },
       {
-        name: "remove-tracks-from-playlist",
-        description: "Remove tracks from a playlist",
+        name: "get-queue",
+        description: "Get the currently playing item and the items queued to play next",
+        inputSchema: {
+          type: "object",
+          properties: {},
+        },
+      },
+      {
+        name: "add-to-queue",
+        description: "Add tracks or episodes to the end of the playback queue, in the given order",
         inputSchema: {
           type: "object",
           properties: {
-            playlistId: {
-              type: "string",
-              description: "Spotify ID of the playlist",
-            },
-            trackIds: {
+            items: {
               type: "array",
               items: {
                 type: "string",
               },
-              description: "Array of Spotify track IDs to remove",
+              description: "Spotify IDs, URIs or links of the tracks or episodes to queue (1-100)",
+            },
+            type: {
+              type: "string",
+              enum: ["track", "episode"],
+              description: "Type of the items given as plain IDs (default: track)",
+            },
+            deviceId: {
+              type: "string",
+              description: "Spotify ID or name of the device, e.g. \"kitchen speaker\" (optional, defaults to the active device)",
             },
           },
-          required: ["playlistId", "trackIds"],
+          required: ["items"],
         },
       },
       {
-        name: "update-playlist",
-        description: "Update a playlist's name, description, public/private status, or collaborative setting",
+        name: "queue-playlist-slice",
+        description: "Add a range of tracks from a playlist to the playback queue, in playlist order",
         inputSchema: {
           type: "object",
           properties: {
             playlistId: {
               type: "string",
-              description: "Spotify ID of the playlist",
+              description: "Spotify ID, URI or link of the playlist",
             },
-            name: {
-              type: "string",
-              description: "New name for the playlist (optional)",
+            start: {
+              type: "number",
+              description: "Position of the first track to queue, starting at 0 (default: 0)",
             },
-            description: {
+            count: {
+              type: "number",
+              description: "Number of tracks to queue (1-100, default: 10)",
+            },
+            deviceId: {
               type: "string",
-              description: "New description for the playlist (optional)",
+              description: "Spotify ID or name of the device, e.g. \"kitchen speaker\" (optional, defaults to the active device)",
             },
-            public: {
-              type: "boolean",
-              description: "Whether the playlist should be public (optional)",
+          },
+          required: ["playlistId"],
+        },
+      },
+      {
+        name: "list-devices",
+        description: "List the devices available for playback, with their IDs",
+        inputSchema: {
+          type: "object",
+          properties: {},
+        },
+      },
+      {
+        name: "transfer-playback",
+        description: "Move playback to another device",
+        inputSchema: {
+          type: "object",
+          properties: {
+            deviceId: {
+              type: "string",
+              description: "Spotify ID or name of the device to transfer to, e.g. \"kitchen speaker\"",
             },
-            collaborative: {
+            play: {
               type: "boolean",
-              description: "Whether the playlist should be collaborative. Must set public to false first (optional)",
+              description: "Start playing on the new device; otherwise keep the current play/pause state (default: false)",
             },
           },
-          required: ["playlistId"],
+          required: ["deviceId"],
         },
       },
       {
-        name: "get-playlist-cover",
-        description: "Get the cover image of a playlist",
+        name: "play-track",
+        description: "Play a track, a list of tracks or episodes, or an album, playlist, artist or show on an active device. Provide exactly one of trackId, uris or contextUri",
         inputSchema: {
           type: "object",
           properties: {
-            playlistId: {
+            trackId: {
+              type: "string",
+              description: "Spotify ID, URI or link of the track to play. Album, playlist, artist and show links are played as a context",
+            },
+            uris: {
+              type: "array",
+              items: {
+                type: "string",
+              },
+              description: "Spotify IDs, URIs or links of tracks or episodes to play in order (1-100)",
+            },
+            contextUri: {
+              type: "string",
+              description: "Spotify URI or link of an album, playlist, artist or show to play",
+            },
+            offset: {
+              type: ["number", "string"],
+              description: "Where to start in the context or list: a position starting at 0, or the URI or link of a track in it. Not supported for artists",
+            },
+            positionMs: {
+              type: "number",
+              description: "Position in the first track to start from, in milliseconds (optional)",
+            },
+            deviceId: {
               type: "string",
-              description: "Spotify ID of the playlist",
+              description: "Spotify ID or name of the device to play on, e.g. \"kitchen speaker\" (optional)",
             },
           },
-          required: ["playlistId"],
         },
       },
       {
-        name: "get-recently-played",
-        description: "Get the user's recently played tracks",
+        name: "resume-playback",
+        description: "Resume playback where it was paused",
         inputSchema: {
           type: "object",
           properties: {
-            limit: {
-              type: "number",
-              description: "Maximum number of tracks to return (1-50, default: 20)",
+            deviceId: {
+              type: "string",
+              description: "Spotify ID or name of the device, e.g. \"kitchen speaker\" (optional, defaults to the active device)",
             },
-            before: {
+          },
+        },
+      },
+      {
+        name: "pause-playback",
+        description: "Pause the user's playback",
+        inputSchema: {
+          type: "object",
+          properties: {},
+        },
+      },
+      {
+        name: "next-track",
+        description: "Skip to the next track",
+        inputSchema: {
+          type: "object",
+          properties: {},
+        },
+      },
+      {
+        name: "previous-track",
+        description: "Skip to the previous track",
+        inputSchema: {
+          type: "object",
+          properties: {},
+        },
+      },
+      {
+        name: "set-volume",
+        description: "Set the playback volume",
+        inputSchema: {
+          type: "object",
+          properties: {
+            volumePercent: {
               type: "number",
-              description: "Unix timestamp in ms. Returns tracks played before this time (optional)",
+              description: "Volume to set (0-100)",
             },
-            after: {
-              type: "number",
-              description: "Unix timestamp in ms. Returns tracks played after this time (optional)",
+            deviceId: {
+              type: "string",
+              description: "Spotify ID or name of the device, e.g. \"kitchen speaker\" (optional, defaults to the active device)",
             },
           },
+          required: ["volumePercent"],
         },
       },
       {
-        name: "upload-playlist-cover",
-        description: "Upload a custom cover image for a playlist (base64 encoded JPEG, max 256KB)",
+        name: "seek-to-position",
+        description: "Seek to a position in the current track",
         inputSchema: {
           type: "object",
           properties: {
-            playlistId: {
+            position: {
+              type: ["string", "number"],
+              description: "Position to seek to, e.g. \"1:30\", \"90s\" or \"2m15s\"; a plain number is taken as seconds",
+            },
+            deviceId: {
               type: "string",
-              description: "Spotify ID of the playlist",
+              description: "Spotify ID or name of the device, e.g. \"kitchen speaker\" (optional, defaults to the active device)",
             },
-            imageBase64: {
+          },
+          required: ["position"],
+        },
+      },
+      {
+        name: "set-shuffle",
+        description: "Turn shuffle on or off",
+        inputSchema: {
+          type: "object",
+          properties: {
+            state: {
+              type: "boolean",
+              description: "True to shuffle, false to play in order",
+            },
+            deviceId: {
               type: "string",
-              description: "Base64 encoded JPEG image (max 256KB)",
+              description: "Spotify ID or name of the device, e.g. \"kitchen speaker\" (optional, defaults to the active device)",
             },
           },
-          required: ["playlistId", "imageBase64"],
+          required: ["state"],
         },
       },
       {
-        name: "reorder-playlist-tracks",
-        description: "Reorder tracks in a playlist by moving a range of tracks to a new position",
+        name: "set-repeat-mode",
+        description: "Set the repeat mode",
         inputSchema: {
           type: "object",
           properties: {
-            playlistId: {
+            mode: {
               type: "string",
-              description: "Spotify ID of the playlist",
+              enum: ["off", "track", "context"],
+              description: "off, track (repeat the current track) or context (repeat the album or playlist)",
             },
-            rangeStart: {
+            deviceId: {
+              type: "string",
+              description: "Spotify ID or name of the device, e.g. \"kitchen speaker\" (optional, defaults to the active device)",
+            },
+          },
+          required: ["mode"],
+        },
+      },
+      {
+        name: "get-user-playlists",
+        description: "Get a list of the user's playlists",
+        inputSchema: {
+          type: "object",
+          properties: {
+            limit: {
               type: "number",
-              description: "Position of the first track to move (0-based index)",
+              description: "Maximum number of playlists to return (1-50, default: 20)",
             },
-            insertBefore: {
+            offset: {
               type: "number",
-              description: "Position where the tracks should be inserted (0-based index)",
+              description: "The index of the first playlist to return (default: 0)",
             },
-            rangeLength: {
+            fetchAll: {
+              type: "boolean",
+              description: "Follow pagination and return every playlist starting at offset, up to maxItems; limit is ignored (default: false)",
+            },
+            maxItems: {
               type: "number",
-              description: "Number of tracks to move (default: 1)",
+              description: "Maximum number of playlists to return when fetchAll is set (1-10000, default: 500)",
             },
           },
-          required: ["playlistId", "rangeStart", "insertBefore"],
         },
       },
       {
-        name: "get-recommendations",
-        description: "Get track recommendations based on seeds",
+        name: "create-playlist",
+        description: "Create a new playlist for the current user",
         inputSchema: {
           type: "object",
           properties: {
-            seedTracks: {
-              type: "array",
-              items: {
-                type: "string",
-              },
-              description: "Array of Spotify track IDs to use as seeds (optional)",
+            name: {
+              type: "string",
+              description: "Name of the playlist",
             },
-            seedArtists: {
-              type: "array",
-              items: {
-                type: "string",
-              },
-              description: "Array of Spotify artist IDs to use as seeds (optional)",
+            description: {
+              type: "string",
+              description: "Description of the playlist (optional)",
             },
-            seedGenres: {
+            public: {
+              type: "boolean",
+              description: "Whether the playlist should be public (default: false)",
+            },
+          },
+          required: ["name"],
+        },
+      },
+      {
+        name: "add-tracks-to-playlist",
+        description: "Add tracks to a playlist",
+        inputSchema: {
+          type: "object",
+          properties: {
+            playlistId: {
+              type: "string",
+              description: "Spotify ID, URI or link of the playlist",
+            },
+            trackIds: {
               type: "array",
               items: {
                 type: "string",
               },
-              description: "Array of genre names to use as seeds (optional)",
-            },
-            limit: {
-              type: "number",
-              description: "Maximum number of tracks to return (1-100, default: 20)",
+              description: "Array of Spotify track IDs, URIs or links to add",
             },
           },
+          required: ["playlistId", "trackIds"],
         },
       },
       {
-        name: "get-top-tracks",
-        description: "Get the user's top played tracks over a specified time range",
+        name: "get-playlist-tracks",
+        description: "Get the tracks in a playlist",
         inputSchema: {
           type: "object",
           properties: {
+            playlistId: {
+              type: "string",
+              description: "Spotify ID, URI or link of the playlist",
+            },
             limit: {
               type: "number",
-              description: "The number of tracks to return (1-50, default: 20)",
+              description: "Maximum number of tracks to return (1-50, default: 20)",
             },
             offset: {
               type: "number",
               description: "The index of the first track to return (default: 0)",
             },
-            time_range: {
+            fetchAll: {
+              type: "boolean",
+              description: "Follow pagination and return every track starting at offset, up to maxItems; limit is ignored (default: false)",
+            },
+            maxItems: {
+              type: "number",
+              description: "Maximum number of tracks to return when fetchAll is set (1-10000, default: 500)",
+            },
+          },
+          required: ["playlistId"],
+        },
+      },
+      {
+        name: "export-playlist",
+        description: "Export every track of a playlist with its artists, album, duration, ISRC and when and by whom it was added, as CSV, JSON, M3U8 or XSPF",
+        inputSchema: {
+          type: "object",
+          properties: {
+            playlistId: {
               type: "string",
-              enum: ["short_term", "medium_term", "long_term"],
-              description: "Over what time frame the affinities are computed. short_term = ~4 weeks, medium_term = ~6 months, long_term = several years (default: medium_term)",
-            }
-          }
-        }
+              description: "Spotify ID, URI or link of the playlist",
+            },
+            format: {
+              type: "string",
+              enum: [...EXPORT_FORMATS],
+              description: "Export format (default: csv)",
+            },
+            outputPath: {
+              type: "string",
+              description: "File to write the export to, relative to ~/.spotify-mcp/exports. Without it, the export is returned as text",
+            },
+          },
+          required: ["playlistId"],
+        },
       },
-    ],
-  };
-});
-
-server.setRequestHandler(
-  CallToolRequestSchema,
-  async (request: CallToolRequest) => {
-    const { name, arguments: args } = request.params;
-
-    try {
-      if (name === "auth-spotify") {
-        try {
-          console.error(`Checking current authentication status...`);
-          try {
-            if (accessToken) {
-              console.error(`We have an access token in memory, testing it...`);
-              try {
-                const testResponse = await axios({
-                  method: 'GET',
-                  url: `${SPOTIFY_API_BASE}/me`,
-                  headers: {
-                    Authorization: `Bearer ${accessToken}`,
-                    "Content-Type": "application/json",
-                  },
-                });
-
-                console.error(`Current token is valid! Already authenticated as: ${testResponse.data.display_name}`);
-                return {
-                  content: [
-                    {
-                      type: "text",
-                      text: `Already authenticated with Spotify as ${testResponse.data.display_name}!`,
-                    },
-                  ],
-                };
-              } catch (testError) {
-                console.error(`Current token is invalid, proceeding with authentication flow`);
-              }
-            } else {
-              console.error(`No access token in memory, checking token file...`);
-
-              try {
-                if (fs.existsSync(TOKEN_PATH)) {
-                  console.error(`Token file exists, attempting to load...`);
-                  const fileContent = fs.readFileSync(TOKEN_PATH, 'utf8');
-
-                  if (fileContent && fileContent.trim() !== '') {
-                    console.error(`Found token file with content, parsing...`);
-                    const tokenData = JSON.parse(fileContent);
-                    accessToken = tokenData.accessToken;
-                    refreshToken = tokenData.refreshToken;
-                    tokenExpirationTime = tokenData.tokenExpirationTime;
-
-                    try {
-                      console.error(`Testing loaded token...`);
-                      const testResponse = await axios({
-                        method: 'GET',
-                        url: `${SPOTIFY_API_BASE}/me`,
-                        headers: {
-                          Authorization: `Bearer ${accessToken}`,
-                          "Content-Type": "application/json",
-                        },
-                      });
-
-                      console.error(`Loaded token is valid! Authenticated as: ${testResponse.data.display_name}`);
-                      return {
-                        content: [
-                          {
-                            type: "text",
-                            text: `Already authenticated with Spotify as ${testResponse.data.display_name}!`,
-                          },
-                        ],
-                      };
-                    } catch (loadedTokenError) {
-                      console.error(`Loaded token is invalid, continuing with auth flow...`);
-                    }
-                  }
-                }
-              } catch (fileError) {
-                console.error(`Error handling token file: ${fileError}`);
-              }
+      {
+        name: "import-playlist",
+        description: "Import a tracklist (CSV, M3U or \"Artist - Title\" lines) into a new or existing playlist. Each line is matched by ISRC when present, otherwise by searching and scoring candidates by title, artist and duration. Unmatched and low-confidence lines are reported for review",
+        inputSchema: {
+          type: "object",
+          properties: {
+            tracklist: {
+              type: "string",
+              description: "The tracklist as text. Pass either this or filePath",
+            },
+            filePath: {
+              type: "string",
+              description: "Path of a tracklist file, relative to ~/.spotify-mcp/imports. Pass either this or tracklist",
+            },
+            format: {
+              type: "string",
+              enum: [...TRACKLIST_FORMATS],
+              description: "Format of the tracklist (default: auto, detected from its content)",
+            },
+            playlistId: {
+              type: "string",
+              description: "Spotify ID, URI or link of an existing playlist to add the tracks to",
+            },
+            name: {
+              type: "string",
+              description: "Name of a new playlist to create for the tracks",
+            },
+            description: {
+              type: "string",
+              description: "Description of the new playlist",
+            },
+            public: {
+              type: "boolean",
+              description: "Whether the new playlist is public (default: false)",
+            },
+            minConfidence: {
+              type: "number",
+              description: `Lowest match score, from 0 to 1, for a track to be added (default: ${DEFAULT_MIN_CONFIDENCE})`,
+            },
+            dryRun: {
+              type: "boolean",
+              description: "Only report the matches, without creating or changing a playlist (default: false)",
+            },
+          },
+        },
+      },
+      {
+        name: "delete-playlist",
+        description: "Unfollow a playlist (removes it from your library, but the playlist still exists on Spotify)",
+        inputSchema: {
+          type: "object",
+          properties: {
+            playlistId: {
+              type: "string",
+              description: "Spotify ID, URI or link of the playlist to delete",
+            },
+          },
+          required: ["playlistId"],
+        },
+      },
+      {
+        name: "remove-tracks-from-playlist",
+        description: "Remove every occurrence of the given tracks from a playlist. Use dedupe-playlist to remove only duplicates",
+        inputSchema: {
+          type: "object",
+          properties: {
+            playlistId: {
+              type: "string",
+              description: "Spotify ID, URI or link of the playlist",
+            },
+            trackIds: {
+              type: "array",
+              items: {
+                type: "string",
+              },
+              description: "Array of Spotify track IDs, URIs or links to remove",
+            },
+          },
+          required: ["playlistId", "trackIds"],
+        },
+      },
+      {
+        name: "update-playlist",
+        description: "Update a playlist's name, description, public/private status, or collaborative setting",
+        inputSchema: {
+          type: "object",
+          properties: {
+            playlistId: {
+              type: "string",
+              description: "Spotify ID, URI or link of the playlist",
+            },
+            name: {
+              type: "string",
+              description: "New name for the playlist (optional)",
+            },
+            description: {
+              type: "string",
+              description: "New description for the playlist (optional)",
+            },
+            public: {
+              type: "boolean",
+              description: "Whether the playlist should be public (optional)",
+            },
+            collaborative: {
+              type: "boolean",
+              description: "Whether the playlist should be collaborative. Must set public to false first (optional)",
+            },
+          },
+          required: ["playlistId"],
+        },
+      },
+      {
+        name: "get-playlist-cover",
+        description: "Get the cover image of a playlist",
+        inputSchema: {
+          type: "object",
+          properties: {
+            playlistId: {
+              type: "string",
+              description: "Spotify ID, URI or link of the playlist",
+            },
+          },
+          required: ["playlistId"],
+        },
+      },
+      {
+        name: "get-recently-played",
+        description: "Get the user's recently played tracks",
+        inputSchema: {
+          type: "object",
+          properties: {
+            limit: {
+              type: "number",
+              description: "Maximum number of tracks to return (1-50, default: 20)",
+            },
+            before: {
+              type: "number",
+              description: "Unix timestamp in ms. Returns tracks played before this time (optional)",
+            },
+            after: {
+              type: "number",
+              description: "Unix timestamp in ms. Returns tracks played after this time (optional)",
+            },
+          },
+        },
+      },
+      {
+        name: "upload-playlist-cover",
+        description: "Upload a custom cover image for a playlist (base64 encoded JPEG, max 256KB)",
+        inputSchema: {
+          type: "object",
+          properties: {
+            playlistId: {
+              type: "string",
+              description: "Spotify ID, URI or link of the playlist",
+            },
+            imageBase64: {
+              type: "string",
+              description: "Base64 encoded JPEG image (max 256KB)",
+            },
+          },
+          required: ["playlistId", "imageBase64"],
+        },
+      },
+      {
+        name: "reorder-playlist-tracks",
+        description: "Reorder tracks in a playlist by moving a range of tracks to a new position",
+        inputSchema: {
+          type: "object",
+          properties: {
+            playlistId: {
+              type: "string",
+              description: "Spotify ID, URI or link of the playlist",
+            },
+            rangeStart: {
+              type: "number",
+              description: "Position of the first track to move (0-based index)",
+            },
+            insertBefore: {
+              type: "number",
+              description: "Position where the tracks should be inserted (0-based index)",
+            },
+            rangeLength: {
+              type: "number",
+              description: "Number of tracks to move (default: 1)",
+            },
+          },
+          required: ["playlistId", "rangeStart", "insertBefore"],
+        },
+      },
+      {
+        name: "find-playlist-duplicates",
+        description: "Find tracks listed more than once in a playlist, by track ID or, in fuzzy mode, also by ISRC or by title, artists and duration",
+        inputSchema: {
+          type: "object",
+          properties: {
+            playlistId: {
+              type: "string",
+              description: "Spotify ID, URI or link of the playlist",
+            },
+            mode: {
+              type: "string",
+              enum: [...DUPLICATE_MODES],
+              description: "exact matches the same track ID; fuzzy also matches the same song under another ID, such as a single and an album version (default: exact)",
+            },
+          },
+          required: ["playlistId"],
+        },
+      },
+      {
+        name: "dedupe-playlist",
+        description: "Remove duplicate tracks from a playlist, keeping the first occurrence of each. Only the extra occurrences are removed, by position. A snapshot is saved first",
+        inputSchema: {
+          type: "object",
+          properties: {
+            playlistId: {
+              type: "string",
+              description: "Spotify ID, URI or link of the playlist",
+            },
+            mode: {
+              type: "string",
+              enum: [...DUPLICATE_MODES],
+              description: "exact matches the same track ID; fuzzy also matches the same song under another ID (default: exact)",
+            },
+            dryRun: {
+              type: "boolean",
+              description: "Only list what would be removed (default: false)",
+            },
+          },
+          required: ["playlistId"],
+        },
+      },
+      {
+        name: "list-playlist-snapshots",
+        description: "List the snapshots saved before a tool changed or deleted a playlist, newest first",
+        inputSchema: {
+          type: "object",
+          properties: {
+            playlistId: {
+              type: "string",
+              description: "Spotify ID, URI or link of the playlist. Without it, snapshots of all playlists are listed",
+            },
+          },
+        },
+      },
+      {
+        name: "diff-playlist-snapshots",
+        description: "Show what changed in a playlist between two snapshots, or between a snapshot and the playlist as it is now",
+        inputSchema: {
+          type: "object",
+          properties: {
+            playlistId: {
+              type: "string",
+              description: "Spotify ID, URI or link of the playlist",
+            },
+            from: {
+              type: "string",
+              description: "Snapshot ID to compare from, or \"latest\" for the latest one taken before a change other than a restore (default: latest)",
+            },
+            to: {
+              type: "string",
+              description: "Snapshot ID to compare to, or \"current\" for the playlist as it is now (default: current)",
+            },
+          },
+          required: ["playlistId"],
+        },
+      },
+      {
+        name: "restore-playlist-snapshot",
+        description: "Restore a playlist's name, description, visibility and tracks from a snapshot, following it again if it was deleted. The current state is saved as a snapshot first",
+        inputSchema: {
+          type: "object",
+          properties: {
+            playlistId: {
+              type: "string",
+              description: "Spotify ID, URI or link of the playlist",
+            },
+            snapshotId: {
+              type: "string",
+              description: "Snapshot ID to restore, or \"latest\" for the latest one taken before a change other than a restore (default: latest)",
+            },
+          },
+          required: ["playlistId"],
+        },
+      },
+      {
+        name: "get-recommendations",
+        description: "Get track recommendations based on seeds",
+        inputSchema: {
+          type: "object",
+          properties: {
+            seedTracks: {
+              type: "array",
+              items: {
+                type: "string",
+              },
+              description: "Array of Spotify track IDs, URIs or links to use as seeds (optional)",
+            },
+            seedArtists: {
+              type: "array",
+              items: {
+                type: "string",
+              },
+              description: "Array of Spotify artist IDs, URIs or links to use as seeds (optional)",
+            },
+            seedGenres: {
+              type: "array",
+              items: {
+                type: "string",
+              },
+              description: "Array of genre names to use as seeds (optional)",
+            },
+            limit: {
+              type: "number",
+              description: "Maximum number of tracks to return (1-100, default: 20)",
+            },
+          },
+        },
+      },
+      {
+        name: "get-top-tracks",
+        description: "Get the user's top played tracks over a specified time range",
+        inputSchema: {
+          type: "object",
+          properties: {
+            limit: {
+              type: "number",
+              description: "The number of tracks to return (1-50, default: 20)",
+            },
+            offset: {
+              type: "number",
+              description: "The index of the first track to return (default: 0)",
+            },
+            time_range: {
+              type: "string",
+              enum: ["short_term", "medium_term", "long_term"],
+              description: "Over what time frame the affinities are computed. short_term = ~4 weeks, medium_term = ~6 months, long_term = several years (default: medium_term)",
+            },
+            fetchAll: {
+              type: "boolean",
+              description: "Follow pagination and return every track starting at offset, up to maxItems; limit is ignored (default: false)",
+            },
+            maxItems: {
+              type: "number",
+              description: "Maximum number of tracks to return when fetchAll is set (1-10000, default: 500)",
             }
-          } catch (testError) {
-            console.error(`Error testing current authentication: ${testError}`);
           }
+        }
+      },
+      {
+        name: "get-top-artists",
+        description: "Get the user's top artists over a specified time range",
+        inputSchema: {
+          type: "object",
+          properties: {
+            limit: {
+              type: "number",
+              description: "The number of artists to return (1-50, default: 20)",
+            },
+            offset: {
+              type: "number",
+              description: "The index of the first artist to return (default: 0)",
+            },
+            time_range: {
+              type: "string",
+              enum: ["short_term", "medium_term", "long_term"],
+              description: "Over what time frame the affinities are computed. short_term = ~4 weeks, medium_term = ~6 months, long_term = several years (default: medium_term)",
+            },
+            fetchAll: {
+              type: "boolean",
+              description: "Follow pagination and return every artist starting at offset, up to maxItems; limit is ignored (default: false)",
+            },
+            maxItems: {
+              type: "number",
+              description: "Maximum number of artists to return when fetchAll is set (1-10000, default: 500)",
+            },
+          },
+        },
+      },
+      {
+        name: "listening-summary",
+        description: "Summarize the user's listening: genre, artist and decade breakdowns of top tracks and artists for each time range and of recent plays, and how short-term taste differs from the long term",
+        inputSchema: {
+          type: "object",
+          properties: {
+            limit: {
+              type: "number",
+              description: "Number of top tracks and top artists to analyze per time range (1-50, default: 50)",
+            },
+            top: {
+              type: "number",
+              description: "Number of entries to show in each breakdown (1-20, default: 5)",
+            },
+          },
+        },
+      },
+      {
+        name: "query-listening-history",
+        description: "Query the local listening history, which goes back further than the last 50 plays: filter by date range, artist or track, and list plays or count them per artist, track or day",
+        inputSchema: {
+          type: "object",
+          properties: {
+            from: {
+              type: "string",
+              description: "Start of the range: a date (2026-10-12), a timestamp, or a duration before now such as \"7d\" or \"12h\" (optional)",
+            },
+            to: {
+              type: "string",
+              description: "End of the range; a date includes the whole day (optional, defaults to now)",
+            },
+            artist: {
+              type: "string",
+              description: "Only plays by artists whose name contains this text (optional)",
+            },
+            track: {
+              type: "string",
+              description: "Only plays of tracks whose name contains this text (optional)",
+            },
+            groupBy: {
+              type: "string",
+              enum: ["none", "artist", "track", "day"],
+              description: "Count plays per artist, track or day instead of listing them (default: none)",
+            },
+            limit: {
+              type: "number",
+              description: "Maximum number of plays or groups to show (1-500, default: 50)",
+            },
+            sync: {
+              type: "boolean",
+              description: "Fetch the latest plays from Spotify into the history first (default: true)",
+            },
+          },
+        },
+      },
+      {
+        name: "import-streaming-history",
+        description: "Import a Spotify streaming history export (the JSON files from the privacy data download) into the local listening history",
+        inputSchema: {
+          type: "object",
+          properties: {
+            paths: {
+              type: "array",
+              items: {
+                type: "string",
+              },
+              description: "Paths of export files, or of directories containing Streaming_History*.json or StreamingHistory*.json files, relative to ~/.spotify-mcp/imports on the machine running the server",
+            },
+            minSecondsPlayed: {
+              type: "number",
+              description: "Skip plays shorter than this many seconds (default: 30, Spotify's threshold for a stream)",
+            },
+          },
+          required: ["paths"],
+        },
+      },
+      {
+        name: "get-saved-tracks",
+        description: "Get the tracks saved in the user's library (Liked Songs), most recently saved first",
+        inputSchema: {
+          type: "object",
+          properties: {
+            limit: {
+              type: "number",
+              description: "The number of tracks to return (1-50, default: 20)",
+            },
+            offset: {
+              type: "number",
+              description: "The index of the first track to return (default: 0)",
+            },
+            fetchAll: {
+              type: "boolean",
+              description: "Follow pagination and return every track starting at offset, up to maxItems; limit is ignored (default: false)",
+            },
+            maxItems: {
+              type: "number",
+              description: "Maximum number of tracks to return when fetchAll is set (1-10000, default: 500)",
+            },
+          },
+        },
+      },
+      {
+        name: "save-tracks",
+        description: "Save tracks to the user's library (Liked Songs)",
+        inputSchema: {
+          type: "object",
+          properties: {
+            trackIds: {
+              type: "array",
+              items: {
+                type: "string",
+              },
+              description: "Spotify track IDs, URIs or links to save (1-500)",
+            },
+          },
+          required: ["trackIds"],
+        },
+      },
+      {
+        name: "remove-saved-tracks",
+        description: "Remove tracks from the user's library (Liked Songs)",
+        inputSchema: {
+          type: "object",
+          properties: {
+            trackIds: {
+              type: "array",
+              items: {
+                type: "string",
+              },
+              description: "Spotify track IDs, URIs or links to remove (1-500)",
+            },
+          },
+          required: ["trackIds"],
+        },
+      },
+      {
+        name: "check-saved-tracks",
+        description: "Check whether tracks are saved in the user's library (Liked Songs)",
+        inputSchema: {
+          type: "object",
+          properties: {
+            trackIds: {
+              type: "array",
+              items: {
+                type: "string",
+              },
+              description: "Spotify track IDs, URIs or links to check (1-500)",
+            },
+          },
+          required: ["trackIds"],
+        },
+      },
+      {
+        name: "get-saved-albums",
+        description: "Get the albums saved in the user's library, most recently saved first",
+        inputSchema: {
+          type: "object",
+          properties: {
+            limit: {
+              type: "number",
+              description: "The number of albums to return (1-50, default: 20)",
+            },
+            offset: {
+              type: "number",
+              description: "The index of the first album to return (default: 0)",
+            },
+            fetchAll: {
+              type: "boolean",
+              description: "Follow pagination and return every album starting at offset, up to maxItems; limit is ignored (default: false)",
+            },
+            maxItems: {
+              type: "number",
+              description: "Maximum number of albums to return when fetchAll is set (1-10000, default: 500)",
+            },
+          },
+        },
+      },
+      {
+        name: "save-albums",
+        description: "Save albums to the user's library",
+        inputSchema: {
+          type: "object",
+          properties: {
+            albumIds: {
+              type: "array",
+              items: {
+                type: "string",
+              },
+              description: "Spotify album IDs, URIs or links to save (1-200)",
+            },
+          },
+          required: ["albumIds"],
+        },
+      },
+      {
+        name: "get-followed-artists",
+        description: "Get the artists the user follows, in alphabetical order",
+        inputSchema: {
+          type: "object",
+          properties: {
+            limit: {
+              type: "number",
+              description: "The number of artists to return (1-50, default: 20)",
+            },
+            after: {
+              type: "string",
+              description: "Return the artists after this one, given as the cursor from a previous call or an artist ID (optional)",
+            },
+            fetchAll: {
+              type: "boolean",
+              description: "Follow pagination and return every followed artist, up to maxItems; limit is ignored (default: false)",
+            },
+            maxItems: {
+              type: "number",
+              description: "Maximum number of artists to return when fetchAll is set (1-10000, default: 500)",
+            },
+          },
+        },
+      },
+    ],
+  };
+}
 
-          console.error('Starting authentication process...');
-          await startAuthServer();
+/**
+ * Runs a tool call
+ */
+async function handleCallTool(request: CallToolRequest) {
+  const { name, arguments: args } = request.params;
 
-          if (!accessToken || !refreshToken) {
-            throw new Error("Authentication failed: No tokens received");
-          }
+  const missing = missingScopes(name, profiles.activeStore().getGrantedScopes());
+  if (missing.length > 0) {
+    return reauthorizationResult(name, missing);
+  }
 
-          console.error(`Authentication successful, received tokens`);
+  try {
+    if (name === "auth-spotify") {
+      const { reauthorize } = await AuthSchema.parseAsync(args ?? {});
 
-          try {
-            console.error(`Testing new tokens...`);
-            const testResponse = await axios({
-              method: 'GET',
-              url: `${SPOTIFY_API_BASE}/me`,
-              headers: {
-                Authorization: `Bearer ${accessToken}`,
-                "Content-Type": "application/json",
+      try {
+        console.error(`Checking current authentication status...`);
+        const currentUser = reauthorize ? null : await getAuthenticatedUserName();
+        if (currentUser) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Already authenticated with Spotify as ${currentUser} (profile: ${profiles.activeName})!`,
               },
-            });
-
-            console.error(`New tokens are valid! Authenticated as: ${testResponse.data.display_name}`);
-            return {
-              content: [
-                {
-                  type: "text",
-                  text: `Successfully authenticated with Spotify as ${testResponse.data.display_name}!`,
-                },
-              ],
-            };
-          } catch (newTokenError) {
-            console.error(`New tokens failed verification: ${newTokenError}`);
-            throw new Error("Authentication succeeded but tokens are invalid");
-          }
-
-        } catch (error: any) {
-          if (error instanceof ServerAlreadyRunningError) {
-            console.error(`Server already running error: ${error.message}`);
-
-            try {
-              if (accessToken) {
-                const testResponse = await axios({
-                  method: 'GET',
-                  url: `${SPOTIFY_API_BASE}/me`,
-                  headers: {
-                    Authorization: `Bearer ${accessToken}`,
-                    "Content-Type": "application/json",
-                  },
-                });
-
-                return {
-                  content: [
-                    {
-                      type: "text",
-                      text: `Successfully authenticated with Spotify as ${testResponse.data.display_name}!`,
-                    },
-                  ],
-                };
-              }
-            } catch (testError) {
-            }
+            ],
+          };
+        }
 
-            return {
-              content: [
-                {
-                  type: "text",
-                  text: `Another instance is already running on port ${error.port}. If you're having authentication issues, please restart Claude or close any other applications using port ${error.port}.`,
-                },
-              ],
-            };
-          }
+        console.error('Starting authentication process...');
+        const instructions = await authorizeInteractively();
 
-          console.error(`Authentication error: ${error.message}`);
+        if (instructions) {
           return {
             content: [
               {
                 type: "text",
-                text: `Authentication failed: ${error.message}`,
+                text: instructions,
               },
             ],
           };
         }
+
+        console.error(`Authentication successful, received tokens`);
+
+        const newUser = await getAuthenticatedUserName();
+        if (!newUser) {
+          throw new Error("Authentication succeeded but tokens are invalid");
+        }
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Successfully authenticated with Spotify as ${newUser} (profile: ${profiles.activeName})!`,
+            },
+          ],
+        };
+      } catch (error: any) {
+        console.error(`Authentication error: ${error.message}`);
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Authentication failed: ${error.message}`,
+            },
+          ],
+        };
       }
+    }
 
-      if (name === "search-spotify") {
-        const { query, type, limit } = SearchSchema.parse(args);
+    if (name === "complete-spotify-auth") {
+      const { redirectUrl } = await CompleteAuthSchema.parseAsync(args);
+      const { code, state, error } = parseAuthorizationResponse(redirectUrl);
 
-        const results = await spotifyApiRequest(
-          `/search?${querystring.stringify({
-            q: query,
-            type,
-            limit,
-          })}`
-        );
+      if (error || !code) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Authentication failed: ${error || "No code found in the provided URL"}`,
+            },
+          ],
+        };
+      }
+
+      try {
+        const profile = await completeAuthorization(code, state);
+        const user = await getAuthenticatedUserName();
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: user
+                ? `Successfully authenticated with Spotify as ${user} (profile: ${profile})!`
+                : `Tokens were stored for profile ${profile}, but could not be verified.`,
+            },
+          ],
+        };
+      } catch (error: any) {
+        console.error(`Authentication error: ${error.message}`);
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Authentication failed: ${error.message}`,
+            },
+          ],
+        };
+      }
+    }
+
+    if (name === "list-spotify-profiles") {
+      const formatted = profiles.list()
+        .map((profile) => `${profile.active ? "* " : "  "}${profile.name} (${profile.authenticated ? "authenticated" : "not authenticated"})`)
+        .join("\n");
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Spotify profiles (* = active):\n${formatted}`,
+          },
+        ],
+      };
+    }
+
+    if (name === "switch-spotify-profile") {
+      const { profile } = await SwitchProfileSchema.parseAsync(args);
+
+      const store = profiles.switch(profile);
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: store.hasTokens()
+              ? `Switched to profile "${profile}".`
+              : `Switched to profile "${profile}". This profile is not authenticated yet, use auth-spotify to log in.`,
+          },
+        ],
+      };
+    }
+
+    if (name === "logout-spotify-profile") {
+      const { profile = profiles.activeName } = await LogoutProfileSchema.parseAsync(args);
+
+      profiles.logout(profile);
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Logged out of profile "${profile}".`,
+          },
+        ],
+      };
+    }
+
+    if (name === "get-api-metrics") {
+      const metrics = scheduler.getMetrics();
 
-        let formattedResults = "";
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Spotify API request metrics:
+Queued (total): ${metrics.queued}
+Waiting: ${metrics.waiting}
+In flight: ${metrics.active}
+Succeeded: ${metrics.succeeded}
+Retried: ${metrics.retried}
+Rate limited (429): ${metrics.rateLimited}
+Failed: ${metrics.failed}`,
+          },
+        ],
+      };
+    }
+
+    if (name === "search-spotify") {
+      const { query, type, limit } = await SearchSchema.parseAsync(args);
 
-        if (type === "track" && results.tracks) {
-          formattedResults = results.tracks.items
-            .map(
-              (track: any) => `
+      const results = await spotify.search(query, type, limit);
+
+      let formattedResults = "";
+
+      if (type === "track" && results.tracks) {
+        formattedResults = results.tracks.items
+          .map(
+            (track: SpotifyTrack) => `
 Track: ${track.name}
-Artist: ${track.artists.map((a: any) => a.name).join(", ")}
+Artist: ${track.artists.map((a: SpotifyArtist) => a.name).join(", ")}
 Album: ${track.album.name}
 ID: ${track.id}
 Duration: ${Math.floor(track.duration_ms / 1000 / 60)}:${(
-                  Math.floor(track.duration_ms / 1000) % 60
-                )
-                  .toString()
-                  .padStart(2, "0")}
+                Math.floor(track.duration_ms / 1000) % 60
+              )
+                .toString()
+                .padStart(2, "0")}
 URL: ${track.external_urls.spotify}
 ---`
-            )
-            .join("\n");
-        } else if (type === "album" && results.albums) {
-          formattedResults = results.albums.items
-            .map(
-              (album: any) => `
+          )
+          .join("\n");
+      } else if (type === "album" && results.albums) {
+        formattedResults = results.albums.items
+          .map(
+            (album) => `
 Album: ${album.name}
-Artist: ${album.artists.map((a: any) => a.name).join(", ")}
+Artist: ${album.artists.map((a: SpotifyArtist) => a.name).join(", ")}
 ID: ${album.id}
 Release Date: ${album.release_date}
 Tracks: ${album.total_tracks}
 URL: ${album.external_urls.spotify}
 ---`
-            )
-            .join("\n");
-        } else if (type === "artist" && results.artists) {
-          formattedResults = results.artists.items
-            .map(
-              (artist: any) => `
+          )
+          .join("\n");
+      } else if (type === "artist" && results.artists) {
+        formattedResults = results.artists.items
+          .map(
+            (artist) => `
 Artist: ${artist.name}
 ID: ${artist.id}
 Genres: ${artist.genres?.join(", ") || "None"}
 URL: ${artist.external_urls.spotify}
 ---`
-            )
-            .join("\n");
-        } else if (type === "playlist" && results.playlists) {
-          formattedResults = results.playlists.items
-            .map(
-              (playlist: SpotifyPlaylist) => `
+          )
+          .join("\n");
+      } else if (type === "playlist" && results.playlists) {
+        formattedResults = results.playlists.items
+          .map(
+            (playlist: SpotifyPlaylist) => `
 Playlist: ${playlist.name}
 Creator: ${playlist.owner.display_name || playlist.owner.id || "Unknown"}
 ID: ${playlist.id}
@@ -1284,170 +2514,529 @@ Tracks: ${getPlaylistItemTotal(playlist)}
 Description: ${playlist.description || "None"}
 URL: ${playlist.external_urls.spotify}
 ---`
-            )
-            .join("\n");
-        }
+          )
+          .join("\n");
+      }
 
-        return {
-          content: [
-            {
-              type: "text",
-              text:
-                formattedResults ||
-                `No ${type}s found matching your search.`,
-            },
-          ],
-        };
+      return {
+        content: [
+          {
+            type: "text",
+            text:
+              formattedResults ||
+              `No ${type}s found matching your search.`,
+          },
+        ],
+      };
+    }
+
+    if (name === "get-artist") {
+      const { artistId, limit, offset, fetchAll, maxItems } = await GetArtistSchema.parseAsync(args);
+
+      const [artist, topTracks, albums, relatedArtists] = await Promise.all([
+        spotify.getArtist(artistId),
+        whenAvailable(spotify.getArtistTopTracks(artistId)),
+        fetchListing(
+          { fetchAll, maxItems },
+          () => spotify.getArtistAlbums(artistId, limit, offset),
+          () => spotify.artistAlbumPages(artistId, offset)
+        ),
+        whenAvailable(spotify.getRelatedArtists(artistId)),
+      ]);
+
+      const formattedTopTracks = topTracks === null
+        ? "Not available"
+        : topTracks.map((track, index) => `${index + 1}. ${formatPlayable(track)}`).join("\n") || "None";
+
+      const formattedAlbums = albums.items.length > 0
+        ? `${describeListing(albums, offset, "albums")}\n${albums.items
+          .map((album, index) => `${offset + index + 1}. ${album.name} (${album.release_date.slice(0, 4)}, ${album.album_type ?? "album"}, ${album.total_tracks} tracks)
+   ID: ${album.id}`)
+          .join("\n")}`
+        : "None";
+
+      const formattedRelated = relatedArtists === null
+        ? "Not available"
+        : relatedArtists.slice(0, 10).map((related) => `${related.name} (${related.id})`).join(", ") || "None";
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Artist: ${artist.name}
+ID: ${artist.id}
+Genres: ${artist.genres?.join(", ") || "None"}
+Popularity: ${artist.popularity !== undefined ? `${artist.popularity}/100` : "Not available"}
+Followers: ${artist.followers ? artist.followers.total.toLocaleString("en-US") : "Not available"}
+URL: ${artist.external_urls.spotify}
+
+Top tracks:
+${formattedTopTracks}
+
+Albums:
+${formattedAlbums}
+
+Related artists: ${formattedRelated}`,
+          },
+        ],
+      };
+    }
+
+    if (name === "get-album") {
+      const { albumId } = await GetAlbumSchema.parseAsync(args);
+
+      const album = await spotify.getAlbum(albumId);
+
+      // The album only embeds the first page of its tracks
+      let tracks = album.tracks?.items ?? [];
+      if (!album.tracks || album.tracks.next) {
+        const rest = await collectItems(spotify.albumTrackPages(albumId, tracks.length), MAX_ITEMS_LIMIT);
+        tracks = [...tracks, ...rest.items];
       }
 
-      if (name === "get-current-playback") {
-        const playback = await spotifyApiRequest("/me/player");
+      const multiDisc = tracks.some((track) => track.disc_number > 1);
+      const formattedTracks = tracks
+        .map((track) => `${multiDisc ? `${track.disc_number}-` : ""}${track.track_number}. ${formatPlayable(track)}`)
+        .join("\n");
 
-        if (!playback) {
-          return {
-            content: [
-              {
-                type: "text",
-                text: "No active playback found. Make sure you have an active Spotify session.",
-              },
-            ],
-          };
-        }
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Album: ${album.name}
+Artist: ${album.artists.map((a: SpotifyArtist) => a.name).join(", ")}
+ID: ${album.id}
+Type: ${album.album_type ?? "album"}
+Release Date: ${album.release_date}
+Tracks: ${album.total_tracks}
+Label: ${album.label || "Unknown"}
+URL: ${album.external_urls.spotify}
+
+Tracklist:
+${formattedTracks || "None"}
+
+Copyrights:
+${album.copyrights?.map((copyright) => copyright.text).join("\n") || "None"}`,
+          },
+        ],
+      };
+    }
+
+    if (name === "get-track") {
+      const { trackId } = await GetTrackSchema.parseAsync(args);
+
+      const track = await spotify.getTrack(trackId);
+      const markets = track.available_markets;
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Track: ${track.name}
+Artist: ${track.artists.map((a: SpotifyArtist) => a.name).join(", ")}
+Album: ${track.album.name} (${track.album.release_date})
+ID: ${track.id}
+Duration: ${formatDuration(track.duration_ms)}
+Popularity: ${track.popularity !== undefined ? `${track.popularity}/100` : "Not available"}
+ISRC: ${track.external_ids?.isrc || "Not available"}
+Explicit: ${track.explicit === undefined ? "Unknown" : track.explicit ? "Yes" : "No"}
+Available markets: ${markets ? `${markets.length}${markets.length > 0 ? ` (${markets.join(", ")})` : ""}` : "Not available"}
+URL: ${track.external_urls.spotify}`,
+          },
+        ],
+      };
+    }
+
+    if (name === "get-current-playback") {
+      const playback = await spotify.getPlayback();
+
+      if (!playback) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: "No active playback found. Make sure you have an active Spotify session.",
+            },
+          ],
+        };
+      }
 
-        let responseText = "";
+      let responseText = "";
 
-        if (playback.item) {
-          responseText = `
+      if (playback.item) {
+        responseText = `
 Currently ${playback.is_playing ? "Playing" : "Paused"}:
 Track: ${playback.item.name}
-Artist: ${playback.item.artists.map((a: any) => a.name).join(", ")}
+Artist: ${playback.item.artists.map((a: SpotifyArtist) => a.name).join(", ")}
 Album: ${playback.item.album.name}
-Progress: ${Math.floor(playback.progress_ms / 1000 / 60)}:${(
-              Math.floor(playback.progress_ms / 1000) % 60
-            )
+Progress: ${Math.floor((playback.progress_ms ?? 0) / 1000 / 60)}:${(
+            Math.floor((playback.progress_ms ?? 0) / 1000) % 60
+          )
+            .toString()
+            .padStart(2, "0")} / ${Math.floor(
+              playback.item.duration_ms / 1000 / 60
+            )}:${(Math.floor(playback.item.duration_ms / 1000) % 60)
               .toString()
-              .padStart(2, "0")} / ${Math.floor(
-                playback.item.duration_ms / 1000 / 60
-              )}:${(Math.floor(playback.item.duration_ms / 1000) % 60)
-                .toString()
-                .padStart(2, "0")}
+              .padStart(2, "0")}
 Device: ${playback.device.name}
-Volume: ${playback.device.volume_percent}%
+Volume: ${playback.device.volume_percent ?? "N/A"}%
 Shuffle: ${playback.shuffle_state ? "On" : "Off"}
 Repeat: ${playback.repeat_state === "off"
-              ? "Off"
-              : playback.repeat_state === "context"
-                ? "Context"
-                : "Track"
-            }`;
-        } else {
-          responseText = `
+            ? "Off"
+            : playback.repeat_state === "context"
+              ? "Context"
+              : "Track"
+          }`;
+      } else {
+        responseText = `
 No track currently playing.
 Device: ${playback.device.name}
-Volume: ${playback.device.volume_percent}%
+Volume: ${playback.device.volume_percent ?? "N/A"}%
 Shuffle: ${playback.shuffle_state ? "On" : "Off"}
 Repeat: ${playback.repeat_state === "off"
-              ? "Off"
-              : playback.repeat_state === "context"
-                ? "Context"
-                : "Track"
-            }`;
-        }
+            ? "Off"
+            : playback.repeat_state === "context"
+              ? "Context"
+              : "Track"
+          }`;
+      }
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: responseText,
+          },
+        ],
+      };
+    }
 
+    if (name === "get-queue") {
+      const { currently_playing, queue } = await spotify.getQueue();
+
+      if (!currently_playing && queue.length === 0) {
         return {
           content: [
             {
               type: "text",
-              text: responseText,
+              text: "Nothing is playing and the queue is empty.",
             },
           ],
         };
       }
 
-      if (name === "play-track") {
-        const { trackId, deviceId } = PlayTrackSchema.parse(args);
+      const formattedQueue = queue
+        .map((item, index) => `${index + 1}. ${formatPlayable(item)}`)
+        .join("\n");
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Now playing: ${currently_playing ? formatPlayable(currently_playing) : "Nothing"}
+
+${queue.length > 0 ? `Up next:\n${formattedQueue}` : "The queue is empty."}`,
+          },
+        ],
+      };
+    }
+
+    if (name === "add-to-queue") {
+      const { uris, deviceId } = await AddToQueueSchema.parseAsync(args);
+
+      await queueItems(uris, deviceId);
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Added ${uris.length} item(s) to the queue.`,
+          },
+        ],
+      };
+    }
+
+    if (name === "queue-playlist-slice") {
+      const { playlistId, start, count, deviceId } = await QueuePlaylistSliceSchema.parseAsync(args);
 
-        const endpoint = deviceId ? `/me/player/play?device_id=${deviceId}` : "/me/player/play";
+      const { items, total } = await collectItems(spotify.playlistItemPages(playlistId, start), count);
 
-        await spotifyApiRequest(endpoint, "PUT", {
-          uris: [`spotify:track:${trackId}`],
-        });
+      // Local files and unavailable tracks cannot be queued
+      const uris = items
+        .map((item) => (item.item || item.track)?.uri)
+        .filter((uri): uri is string => Boolean(uri) && !uri!.startsWith("spotify:local:"));
 
+      if (uris.length === 0) {
         return {
           content: [
             {
               type: "text",
-              text: `Started playing track with ID: ${trackId}`,
+              text: start >= total
+                ? `The playlist only has ${total} tracks.`
+                : "No playable tracks found in that range.",
             },
           ],
         };
       }
 
-      if (name === "pause-playback") {
-        await spotifyApiRequest("/me/player/pause", "PUT");
+      await queueItems(uris, deviceId);
+
+      const skipped = items.length - uris.length;
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Queued ${uris.length} track(s) from positions ${start}-${start + items.length - 1} of the playlist.${skipped > 0 ? ` Skipped ${skipped} unavailable or local track(s).` : ""}`,
+          },
+        ],
+      };
+    }
+
+    if (name === "list-devices") {
+      const devices = await spotify.getDevices();
 
+      if (devices.length === 0) {
         return {
           content: [
             {
               type: "text",
-              text: "Playback paused.",
+              text: "No devices found. Open Spotify on a phone, computer or speaker first.",
             },
           ],
         };
       }
 
-      if (name === "next-track") {
-        await spotifyApiRequest("/me/player/next", "POST");
+      const formattedDevices = devices
+        .map(
+          (device) => `
+Device: ${device.name}
+ID: ${device.id || "N/A"}
+Type: ${device.type}
+Active: ${device.is_active ? "Yes" : "No"}
+Volume: ${device.volume_percent ?? "N/A"}${device.volume_percent !== null ? "%" : ""}
+Restricted: ${device.is_restricted ? "Yes (cannot be controlled through the API)" : "No"}${device.is_private_session ? "\nPrivate session: Yes" : ""}
+---`
+        )
+        .join("\n");
 
-        return {
-          content: [
-            {
-              type: "text",
-              text: "Skipped to next track.",
-            },
-          ],
-        };
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Available devices:\n${formattedDevices}`,
+          },
+        ],
+      };
+    }
+
+    if (name === "transfer-playback") {
+      const { deviceId, play } = await TransferPlaybackSchema.parseAsync(args);
+
+      const device = await findDevice(deviceId);
+      await spotify.transferPlayback(device.id as string, play);
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Playback transferred to ${describeDevice(device)}${play ? " and started" : ""}.`,
+          },
+        ],
+      };
+    }
+
+    if (name === "play-track") {
+      const { trackId, uris, contextUri, offset, positionMs, deviceId } = await PlayTrackSchema.parseAsync(args);
+
+      const options: PlayOptions = { positionMs };
+      let description: string;
+
+      if (trackId !== undefined) {
+        // A pasted album, playlist, artist or show link is played as a context
+        if (CONTEXT_TYPES.includes(trackId.type)) {
+          options.contextUri = trackId.uri;
+        } else {
+          options.uris = [trackId.uri];
+        }
+        description = `${trackId.type} ${trackId.uri}`;
+      } else if (uris !== undefined) {
+        options.uris = uris.map((reference) => reference.uri);
+        description = `${options.uris.length} item(s)`;
+      } else {
+        options.contextUri = contextUri!.uri;
+        description = `${contextUri!.type} ${contextUri!.uri}`;
+      }
+
+      if (offset !== undefined) {
+        if (!options.contextUri && (options.uris?.length ?? 0) < 2) {
+          throw new ValidationError("offset can only be used with contextUri or a list of uris");
+        }
+        if (options.contextUri?.startsWith("spotify:artist:")) {
+          throw new ValidationError("Spotify does not support an offset when playing an artist");
+        }
+        options.offset = typeof offset === "number"
+          ? { position: offset }
+          : { uri: offset.uri };
       }
 
-      if (name === "previous-track") {
-        await spotifyApiRequest("/me/player/previous", "POST");
+      await spotify.play(options, await resolveDeviceId(deviceId));
+
+      const startsAt = options.offset
+        ? "position" in options.offset
+          ? ` from position ${options.offset.position}`
+          : ` from ${options.offset.uri}`
+        : "";
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Started playing ${description}${startsAt}${positionMs ? ` at ${formatDuration(positionMs)}` : ""}.`,
+          },
+        ],
+      };
+    }
+
+    if (name === "pause-playback") {
+      await spotify.pause();
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: "Playback paused.",
+          },
+        ],
+      };
+    }
+
+    if (name === "next-track") {
+      await spotify.skipToNext();
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: "Skipped to next track.",
+          },
+        ],
+      };
+    }
+
+    if (name === "previous-track") {
+      await spotify.skipToPrevious();
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: "Skipped to previous track.",
+          },
+        ],
+      };
+    }
+
+    if (name === "resume-playback") {
+      const { deviceId } = await ResumePlaybackSchema.parseAsync(args);
+
+      await spotify.resume(await resolveDeviceId(deviceId));
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: "Playback resumed.",
+          },
+        ],
+      };
+    }
+
+    if (name === "set-volume") {
+      const { volumePercent, deviceId } = await SetVolumeSchema.parseAsync(args);
+
+      await spotify.setVolume(volumePercent, await resolveDeviceId(deviceId));
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Volume set to ${volumePercent}%.`,
+          },
+        ],
+      };
+    }
+
+    if (name === "seek-to-position") {
+      const { position, deviceId } = await SeekToPositionSchema.parseAsync(args);
+
+      await spotify.seek(position, await resolveDeviceId(deviceId));
 
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Seeked to ${formatDuration(position)}.`,
+          },
+        ],
+      };
+    }
+
+    if (name === "set-shuffle") {
+      const { state, deviceId } = await SetShuffleSchema.parseAsync(args);
+
+      await spotify.setShuffle(state, await resolveDeviceId(deviceId));
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Shuffle turned ${state ? "on" : "off"}.`,
+          },
+        ],
+      };
+    }
+
+    if (name === "set-repeat-mode") {
+      const { mode, deviceId } = await SetRepeatModeSchema.parseAsync(args);
+
+      await spotify.setRepeatMode(mode, await resolveDeviceId(deviceId));
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: mode === "off"
+              ? "Repeat turned off."
+              : `Repeat set to ${mode === "track" ? "the current track" : "the current album or playlist"}.`,
+          },
+        ],
+      };
+    }
+
+    if (name === "get-user-playlists") {
+      const { limit, offset, fetchAll, maxItems } = await GetUserPlaylistsSchema.parseAsync(args);
+
+      const playlists = await fetchListing(
+        { fetchAll, maxItems },
+        () => spotify.getUserPlaylists(limit, offset),
+        () => spotify.userPlaylistPages(offset)
+      );
+
+      if (playlists.items.length === 0) {
         return {
           content: [
             {
               type: "text",
-              text: "Skipped to previous track.",
+              text: offset > 0
+                ? "No more playlists found."
+                : "You don't have any playlists.",
             },
           ],
         };
       }
 
-      if (name === "get-user-playlists") {
-        const { limit, offset } = GetUserPlaylistsSchema.parse(args);
-
-        const params = new URLSearchParams({
-          limit: limit.toString(),
-          offset: offset.toString(),
-        });
-
-        const playlists = await spotifyApiRequest(`/me/playlists?${params}`);
-
-        if (playlists.items.length === 0) {
-          return {
-            content: [
-              {
-                type: "text",
-                text: offset > 0
-                  ? "No more playlists found."
-                  : "You don't have any playlists.",
-              },
-            ],
-          };
-        }
-
-        const formattedPlaylists = playlists.items
-          .map(
-            (playlist: SpotifyPlaylist) => `
+      const formattedPlaylists = playlists.items
+        .map(
+          (playlist: SpotifyPlaylist) => `
 Name: ${playlist.name}
 ID: ${playlist.id}
 Owner: ${playlist.owner.display_name || playlist.owner.id || "Unknown"}
@@ -1455,419 +3044,994 @@ Tracks: ${getPlaylistItemTotal(playlist)}
 Public: ${playlist.public ? "Yes" : "No"}
 URL: ${playlist.external_urls.spotify}
 ---`
-          )
-          .join("\n");
+        )
+        .join("\n");
+
+      const paginationInfo = `\n${describeListing(playlists, offset, "playlists")}`;
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Your playlists:${paginationInfo}\n${formattedPlaylists}`,
+          },
+        ],
+      };
+    }
+
+    if (name === "create-playlist") {
+      const { name, description, public: isPublic } = await CreatePlaylistSchema.parseAsync(args);
+
+      const playlist = await spotify.createPlaylist(name, description, isPublic);
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Playlist created successfully:
+Name: ${playlist.name}
+ID: ${playlist.id}
+URL: ${playlist.external_urls.spotify}`,
+          },
+        ],
+      };
+    }
+
+    if (name === "add-tracks-to-playlist") {
+      const { playlistId, trackIds } = await AddTracksSchema.parseAsync(args);
+
+      const uris = trackIds.map((id) => `spotify:track:${id}`);
+      await spotify.addItems(playlistId, uris);
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Added ${trackIds.length} tracks to playlist with ID: ${playlistId}`,
+          },
+        ],
+      };
+    }
+
+    if (name === "get-playlist-tracks") {
+      const { playlistId, limit, offset, fetchAll, maxItems } = await GetPlaylistTracksSchema.parseAsync(args);
 
-        const paginationInfo = `
-Showing ${offset + 1}-${offset + playlists.items.length} of ${playlists.total} total playlists`;
+      const result = await fetchListing(
+        { fetchAll, maxItems },
+        () => spotify.getPlaylistItems(playlistId, limit, offset),
+        () => spotify.playlistItemPages(playlistId, offset)
+      );
 
+      if (result.items.length === 0) {
         return {
           content: [
             {
               type: "text",
-              text: `Your playlists:${paginationInfo}\n${formattedPlaylists}`,
+              text: offset > 0
+                ? "No more tracks found."
+                : "This playlist is empty.",
             },
           ],
         };
       }
 
-      if (name === "create-playlist") {
-        const { name, description, public: isPublic } = CreatePlaylistSchema.parse(args);
+      const formattedTracks = result.items
+        .map(
+          (item, index) => {
+            const track = item.item || item.track;
+            if (!track) return `${offset + index + 1}. [Unavailable track]\n---`;
+            return `${offset + index + 1}. ${track.name}
+Artist: ${track.artists.map((a: SpotifyArtist) => a.name).join(", ")}
+Album: ${track.album?.name || "N/A"}
+ID: ${track.id}
+Duration: ${Math.floor(track.duration_ms / 1000 / 60)}:${(
+                Math.floor(track.duration_ms / 1000) % 60
+              )
+                .toString()
+                .padStart(2, "0")}
+URL: ${track.external_urls.spotify}
+---`;
+          }
+        )
+        .join("\n");
+
+      const paginationInfo = `\n${describeListing(result, offset, "tracks")}`;
 
-        const playlist = await spotifyApiRequest(
-          "/me/playlists",
-          "POST",
+      return {
+        content: [
           {
-            name,
-            description,
-            public: isPublic,
-          }
-        );
+            type: "text",
+            text: `Playlist tracks:${paginationInfo}\n${formattedTracks}`,
+          },
+        ],
+      };
+    }
 
+    if (name === "export-playlist") {
+      const { playlistId, format, outputPath } = await ExportPlaylistSchema.parseAsync(args);
+
+      const { data, contents } = await exportPlaylist(playlistId, format);
+      const skippedNote = data.skipped > 0
+        ? ` ${data.skipped} item(s) that are not tracks (removed tracks, local files or episodes) were left out.`
+        : "";
+
+      if (outputPath) {
+        const written = writePlaylistExport(resolveInsideDirectory(EXPORT_DIR, outputPath), contents);
         return {
           content: [
             {
               type: "text",
-              text: `Playlist created successfully:
-Name: ${playlist.name}
-ID: ${playlist.id}
-URL: ${playlist.external_urls.spotify}`,
+              text: `Exported ${data.tracks.length} track(s) of "${data.playlist.name}" as ${format.toUpperCase()} to ${written}.${skippedNote}`,
             },
           ],
         };
       }
 
-      if (name === "add-tracks-to-playlist") {
-        const { playlistId, trackIds } = AddTracksSchema.parse(args);
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Exported ${data.tracks.length} track(s) of "${data.playlist.name}" as ${format.toUpperCase()}.${skippedNote}\n\n${contents}`,
+          },
+        ],
+      };
+    }
+
+    if (name === "import-playlist") {
+      const {
+        tracklist,
+        filePath,
+        format,
+        playlistId,
+        name: playlistName,
+        description,
+        public: isPublic,
+        minConfidence,
+        dryRun,
+      } = await ImportPlaylistSchema.parseAsync(args);
+
+      const parsed = parseTracklist(filePath ? readTracklistFile(resolveInsideDirectory(IMPORT_DIR, filePath)) : tracklist!, format);
+      if (parsed.entries.length === 0) {
+        throw new ValidationError("No tracks found in the tracklist");
+      }
+      if (parsed.entries.length > MAX_TRACKLIST_ENTRIES) {
+        throw new ValidationError(`The tracklist has ${parsed.entries.length} tracks; import at most ${MAX_TRACKLIST_ENTRIES} at a time`);
+      }
+
+      const search: TrackSearch = async (query, limit) => (await spotify.search(query, "track", limit)).tracks?.items ?? [];
+      const matches = await Promise.all(parsed.entries.map((entry) => matchEntry(entry, search, minConfidence)));
+      const uris = matches.map((match) => match.uri).filter((uri): uri is string => uri !== null);
+
+      let outcome: string;
+      if (dryRun) {
+        outcome = "Dry run: no playlist was created or changed.";
+      } else if (uris.length === 0) {
+        outcome = playlistId ? "Nothing was added to the playlist." : "No playlist was created.";
+      } else if (playlistId) {
+        const [playlist] = await Promise.all([spotify.getPlaylist(playlistId), spotify.addItems(playlistId, uris)]);
+        outcome = `Added ${uris.length} track(s) to "${playlist.name}" (${playlist.external_urls.spotify}).`;
+      } else {
+        const playlist = await spotify.createPlaylist(playlistName!, description, isPublic);
+        await spotify.addItems(playlist.id, uris);
+        outcome = `Created "${playlist.name}" with ${uris.length} track(s).
+ID: ${playlist.id}
+URL: ${playlist.external_urls.spotify}`;
+      }
 
-        const uris = trackIds.map((id) => `spotify:track:${id}`);
+      const review = formatImportReview(matches);
 
-        await spotifyApiRequest(
-          `/playlists/${encodeURIComponent(playlistId)}/items`,
-          "POST",
+      return {
+        content: [
           {
-            uris,
-          }
-        );
+            type: "text",
+            text: `Matched ${uris.length} of ${parsed.entries.length} line(s) of the ${parsed.format.toUpperCase()} tracklist. ${outcome}${review ? `\n\n${review}` : ""}`,
+          },
+        ],
+      };
+    }
+
+    if (name === "delete-playlist") {
+      const { playlistId } = await DeletePlaylistSchema.parseAsync(args);
+
+      const snapshot = await snapshotBeforeChange(playlistId, name);
+      await spotify.unfollowPlaylist(playlistId);
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Playlist ${playlistId} has been unfollowed/deleted. ${undoHint(snapshot)}`,
+          },
+        ],
+      };
+    }
+
+    if (name === "remove-tracks-from-playlist") {
+      const { playlistId, trackIds } = await RemoveTracksFromPlaylistSchema.parseAsync(args);
+
+      const snapshot = await snapshotBeforeChange(playlistId, name);
+      await spotify.removeItems(playlistId, trackIds.map((id) => `spotify:track:${id}`));
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Removed ${trackIds.length} track(s) from playlist ${playlistId}. ${undoHint(snapshot)}`,
+          },
+        ],
+      };
+    }
+
+    if (name === "update-playlist") {
+      const { playlistId, name: playlistName, description, public: isPublic, collaborative } = await UpdatePlaylistSchema.parseAsync(args);
+
+      const body: PlaylistDetails = {};
+      if (playlistName !== undefined) body.name = playlistName;
+      if (description !== undefined) body.description = description;
+      if (isPublic !== undefined) body.public = isPublic;
+      if (collaborative !== undefined) body.collaborative = collaborative;
+
+      if (Object.keys(body).length === 0) {
+        throw new Error("At least one field (name, description, public, collaborative) must be provided");
+      }
+
+      const snapshot = await snapshotBeforeChange(playlistId, name);
+      await spotify.updatePlaylist(playlistId, body);
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Playlist ${playlistId} updated: ${Object.keys(body).join(", ")} changed. ${undoHint(snapshot)}`,
+          },
+        ],
+      };
+    }
 
+    if (name === "get-playlist-cover") {
+      const { playlistId } = await GetPlaylistCoverSchema.parseAsync(args);
+
+      const images = await spotify.getPlaylistCoverImages(playlistId);
+
+      if (images.length === 0) {
         return {
           content: [
-            {
-              type: "text",
-              text: `Added ${trackIds.length} tracks to playlist with ID: ${playlistId}`,
-            },
+            { type: "text", text: "No cover image found for this playlist." },
           ],
         };
       }
 
-      if (name === "get-playlist-tracks") {
-        const { playlistId, limit, offset } = GetPlaylistTracksSchema.parse(args);
+      const formatted = images
+        .map((img) => `${img.width && img.height ? `Size: ${img.width}x${img.height}\n` : ""}URL: ${img.url}`)
+        .join("\n---\n");
 
-        const params = new URLSearchParams({
-          limit: limit.toString(),
-          offset: offset.toString(),
-        });
+      return {
+        content: [
+          { type: "text", text: `Playlist cover images:\n${formatted}` },
+        ],
+      };
+    }
 
-        const result = await spotifyApiRequest(
-          `/playlists/${encodeURIComponent(playlistId)}/items?${params}`
-        );
+    if (name === "get-recently-played") {
+      const { limit, before, after } = await GetRecentlyPlayedSchema.parseAsync(args);
 
-        if (!result.items || result.items.length === 0) {
-          return {
-            content: [
-              {
-                type: "text",
-                text: offset > 0
-                  ? "No more tracks found."
-                  : "This playlist is empty.",
-              },
-            ],
-          };
-        }
+      const result = await spotify.getRecentlyPlayed(limit, before, after);
 
-        const formattedTracks = result.items
-          .map(
-            (item: any, index: number) => {
-              const track = item.item || item.track;
-              if (!track) return `${offset + index + 1}. [Unavailable track]\n---`;
-              return `${offset + index + 1}. ${track.name}
-Artist: ${track.artists.map((a: any) => a.name).join(", ")}
-Album: ${track.album?.name || "N/A"}
-ID: ${track.id}
-Duration: ${Math.floor(track.duration_ms / 1000 / 60)}:${(
-                  Math.floor(track.duration_ms / 1000) % 60
-                )
-                  .toString()
-                  .padStart(2, "0")}
-URL: ${track.external_urls.spotify}
----`;
-            }
-          )
-          .join("\n");
+      if (result.items.length === 0) {
+        return {
+          content: [
+            { type: "text", text: "No recently played tracks found." },
+          ],
+        };
+      }
+
+      const formatted = result.items
+        .map(
+          (item) => `Track: ${item.track.name}
+Artist: ${item.track.artists.map((a: SpotifyArtist) => a.name).join(", ")}
+Album: ${item.track.album?.name || "N/A"}
+ID: ${item.track.id}
+Played at: ${item.played_at}
+URL: ${item.track.external_urls.spotify}
+---`
+        )
+        .join("\n");
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Recently played tracks:\n${formatted}`,
+          },
+        ],
+      };
+    }
+
+    if (name === "upload-playlist-cover") {
+      const { playlistId, imageBase64 } = await UploadPlaylistCoverSchema.parseAsync(args);
+
+      await spotify.uploadPlaylistCover(playlistId, imageBase64);
+
+      return {
+        content: [
+          { type: "text", text: `Cover image uploaded for playlist ${playlistId}.` },
+        ],
+      };
+    }
+
+    if (name === "reorder-playlist-tracks") {
+      const { playlistId, rangeStart, insertBefore, rangeLength } = await ReorderPlaylistTracksSchema.parseAsync(args);
+
+      const snapshot = await snapshotBeforeChange(playlistId, name);
+      await spotify.reorderItems(playlistId, rangeStart, insertBefore, rangeLength);
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Moved ${rangeLength} track(s) from position ${rangeStart} to position ${insertBefore}. ${undoHint(snapshot)}`,
+          },
+        ],
+      };
+    }
+
+    if (name === "find-playlist-duplicates") {
+      const { playlistId, mode } = await FindPlaylistDuplicatesSchema.parseAsync(args);
 
-        const paginationInfo = `\nShowing ${offset + 1}-${offset + result.items.length} of ${result.total} total tracks`;
+      const { playlist, items } = await fetchPlaylistWithItems(playlistId);
+      const groups = findDuplicates(items, mode);
 
+      if (groups.length === 0) {
         return {
           content: [
             {
               type: "text",
-              text: `Playlist tracks:${paginationInfo}\n${formattedTracks}`,
+              text: `No duplicates found in "${playlist.name}" (${mode} mode, ${items.length} items).`,
             },
           ],
         };
       }
 
-      if (name === "delete-playlist") {
-        const { playlistId } = DeletePlaylistSchema.parse(args);
+      const duplicateCount = groups.reduce((total, group) => total + group.duplicates.length, 0);
 
-        await spotifyApiRequest(
-          `/playlists/${encodeURIComponent(playlistId)}/followers`,
-          "DELETE"
-        );
+      return {
+        content: [
+          {
+            type: "text",
+            text: `${duplicateCount} duplicate(s) of ${groups.length} track(s) in "${playlist.name}" (${mode} mode, positions are 0-based):
+
+${formatDuplicateGroups(groups)}
+
+Use dedupe-playlist with mode "${mode}" to remove the duplicates and keep the first occurrence of each.`,
+          },
+        ],
+      };
+    }
 
+    if (name === "dedupe-playlist") {
+      const { playlistId, mode, dryRun } = await DedupePlaylistSchema.parseAsync(args);
+
+      const { playlist, items } = await fetchPlaylistWithItems(playlistId);
+      const groups = findDuplicates(items, mode);
+      const removals = groups.flatMap((group) => group.duplicates.map(({ position, track }) => ({
+        position,
+        uri: track.uri ?? `spotify:track:${track.id}`,
+      })));
+
+      if (removals.length === 0) {
         return {
           content: [
             {
               type: "text",
-              text: `Playlist ${playlistId} has been unfollowed/deleted.`,
+              text: `No duplicates found in "${playlist.name}" (${mode} mode). Nothing was removed.`,
             },
           ],
         };
       }
 
-      if (name === "remove-tracks-from-playlist") {
-        const { playlistId, trackIds } = RemoveTracksFromPlaylistSchema.parse(args);
-
-        const items = trackIds.map((id) => ({ uri: `spotify:track:${id}` }));
-
-        await spotifyApiRequest(
-          `/playlists/${encodeURIComponent(playlistId)}/items`,
-          "DELETE",
-          { items }
-        );
-
+      if (dryRun) {
         return {
           content: [
             {
               type: "text",
-              text: `Removed ${trackIds.length} track(s) from playlist ${playlistId}.`,
+              text: `Dry run: ${removals.length} duplicate(s) would be removed from "${playlist.name}" (${mode} mode, positions are 0-based):
+
+${formatDuplicateGroups(groups)}`,
             },
           ],
         };
       }
 
-      if (name === "update-playlist") {
-        const { playlistId, name: playlistName, description, public: isPublic, collaborative } = UpdatePlaylistSchema.parse(args);
+      // The positions were read with this snapshot_id, so they are removed against it
+      const snapshot = buildPlaylistSnapshot(playlist, items, name);
+      snapshotStore().add(snapshot);
+      const rebuilt = await removeItemsAtPositions(playlist, items, removals, snapshot);
+      const rebuiltNote = rebuilt
+        ? "\n\nSpotify did not remove the duplicates by position, so the playlist was rebuilt without them. The tracks now show as added today."
+        : "";
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Removed ${removals.length} duplicate(s) from "${playlist.name}" (${mode} mode, positions are 0-based):
 
-        const body: Record<string, any> = {};
-        if (playlistName !== undefined) body.name = playlistName;
-        if (description !== undefined) body.description = description;
-        if (isPublic !== undefined) body.public = isPublic;
-        if (collaborative !== undefined) body.collaborative = collaborative;
+${formatDuplicateGroups(groups)}${rebuiltNote}
 
-        if (Object.keys(body).length === 0) {
-          throw new Error("At least one field (name, description, public, collaborative) must be provided");
-        }
+${undoHint(snapshot)}`,
+          },
+        ],
+      };
+    }
 
-        await spotifyApiRequest(
-          `/playlists/${encodeURIComponent(playlistId)}`,
-          "PUT",
-          body
-        );
+    if (name === "list-playlist-snapshots") {
+      const { playlistId } = await ListPlaylistSnapshotsSchema.parseAsync(args);
 
+      const snapshots = snapshotStore().list(playlistId);
+      if (snapshots.length === 0) {
         return {
           content: [
             {
               type: "text",
-              text: `Playlist ${playlistId} updated: ${Object.keys(body).join(", ")} changed.`,
+              text: `No snapshots${playlistId ? ` of playlist ${playlistId}` : ""}. Snapshots are saved when a tool changes or deletes a playlist.`,
             },
           ],
         };
       }
 
-      if (name === "get-playlist-cover") {
-        const { playlistId } = GetPlaylistCoverSchema.parse(args);
+      const formatted = snapshots
+        .map((snapshot) => `${snapshot.snapshotId}
+   Playlist: ${snapshot.details.name} (${snapshot.playlistId})
+   Taken: ${snapshot.takenAt}, before ${snapshot.reason}
+   Tracks: ${snapshot.items.length}${snapshot.skipped > 0 ? ` (plus ${snapshot.skipped} item(s) that cannot be restored)` : ""}`)
+        .join("\n");
 
-        const images = await spotifyApiRequest(
-          `/playlists/${encodeURIComponent(playlistId)}/images`
-        );
+      return {
+        content: [
+          {
+            type: "text",
+            text: `${snapshots.length} snapshot(s), newest first:\n${formatted}`,
+          },
+        ],
+      };
+    }
 
-        if (!images || images.length === 0) {
-          return {
-            content: [
-              { type: "text", text: "No cover image found for this playlist." },
-            ],
-          };
+    if (name === "diff-playlist-snapshots") {
+      const { playlistId, from, to } = await DiffPlaylistSnapshotsSchema.parseAsync(args);
+
+      const fromSnapshot = snapshotStore().get(playlistId, from);
+      const toSnapshot = to === "current"
+        ? await currentPlaylistState(playlistId, name)
+        : snapshotStore().get(playlistId, to);
+
+      const diff = diffSnapshots(fromSnapshot, toSnapshot);
+      const label = (snapshot: PlaylistSnapshot) => `snapshot ${snapshot.snapshotId} (${snapshot.takenAt})`;
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: formatSnapshotDiff(diff, label(fromSnapshot), to === "current" ? "the current playlist" : label(toSnapshot)),
+          },
+        ],
+      };
+    }
+
+    if (name === "restore-playlist-snapshot") {
+      const { playlistId, snapshotId } = await RestorePlaylistSnapshotSchema.parseAsync(args);
+
+      const snapshot = snapshotStore().get(playlistId, snapshotId);
+      const backup = await snapshotBeforeChange(playlistId, RESTORE_REASON);
+
+      const details: PlaylistDetails = {
+        name: snapshot.details.name,
+        description: snapshot.details.description ?? "",
+        collaborative: snapshot.details.collaborative,
+      };
+      if (snapshot.details.public !== null) {
+        details.public = snapshot.details.public;
+      }
+
+      try {
+        // Deleting a playlist only unfollows it, so following it brings it back
+        await spotify.followPlaylist(playlistId);
+        await spotify.updatePlaylist(playlistId, details);
+        await spotify.replaceItems(playlistId, snapshot.items.map((item) => item.uri));
+      } catch (error: any) {
+        if (error instanceof AuthenticationError) {
+          throw error;
         }
+        throw new APIError(
+          `Restoring snapshot ${snapshot.snapshotId} failed partway, so the playlist may be partly restored: ${error.message}. Run the restore again, or restore snapshot ${backup.snapshotId} to go back to the state before it.`,
+          error.status,
+          error.data
+        );
+      }
 
-        const formatted = images
-          .map((img: any) => `${img.width && img.height ? `Size: ${img.width}x${img.height}\n` : ""}URL: ${img.url}`)
-          .join("\n---\n");
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Restored "${snapshot.details.name}" to snapshot ${snapshot.snapshotId} from ${snapshot.takenAt}: ${snapshot.items.length} track(s).${snapshot.skipped > 0 ? ` ${snapshot.skipped} item(s) without a track (local files or removed tracks) could not be restored.` : ""} The state before the restore was saved as snapshot ${backup.snapshotId}.`,
+          },
+        ],
+      };
+    }
 
-        return {
-          content: [
-            { type: "text", text: `Playlist cover images:\n${formatted}` },
-          ],
-        };
+    if (name === "get-recommendations") {
+      const { seedTracks, seedArtists, seedGenres, limit } = await GetRecommendationsSchema.parseAsync(args);
+
+      if (!seedTracks && !seedArtists && !seedGenres) {
+        throw new Error("At least one seed (tracks, artists, or genres) must be provided");
       }
 
-      if (name === "get-recently-played") {
-        const { limit, before, after } = GetRecentlyPlayedSchema.parse(args);
+      const recommendations = await spotify.getRecommendations(
+        { tracks: seedTracks, artists: seedArtists, genres: seedGenres },
+        limit
+      );
+
+      const formattedRecommendations = recommendations.tracks
+        .map(
+          (track: SpotifyTrack) => `
+Track: ${track.name}
+Artist: ${track.artists.map((a: SpotifyArtist) => a.name).join(", ")}
+Album: ${track.album.name}
+ID: ${track.id}
+Duration: ${Math.floor(track.duration_ms / 1000 / 60)}:${(
+              Math.floor(track.duration_ms / 1000) % 60
+            )
+              .toString()
+              .padStart(2, "0")}
+URL: ${track.external_urls.spotify}
+---`
+        )
+        .join("\n");
 
-        const params = new URLSearchParams({ limit: limit.toString() });
-        if (before) params.append("before", before.toString());
-        if (after) params.append("after", after.toString());
+      return {
+        content: [
+          {
+            type: "text",
+            text: recommendations.tracks.length > 0
+              ? `Recommended tracks:\n${formattedRecommendations}`
+              : "No recommendations found.",
+          },
+        ],
+      };
+    }
 
-        const result = await spotifyApiRequest(`/me/player/recently-played?${params}`);
+    if (name === "get-top-tracks") {
+      const { limit, offset, time_range, fetchAll, maxItems } = await GetTopTracksSchema.parseAsync(args);
 
-        if (!result.items || result.items.length === 0) {
-          return {
-            content: [
-              { type: "text", text: "No recently played tracks found." },
-            ],
-          };
-        }
+      const topTracks = await fetchListing(
+        { fetchAll, maxItems },
+        () => spotify.getTopTracks(limit, offset, time_range),
+        () => spotify.topTrackPages(time_range, offset)
+      );
 
-        const formatted = result.items
-          .map(
-            (item: any) => `Track: ${item.track.name}
-Artist: ${item.track.artists.map((a: any) => a.name).join(", ")}
-Album: ${item.track.album?.name || "N/A"}
-ID: ${item.track.id}
-Played at: ${item.played_at}
-URL: ${item.track.external_urls.spotify}
+      const formattedTracks = topTracks.items
+        .map(
+          (track: SpotifyTrack) => `
+Track: ${track.name}
+Artist: ${track.artists.map((a: SpotifyArtist) => a.name).join(", ")}
+Album: ${track.album.name}
+ID: ${track.id}
+Duration: ${Math.floor(track.duration_ms / 1000 / 60)}:${(
+              Math.floor(track.duration_ms / 1000) % 60
+            )
+              .toString()
+              .padStart(2, "0")}
+URL: ${track.external_urls.spotify}
 ---`
-          )
-          .join("\n");
+        )
+        .join("\n");
 
-        return {
-          content: [
-            {
-              type: "text",
-              text: `Recently played tracks:\n${formatted}`,
-            },
-          ],
-        };
-      }
+      return {
+        content: [
+          {
+            type: "text",
+            text: topTracks.items.length > 0
+              ? `Your top tracks:\n${describeListing(topTracks, offset, "tracks")}\n${formattedTracks}`
+              : "No top tracks found for the specified time range.",
+          },
+        ],
+      };
+    }
 
-      if (name === "upload-playlist-cover") {
-        const { playlistId, imageBase64 } = UploadPlaylistCoverSchema.parse(args);
+    if (name === "get-top-artists") {
+      const { limit, offset, time_range, fetchAll, maxItems } = await GetTopArtistsSchema.parseAsync(args);
 
-        const token = await ensureToken();
-        if (!token) {
-          throw new Error("Not authenticated. Please authorize the app first.");
-        }
+      const topArtists = await fetchListing(
+        { fetchAll, maxItems },
+        () => spotify.getTopArtists(limit, offset, time_range),
+        () => spotify.topArtistPages(time_range, offset)
+      );
+
+      const formattedArtists = topArtists.items
+        .map(
+          (artist: SpotifyArtist) => `
+Artist: ${artist.name}
+ID: ${artist.id}
+Genres: ${artist.genres?.join(", ") || "None"}
+Popularity: ${artist.popularity !== undefined ? `${artist.popularity}/100` : "Not available"}
+URL: ${artist.external_urls.spotify}
+---`
+        )
+        .join("\n");
 
-        await axios({
-          method: "PUT",
-          url: `${SPOTIFY_API_BASE}/playlists/${encodeURIComponent(playlistId)}/images`,
-          headers: {
-            Authorization: `Bearer ${token}`,
-            "Content-Type": "image/jpeg",
+      return {
+        content: [
+          {
+            type: "text",
+            text: topArtists.items.length > 0
+              ? `Your top artists:\n${describeListing(topArtists, offset, "artists")}\n${formattedArtists}`
+              : "No top artists found for the specified time range.",
           },
-          data: imageBase64,
-        });
+        ],
+      };
+    }
 
-        return {
-          content: [
-            { type: "text", text: `Cover image uploaded for playlist ${playlistId}.` },
-          ],
-        };
-      }
+    if (name === "listening-summary") {
+      const { limit, top } = await ListeningSummarySchema.parseAsync(args);
+
+      const [topTracks, topArtists, recentlyPlayed] = await Promise.all([
+        Promise.all(TIME_RANGES.map((range) => spotify.getTopTracks(limit, 0, range))),
+        Promise.all(TIME_RANGES.map((range) => spotify.getTopArtists(limit, 0, range))),
+        spotify.getRecentlyPlayed(50),
+      ]);
 
-      if (name === "reorder-playlist-tracks") {
-        const { playlistId, rangeStart, insertBefore, rangeLength } = ReorderPlaylistTracksSchema.parse(args);
+      const byRange = <T>(pages: SpotifyPaging<T>[]) =>
+        Object.fromEntries(TIME_RANGES.map((range, index) => [range, pages[index].items])) as Record<TimeRange, T[]>;
 
-        await spotifyApiRequest(
-          `/playlists/${encodeURIComponent(playlistId)}/items`,
-          "PUT",
+      return {
+        content: [
           {
-            range_start: rangeStart,
-            insert_before: insertBefore,
-            range_length: rangeLength,
+            type: "text",
+            text: formatListeningSummary(
+              {
+                topTracks: byRange(topTracks),
+                topArtists: byRange(topArtists),
+                recentlyPlayed: recentlyPlayed.items,
+              },
+              top
+            ),
+          },
+        ],
+      };
+    }
+
+    if (name === "query-listening-history") {
+      const { from, to, artist, track, groupBy, limit, sync } = await QueryListeningHistorySchema.parseAsync(args);
+
+      const range = {
+        from: from ? parseDateBound(from, "from") : undefined,
+        to: to ? parseDateBound(to, "to") : undefined,
+      };
+
+      let syncNote = "";
+      if (sync) {
+        try {
+          await historyRecorder.record();
+        } catch (error: any) {
+          if (error instanceof InsufficientScopeError) {
+            throw error;
           }
-        );
+          syncNote = `\n\nCould not fetch the latest plays from Spotify, showing stored plays only: ${error.message}`;
+        }
+      }
 
+      const plays = filterHistory(historyStore().all(), { ...range, artist, track });
+      const description = [
+        range.from && `from ${range.from.toISOString()}`,
+        range.to && `to ${range.to.toISOString()}`,
+        artist && `artist "${artist}"`,
+        track && `track "${track}"`,
+      ].filter(Boolean).join(", ");
+
+      if (plays.length === 0) {
         return {
           content: [
             {
               type: "text",
-              text: `Moved ${rangeLength} track(s) from position ${rangeStart} to position ${insertBefore}.`,
+              text: `No plays found${description ? ` (${description})` : ""}.${historyRecorder.active ? "" : " Enable the history recorder with SPOTIFY_HISTORY_RECORDER=true or use import-streaming-history to build up older history."}${syncNote}`,
             },
           ],
         };
       }
 
-      if (name === "get-recommendations") {
-        const { seedTracks, seedArtists, seedGenres, limit } = GetRecommendationsSchema.parse(args);
+      const formatted = groupBy === "none"
+        ? plays
+          .slice(0, limit)
+          .map((play) => `${play.playedAt.slice(0, 16).replace("T", " ")}  ${play.track} - ${play.artists.join(", ") || "Unknown artist"}`)
+          .join("\n")
+        : countHistory(plays, groupBy)
+          .slice(0, limit)
+          .map(({ name, count }, index) => `${index + 1}. ${name}: ${count} play(s)`)
+          .join("\n");
 
-        if (!seedTracks && !seedArtists && !seedGenres) {
-          throw new Error("At least one seed (tracks, artists, or genres) must be provided");
-        }
+      const shown = groupBy === "none" ? Math.min(limit, plays.length) : null;
 
-        const params = new URLSearchParams();
+      return {
+        content: [
+          {
+            type: "text",
+            text: `${plays.length} play(s)${description ? ` (${description})` : ""}, ${formatDuration(listeningTimeMs(plays))} listened. Times are in UTC.
 
-        if (limit) params.append("limit", limit.toString());
-        if (seedTracks) params.append("seed_tracks", seedTracks.join(","));
-        if (seedArtists) params.append("seed_artists", seedArtists.join(","));
-        if (seedGenres) params.append("seed_genres", seedGenres.join(","));
+${formatted}${shown !== null && shown < plays.length ? `\n\nShowing the latest ${shown} plays. Narrow the range or raise limit to see more.` : ""}${syncNote}`,
+          },
+        ],
+      };
+    }
 
-        const recommendations = await spotifyApiRequest(`/recommendations?${params}`);
+    if (name === "import-streaming-history") {
+      const { paths, minSecondsPlayed } = await ImportStreamingHistorySchema.parseAsync(args);
 
-        const formattedRecommendations = recommendations.tracks
-          .map(
-            (track: any) => `
-Track: ${track.name}
-Artist: ${track.artists.map((a: any) => a.name).join(", ")}
-Album: ${track.album.name}
-ID: ${track.id}
-Duration: ${Math.floor(track.duration_ms / 1000 / 60)}:${(
-                Math.floor(track.duration_ms / 1000) % 60
-              )
-                .toString()
-                .padStart(2, "0")}
-URL: ${track.external_urls.spotify}
----`
-          )
-          .join("\n");
+      const files = findStreamingHistoryFiles(paths.map((inputPath) => resolveInsideDirectory(IMPORT_DIR, inputPath)));
+      if (files.length === 0) {
+        throw new ValidationError("No streaming history files found. Point paths at the JSON files of the export or the folder containing them");
+      }
 
-        return {
-          content: [
-            {
-              type: "text",
-              text: recommendations.tracks.length > 0
-                ? `Recommended tracks:\n${formattedRecommendations}`
-                : "No recommendations found.",
-            },
-          ],
-        };
+      let added = 0;
+      let duplicates = 0;
+      let skipped = 0;
+      for (const file of files) {
+        const parsed = readStreamingHistoryFile(file, minSecondsPlayed * 1000);
+        const result = historyStore().add(parsed.entries);
+        added += result.added;
+        duplicates += result.duplicates;
+        skipped += parsed.skipped;
       }
 
-      if (name === "get-top-tracks") {
-        const { limit, offset, time_range } = GetTopTracksSchema.parse(args);
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Imported ${added} play(s) from ${files.length} file(s) into the history of profile "${profiles.activeName}". ${duplicates} were already in the history (recorded or imported before) and ${skipped} were skipped as shorter than ${minSecondsPlayed} seconds or unreadable.`,
+          },
+        ],
+      };
+    }
 
-        const params = new URLSearchParams();
-        params.append("limit", limit.toString());
-        params.append("offset", offset.toString());
-        params.append("time_range", time_range);
+    if (name === "get-saved-tracks") {
+      const { limit, offset, fetchAll, maxItems } = await GetSavedItemsSchema.parseAsync(args);
 
-        const topTracks = await spotifyApiRequest(`/me/top/tracks?${params}`);
+      const savedTracks = await fetchListing(
+        { fetchAll, maxItems },
+        () => spotify.getSavedTracks(limit, offset),
+        () => spotify.savedTrackPages(offset)
+      );
 
-        const formattedTracks = topTracks.items
-          .map(
-            (track: any) => `
-Track: ${track.name}
-Artist: ${track.artists.map((a: any) => a.name).join(", ")}
-Album: ${track.album.name}
-ID: ${track.id}
-Duration: ${Math.floor(track.duration_ms / 1000 / 60)}:${(
-                Math.floor(track.duration_ms / 1000) % 60
-              )
-                .toString()
-                .padStart(2, "0")}
-URL: ${track.external_urls.spotify}
----`
-          )
-          .join("\n");
+      const formattedTracks = savedTracks.items
+        .map(({ track, added_at }, index) => `${offset + index + 1}. ${formatPlayable(track)}
+   Saved: ${added_at.slice(0, 10)}`)
+        .join("\n");
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: savedTracks.items.length > 0
+              ? `Your saved tracks:\n${describeListing(savedTracks, offset, "tracks")}\n\n${formattedTracks}`
+              : "No saved tracks found.",
+          },
+        ],
+      };
+    }
+
+    if (name === "save-tracks") {
+      const { trackIds } = await SavedTracksSchema.parseAsync(args);
+
+      await spotify.saveTracks(trackIds);
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Saved ${trackIds.length} track(s) to your library.`,
+          },
+        ],
+      };
+    }
+
+    if (name === "remove-saved-tracks") {
+      const { trackIds } = await SavedTracksSchema.parseAsync(args);
+
+      await spotify.removeSavedTracks(trackIds);
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Removed ${trackIds.length} track(s) from your library.`,
+          },
+        ],
+      };
+    }
+
+    if (name === "check-saved-tracks") {
+      const { trackIds } = await SavedTracksSchema.parseAsync(args);
+
+      const saved = await spotify.checkSavedTracks(trackIds);
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: trackIds
+              .map((trackId, index) => `${trackId}: ${saved[index] ? "saved" : "not saved"}`)
+              .join("\n"),
+          },
+        ],
+      };
+    }
+
+    if (name === "get-saved-albums") {
+      const { limit, offset, fetchAll, maxItems } = await GetSavedItemsSchema.parseAsync(args);
+
+      const savedAlbums = await fetchListing(
+        { fetchAll, maxItems },
+        () => spotify.getSavedAlbums(limit, offset),
+        () => spotify.savedAlbumPages(offset)
+      );
+
+      const formattedAlbums = savedAlbums.items
+        .map(({ album, added_at }, index) => `${offset + index + 1}. ${album.name} - ${album.artists.map((a: SpotifyArtist) => a.name).join(", ")} (${album.release_date.slice(0, 4)}, ${album.total_tracks} tracks)
+   ID: ${album.id}
+   Saved: ${added_at.slice(0, 10)}`)
+        .join("\n");
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: savedAlbums.items.length > 0
+              ? `Your saved albums:\n${describeListing(savedAlbums, offset, "albums")}\n\n${formattedAlbums}`
+              : "No saved albums found.",
+          },
+        ],
+      };
+    }
+
+    if (name === "save-albums") {
+      const { albumIds } = await SaveAlbumsSchema.parseAsync(args);
+
+      await spotify.saveAlbums(albumIds);
 
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Saved ${albumIds.length} album(s) to your library.`,
+          },
+        ],
+      };
+    }
+
+    if (name === "get-followed-artists") {
+      const { limit, after, fetchAll, maxItems } = await GetFollowedArtistsSchema.parseAsync(args);
+
+      // The endpoint pages with an artist ID cursor instead of an offset
+      let artists: SpotifyArtist[];
+      let total: number | undefined;
+      let nextCursor: string | null | undefined;
+      if (fetchAll) {
+        const listing = await collectItems(spotify.followedArtistPages(after), maxItems);
+        artists = listing.items;
+        total = listing.total;
+        nextCursor = listing.truncated ? artists[artists.length - 1]?.id : null;
+      } else {
+        const page = await spotify.getFollowedArtists(limit, after);
+        artists = page.items;
+        total = page.total;
+        nextCursor = page.next ? page.cursors?.after : null;
+      }
+
+      if (artists.length === 0) {
         return {
           content: [
             {
               type: "text",
-              text: topTracks.items.length > 0
-                ? `Your top tracks:\n${formattedTracks}`
-                : "No top tracks found for the specified time range.",
+              text: after ? "No more followed artists." : "You don't follow any artists yet.",
             },
           ],
         };
       }
 
-      throw new Error(`Unknown tool: ${name}`);
-    } catch (error) {
-      if (error instanceof z.ZodError) {
-        throw new Error(
-          `Invalid arguments: ${error.errors
-            .map((e) => `${e.path.join(".")}: ${e.message}`)
-            .join(", ")}`
-        );
-      }
-      throw error;
+      const formattedArtists = artists
+        .map((artist) => `${artist.name}${artist.genres?.length ? ` (${artist.genres.slice(0, 3).join(", ")})` : ""}
+   ID: ${artist.id}`)
+        .join("\n");
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Artists you follow (${artists.length}${total !== undefined ? ` of ${total}` : ""}):\n\n${formattedArtists}${nextCursor ? `\n\nMore artists are available. Call again with after="${nextCursor}" to see them.` : ""}`,
+          },
+        ],
+      };
+    }
+
+    throw new Error(`Unknown tool: ${name}`);
+  } catch (error) {
+    // Tokens that predate scope tracking only find out from Spotify's answer
+    if (error instanceof InsufficientScopeError) {
+      const missing = missingScopes(name, profiles.activeStore().getGrantedScopes());
+      return reauthorizationResult(name, missing.length > 0 ? missing : requiredScopes(name));
     }
+    if (error instanceof z.ZodError) {
+      throw new Error(
+        `Invalid arguments: ${error.errors
+          .map((e) => `${e.path.join(".")}: ${e.message}`)
+          .join(", ")}`
+      );
+    }
+    throw error;
   }
-);
+}
+
+/**
+ * Serves MCP over streamable HTTP
+ * 
+ * The MCP endpoint is mounted on the same Express app as /login and /callback,
+ * so the OAuth callback is handled by this server as well.
+ */
+async function startHttpServer(): Promise<void> {
+  mcpEndpoint = new McpHttpEndpoint({
+    createServer,
+    authToken: SERVER.MCP_AUTH_TOKEN,
+  });
+  mcpEndpoint.mount(app);
+
+  await new Promise<void>((resolve, reject) => {
+    authServer = app.listen(PORT, SERVER.HTTP_HOST, () => resolve());
+    authServer.once('error', reject);
+  });
+
+  console.error(`Spotify MCP Server listening at http://${SERVER.HTTP_HOST}:${PORT}${mcpEndpoint.path}`);
+  if (!SERVER.MCP_AUTH_TOKEN) {
+    console.error("MCP_AUTH_TOKEN is not set, the MCP endpoint accepts unauthenticated requests");
+  }
+}
 
 /**
  * Main application entry point
  * 
- * Initializes the MCP server and connects it to the stdio transport.
- * This allows the MCP server to communicate with Claude Desktop.
+ * Initializes the MCP server and connects it to the stdio transport, which
+ * allows the MCP server to communicate with Claude Desktop, or serves it over
+ * HTTP when the http transport is selected.
  */
 async function main() {
-  const transport = new StdioServerTransport();
+  let command: CliCommand | null;
+  try {
+    command = parseCommand(process.argv.slice(2));
+  } catch (error: any) {
+    console.error(error.message);
+    process.exit(2);
+  }
+
+  if (command) {
+    try {
+      await runCommand(command);
+    } catch (error: any) {
+      console.error(`${command.command} failed: ${error.message}`);
+      process.exit(1);
+    }
+    // Exit rather than wait on timers set up for the server
+    process.exit(0);
+  }
 
   try {
-    await server.connect(transport);
-    console.error("Spotify MCP Server running on stdio");
+    if (HISTORY.RECORD) {
+      historyRecorder.start();
+      console.error(`Recording listening history every ${Math.round(HISTORY.POLL_INTERVAL_MS / 60000)} minutes`);
+    }
+
+    if (SERVER.TRANSPORT === "http") {
+      await startHttpServer();
+    } else {
+      await createServer().connect(new StdioServerTransport());
+      console.error("Spotify MCP Server running on stdio");
+    }
 
     // Set up clean shutdown handlers
     setupCleanupHandlers();
@@ -1877,6 +4041,32 @@ async function main() {
   }
 }
 
+/**
+ * Runs a command line subcommand instead of the server
+ *
+ * The subcommand uses the stored authorization of the active profile; run the
+ * server and auth-spotify first when there is none.
+ */
+async function runCommand(command: CliCommand) {
+  if (!profiles.activeStore().getStatus().authenticated) {
+    console.error(`Not authenticated with Spotify (profile "${profiles.activeName}"). Start the server and use auth-spotify first.\n\n${USAGE}`);
+    process.exit(1);
+  }
+
+  const playlist = await resolveSpotifyReference(command.playlist, { defaultType: "playlist", allowedTypes: ["playlist"] });
+  const { data, contents } = await exportPlaylist(playlist.id, command.format);
+
+  if (command.output) {
+    const written = writePlaylistExport(command.output, contents);
+    console.error(`Exported ${data.tracks.length} track(s) of "${data.playlist.name}" to ${written}`);
+  } else {
+    process.stdout.write(contents);
+  }
+  if (data.skipped > 0) {
+    console.error(`${data.skipped} item(s) that are not tracks were left out`);
+  }
+}
+
 /**
  * Sets up handlers for graceful shutdown and debug signals
  * 
@@ -1900,14 +4090,15 @@ function setupCleanupHandlers() {
   process.on('SIGUSR1', () => {
     console.error('SIGUSR1 received - Forcing token reload');
 
-    const loaded = loadTokens();
+    const tokenStore = profiles.activeStore();
+    const loaded = tokenStore.load();
     console.error(`Token reload result: ${loaded ? 'SUCCESS' : 'FAILED'}`);
 
-    console.error(`Current token state:
-      accessToken: ${accessToken ? '***exists***' : 'null'}
-      refreshToken: ${refreshToken ? '***exists***' : 'null'}
-      tokenExpirationTime: ${tokenExpirationTime}
-      ${tokenExpirationTime > 0 ? `(expires: ${new Date(tokenExpirationTime).toISOString()})` : ''}
+    const { authenticated, expiresAt } = tokenStore.getStatus();
+    console.error(`Current token state (profile "${profiles.activeName}"):
+      authenticated: ${authenticated}
+      tokenExpirationTime: ${expiresAt}
+      ${expiresAt > 0 ? `(expires: ${new Date(expiresAt).toISOString()})` : ''}
     `);
   });
 }
@@ -1916,6 +4107,14 @@ function setupCleanupHandlers() {
  * Performs cleanup tasks before exiting
  */
 function cleanup() {
+  historyRecorder.stop();
+
+  if (mcpEndpoint) {
+    console.error('Closing MCP sessions');
+    mcpEndpoint.closeAll();
+    mcpEndpoint = null;
+  }
+
   if (authServer) {
     console.error('Closing auth server');
     authServer.close();
@@ -0,0 +1,399 @@
+/**
+ * Local listening history
+ *
+ * This file defines the ListeningHistoryStore, a JSONL file of plays kept
+ * next to the tokens, along with the conversions that feed it (recently
+ * played items and Spotify's streaming history exports) and the filters and
+ * counts used by query-listening-history. Spotify only returns the last 50
+ * plays, so this history is what makes older plays queryable.
+ */
+import fs from "fs";
+import path from "path";
+import { ValidationError } from "./errors.js";
+import { BreakdownEntry, countValues } from "./listening-summary.js";
+import type { SpotifyPlayHistory } from "./types.js";
+
+const FILE_MODE = 0o600;
+const DIR_MODE = 0o700;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Plays shorter than this are not counted as streams by Spotify
+ */
+export const DEFAULT_MIN_MS_PLAYED = 30000;
+
+export type HistorySource = "recently-played" | "streaming-history";
+
+/**
+ * One play as stored in the history file
+ */
+export interface HistoryEntry {
+  // ISO timestamp of the play
+  playedAt: string;
+  uri: string | null;
+  track: string;
+  artists: string[];
+  album: string | null;
+  // How long the item was played, when known (streaming history only)
+  msPlayed: number | null;
+  durationMs: number | null;
+  source: HistorySource;
+}
+
+export interface HistoryQuery {
+  from?: Date;
+  to?: Date;
+  artist?: string;
+  track?: string;
+}
+
+export type HistoryGrouping = "artist" | "track" | "day";
+
+function entryKey(entry: HistoryEntry): string {
+  return `${entry.playedAt}|${entry.uri ?? `${entry.track}|${entry.artists.join(",")}`}`;
+}
+
+/**
+ * Key shared by the plays of a song in both sources; the account data export
+ * has no URIs and only names the main artist
+ */
+function songKey(entry: HistoryEntry): string {
+  return `${entry.track.toLowerCase()}|${(entry.artists[0] ?? "").toLowerCase()}`;
+}
+
+/**
+ * When a play started, in milliseconds
+ *
+ * Recently played items are timed by `played_at`, while streaming history
+ * records are timed by `ts`, when playback stopped.
+ */
+function playStart(entry: HistoryEntry): number {
+  const time = new Date(entry.playedAt).getTime();
+  return entry.source === "streaming-history" ? time - (entry.msPlayed ?? 0) : time;
+}
+
+/**
+ * How far apart two plays of a song from different sources are, or null if
+ * they are too far apart to be the same play
+ *
+ * Start times are only estimates, so plays up to the length of the track
+ * apart are taken as the same play.
+ */
+function samePlayDistance(a: HistoryEntry, b: HistoryEntry): number | null {
+  if (a.source === b.source || (a.uri && b.uri && a.uri !== b.uri)) {
+    return null;
+  }
+  const toleranceMs = Math.max(a.durationMs ?? 0, a.msPlayed ?? 0, b.durationMs ?? 0, b.msPlayed ?? 0);
+  const distance = Math.abs(playStart(a) - playStart(b));
+  return distance <= toleranceMs ? distance : null;
+}
+
+/**
+ * Converts a recently played item into a history entry
+ */
+export function fromPlayHistory(play: SpotifyPlayHistory): HistoryEntry {
+  return {
+    playedAt: new Date(play.played_at).toISOString(),
+    uri: play.track.uri ?? `spotify:track:${play.track.id}`,
+    track: play.track.name,
+    artists: play.track.artists.map((artist) => artist.name),
+    album: play.track.album?.name ?? null,
+    msPlayed: null,
+    durationMs: play.track.duration_ms,
+    source: "recently-played",
+  };
+}
+
+/**
+ * Converts the entries of a streaming history export into history entries
+ *
+ * Handles both the extended streaming history (Streaming_History_Audio_*.json,
+ * with `ts` and `master_metadata_*` fields) and the shorter account data export
+ * (StreamingHistory*.json, with `endTime`, `artistName` and `trackName`).
+ *
+ * @param {unknown} data - Parsed contents of an export file
+ * @param {number} minMsPlayed - Plays shorter than this are skipped
+ * @returns The entries, and how many records were skipped as too short or unusable
+ * @throws {ValidationError} If the data is not a streaming history export
+ */
+export function parseStreamingHistory(data: unknown, minMsPlayed: number = DEFAULT_MIN_MS_PLAYED): { entries: HistoryEntry[]; skipped: number } {
+  if (!Array.isArray(data)) {
+    throw new ValidationError("A streaming history file must contain a JSON array of plays");
+  }
+
+  const entries: HistoryEntry[] = [];
+  let skipped = 0;
+
+  for (const record of data) {
+    const entry = record && typeof record === "object" ? parseStreamingRecord(record) : null;
+
+    if (!entry || (entry.msPlayed ?? 0) < minMsPlayed) {
+      skipped++;
+      continue;
+    }
+    entries.push(entry);
+  }
+
+  return { entries, skipped };
+}
+
+function parseStreamingRecord(record: Record<string, any>): HistoryEntry | null {
+  if (typeof record.ts === "string") {
+    const isEpisode = !record.master_metadata_track_name && typeof record.episode_name === "string";
+    const track = isEpisode ? record.episode_name : record.master_metadata_track_name;
+    const artist = isEpisode ? record.episode_show_name : record.master_metadata_album_artist_name;
+    const playedAt = new Date(record.ts);
+
+    if (typeof track !== "string" || isNaN(playedAt.getTime())) {
+      return null;
+    }
+
+    return {
+      playedAt: playedAt.toISOString(),
+      uri: (isEpisode ? record.spotify_episode_uri : record.spotify_track_uri) || null,
+      track,
+      artists: typeof artist === "string" ? [artist] : [],
+      album: isEpisode ? null : record.master_metadata_album_album_name || null,
+      msPlayed: typeof record.ms_played === "number" ? record.ms_played : null,
+      durationMs: null,
+      source: "streaming-history",
+    };
+  }
+
+  if (typeof record.endTime === "string" && typeof record.trackName === "string") {
+    // "2023-01-31 18:04" in UTC
+    const playedAt = new Date(`${record.endTime.replace(" ", "T")}Z`);
+    if (isNaN(playedAt.getTime())) {
+      return null;
+    }
+
+    return {
+      playedAt: playedAt.toISOString(),
+      uri: null,
+      track: record.trackName,
+      artists: typeof record.artistName === "string" ? [record.artistName] : [],
+      album: null,
+      msPlayed: typeof record.msPlayed === "number" ? record.msPlayed : null,
+      durationMs: null,
+      source: "streaming-history",
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Reads and parses one file of a streaming history export
+ *
+ * @throws {ValidationError} If the file is not valid JSON or not a streaming history export
+ */
+export function readStreamingHistoryFile(filePath: string, minMsPlayed: number = DEFAULT_MIN_MS_PLAYED): { entries: HistoryEntry[]; skipped: number } {
+  let data: unknown;
+  try {
+    data = JSON.parse(fs.readFileSync(filePath, "utf-8"));
+  } catch (error: any) {
+    throw new ValidationError(`Could not read ${filePath}: ${error.message}`);
+  }
+  return parseStreamingHistory(data, minMsPlayed);
+}
+
+/**
+ * Lists the export files to import from a list of files and directories
+ *
+ * Directories are searched for the JSON files of a streaming history export;
+ * files given directly are always included.
+ */
+export function findStreamingHistoryFiles(paths: string[]): string[] {
+  return paths.flatMap((inputPath) => {
+    if (!fs.existsSync(inputPath)) {
+      throw new ValidationError(`File not found: ${inputPath}`);
+    }
+    if (!fs.statSync(inputPath).isDirectory()) {
+      return [inputPath];
+    }
+    return fs.readdirSync(inputPath)
+      .filter((file) => /^(Streaming_History|StreamingHistory).*\.json$/i.test(file))
+      .sort()
+      .map((file) => path.join(inputPath, file));
+  });
+}
+
+/**
+ * Parses the bound of a date range
+ *
+ * Accepts dates ("2026-10-12"), ISO timestamps and durations before now
+ * ("7d", "12h"). A date used as the end of a range includes the whole day.
+ *
+ * @throws {ValidationError} If the input is not a date
+ */
+export function parseDateBound(input: string, bound: "from" | "to", now: number = Date.now()): Date {
+  const value = input.trim();
+
+  const relative = /^(\d+)\s*([dhw])$/i.exec(value);
+  if (relative) {
+    const unitMs = { h: 60 * 60 * 1000, d: DAY_MS, w: 7 * DAY_MS }[relative[2].toLowerCase() as "h" | "d" | "w"];
+    return new Date(now - parseInt(relative[1]) * unitMs);
+  }
+
+  const date = new Date(/^\d{4}-\d{2}-\d{2}$/.test(value) ? `${value}T00:00:00Z` : value);
+  if (isNaN(date.getTime())) {
+    throw new ValidationError(`Invalid date "${input}". Use a date like "2026-10-12", a timestamp or a duration like "7d"`);
+  }
+
+  return /^\d{4}-\d{2}-\d{2}$/.test(value) && bound === "to" ? new Date(date.getTime() + DAY_MS) : date;
+}
+
+/**
+ * Returns the plays matching a query, most recent first
+ *
+ * Artist and track filters match case-insensitively on part of the name.
+ */
+export function filterHistory(entries: HistoryEntry[], query: HistoryQuery): HistoryEntry[] {
+  const artist = query.artist?.toLowerCase();
+  const track = query.track?.toLowerCase();
+  const from = query.from?.toISOString();
+  const to = query.to?.toISOString();
+
+  return entries
+    .filter((entry) =>
+      (!from || entry.playedAt >= from) &&
+      (!to || entry.playedAt < to) &&
+      (!artist || entry.artists.some((name) => name.toLowerCase().includes(artist))) &&
+      (!track || entry.track.toLowerCase().includes(track))
+    )
+    .sort((a, b) => b.playedAt.localeCompare(a.playedAt));
+}
+
+/**
+ * Counts plays per artist, track or day (UTC)
+ */
+export function countHistory(entries: HistoryEntry[], grouping: HistoryGrouping): BreakdownEntry[] {
+  if (grouping === "artist") {
+    return countValues(entries.flatMap((entry) => entry.artists));
+  }
+  if (grouping === "track") {
+    return countValues(entries.map((entry) => `${entry.track} - ${entry.artists.join(", ") || "Unknown artist"}`));
+  }
+  return countValues(entries.map((entry) => entry.playedAt.slice(0, 10)));
+}
+
+/**
+ * Total listening time of the plays, using the track length when the played time is unknown
+ */
+export function listeningTimeMs(entries: HistoryEntry[]): number {
+  return entries.reduce((total, entry) => total + (entry.msPlayed ?? entry.durationMs ?? 0), 0);
+}
+
+/**
+ * Stores plays in a JSONL file, one play per line, without duplicates
+ *
+ * A play recorded from the recently played items and also found in an
+ * imported streaming history is kept once, as whichever was stored first.
+ */
+export class ListeningHistoryStore {
+  private entries: HistoryEntry[] | null = null;
+  private readonly keys = new Set<string>();
+  private readonly songs = new Map<string, HistoryEntry[]>();
+  // Stored plays already matched with a play from the other source
+  private readonly matched = new Set<HistoryEntry>();
+
+  constructor(readonly filePath: string) {}
+
+  /**
+   * All stored plays, in the order they were added
+   */
+  all(): HistoryEntry[] {
+    if (!this.entries) {
+      this.entries = this.read();
+      this.entries.forEach((entry) => this.index(entry));
+    }
+    return this.entries;
+  }
+
+  private index(entry: HistoryEntry) {
+    this.keys.add(entryKey(entry));
+    const key = songKey(entry);
+    this.songs.set(key, [...(this.songs.get(key) ?? []), entry]);
+  }
+
+  /**
+   * Finds the stored play from the other source closest in time to a play, if any is the same play
+   */
+  private findSamePlay(entry: HistoryEntry): HistoryEntry | null {
+    let closest: { entry: HistoryEntry; distance: number } | null = null;
+    for (const candidate of this.songs.get(songKey(entry)) ?? []) {
+      const distance = this.matched.has(candidate) ? null : samePlayDistance(entry, candidate);
+      if (distance !== null && (!closest || distance < closest.distance)) {
+        closest = { entry: candidate, distance };
+      }
+    }
+    return closest?.entry ?? null;
+  }
+
+  /**
+   * Adds plays that are not stored yet and appends them to the file
+   *
+   * @returns How many plays were added, and how many were already stored
+   */
+  add(entries: HistoryEntry[]): { added: number; duplicates: number } {
+    const stored = this.all();
+    const added: HistoryEntry[] = [];
+
+    for (const entry of entries) {
+      if (this.keys.has(entryKey(entry))) {
+        continue;
+      }
+      const samePlay = this.findSamePlay(entry);
+      if (samePlay) {
+        this.matched.add(samePlay);
+        continue;
+      }
+      this.index(entry);
+      added.push(entry);
+    }
+
+    if (added.length > 0) {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true, mode: DIR_MODE });
+      fs.appendFileSync(this.filePath, added.map((entry) => `${JSON.stringify(entry)}\n`).join(""), { mode: FILE_MODE });
+      stored.push(...added);
+    }
+
+    return { added: added.length, duplicates: entries.length - added.length };
+  }
+
+  /**
+   * Time of the most recent play from a source, in milliseconds, or null if there is none
+   */
+  latestPlayedAt(source: HistorySource): number | null {
+    const latest = this.all()
+      .filter((entry) => entry.source === source)
+      .reduce<string | null>((max, entry) => (!max || entry.playedAt > max ? entry.playedAt : max), null);
+    return latest ? new Date(latest).getTime() : null;
+  }
+
+  private read(): HistoryEntry[] {
+    if (!fs.existsSync(this.filePath)) {
+      return [];
+    }
+
+    const entries: HistoryEntry[] = [];
+    let invalid = 0;
+
+    for (const line of fs.readFileSync(this.filePath, "utf-8").split("\n")) {
+      if (!line.trim()) {
+        continue;
+      }
+      try {
+        entries.push(JSON.parse(line));
+      } catch {
+        invalid++;
+      }
+    }
+
+    if (invalid > 0) {
+      console.error(`Ignored ${invalid} unreadable line(s) in ${this.filePath}`);
+    }
+    return entries;
+  }
+}
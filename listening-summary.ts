@@ -0,0 +1,184 @@
+/**
+ * Listening history analytics
+ *
+ * This file turns top tracks, top artists and recent plays into per-genre,
+ * per-artist and per-decade breakdowns for each time range, compares the
+ * short-term breakdown with the long-term one, and formats the result for
+ * the listening-summary tool. It only works on data already fetched, so it
+ * makes no requests itself.
+ */
+import type { TimeRange } from "./spotify-client.js";
+import type { SpotifyArtist, SpotifyPlayHistory, SpotifyTrack } from "./types.js";
+
+export const TIME_RANGES: TimeRange[] = ["short_term", "medium_term", "long_term"];
+
+const TIME_RANGE_LABELS: Record<TimeRange, string> = {
+  short_term: "Last 4 weeks",
+  medium_term: "Last 6 months",
+  long_term: "Several years",
+};
+
+/**
+ * A value in a breakdown with how often it occurs
+ */
+export interface BreakdownEntry {
+  name: string;
+  count: number;
+  // Share of all counted values, from 0 to 1
+  share: number;
+}
+
+/**
+ * Breakdowns of the top tracks and artists of one time range
+ */
+export interface TasteBreakdown {
+  genres: BreakdownEntry[];
+  artists: BreakdownEntry[];
+  decades: BreakdownEntry[];
+}
+
+/**
+ * How the short-term breakdown differs from the long-term one
+ */
+export interface TasteComparison {
+  newArtists: string[];
+  fadingArtists: string[];
+  steadyArtists: string[];
+  // Genres whose share changed the most, with the change in percentage points
+  risingGenres: { name: string; change: number }[];
+  fallingGenres: { name: string; change: number }[];
+}
+
+export interface ListeningData {
+  topTracks: Record<TimeRange, SpotifyTrack[]>;
+  topArtists: Record<TimeRange, SpotifyArtist[]>;
+  recentlyPlayed: SpotifyPlayHistory[];
+}
+
+/**
+ * Counts the values and sorts them by count, then by first occurrence
+ */
+export function countValues(values: string[]): BreakdownEntry[] {
+  const counts = new Map<string, number>();
+  for (const value of values) {
+    counts.set(value, (counts.get(value) ?? 0) + 1);
+  }
+
+  return Array.from(counts, ([name, count]) => ({ name, count, share: count / values.length }))
+    .sort((a, b) => b.count - a.count);
+}
+
+/**
+ * Decade of a release date such as "1994-05-02", "1994" or "0000"
+ */
+export function releaseDecade(releaseDate: string): string | null {
+  const year = parseInt(releaseDate.slice(0, 4));
+  return year > 0 ? `${Math.floor(year / 10) * 10}s` : null;
+}
+
+/**
+ * Builds the breakdowns of one time range
+ *
+ * Genres come from the top artists, as Spotify only assigns genres to
+ * artists. Artists and decades come from the top tracks.
+ */
+export function breakdownTaste(tracks: SpotifyTrack[], artists: SpotifyArtist[]): TasteBreakdown {
+  return {
+    genres: countValues(artists.flatMap((artist) => artist.genres ?? [])),
+    artists: countValues(tracks.flatMap((track) => track.artists.map((artist) => artist.name))),
+    decades: countValues(
+      tracks
+        .map((track) => releaseDecade(track.album.release_date))
+        .filter((decade): decade is string => decade !== null)
+    ),
+  };
+}
+
+/**
+ * Compares short-term top artists and genres with long-term ones
+ */
+export function compareTaste(
+  shortTerm: { artists: SpotifyArtist[]; breakdown: TasteBreakdown },
+  longTerm: { artists: SpotifyArtist[]; breakdown: TasteBreakdown }
+): TasteComparison {
+  const shortNames = shortTerm.artists.map((artist) => artist.name);
+  const longNames = longTerm.artists.map((artist) => artist.name);
+
+  const shares = (breakdown: TasteBreakdown) =>
+    new Map(breakdown.genres.map((genre) => [genre.name, genre.share]));
+  const shortShares = shares(shortTerm.breakdown);
+  const longShares = shares(longTerm.breakdown);
+
+  const changes = Array.from(new Set([...shortShares.keys(), ...longShares.keys()]))
+    .map((name) => ({
+      name,
+      change: Math.round(((shortShares.get(name) ?? 0) - (longShares.get(name) ?? 0)) * 100),
+    }))
+    .filter(({ change }) => change !== 0);
+
+  return {
+    newArtists: shortNames.filter((name) => !longNames.includes(name)),
+    fadingArtists: longNames.filter((name) => !shortNames.includes(name)),
+    steadyArtists: shortNames.filter((name) => longNames.includes(name)),
+    risingGenres: changes.filter(({ change }) => change > 0).sort((a, b) => b.change - a.change),
+    fallingGenres: changes.filter(({ change }) => change < 0).sort((a, b) => a.change - b.change),
+  };
+}
+
+function formatEntries(entries: BreakdownEntry[], top: number): string {
+  return entries.length > 0
+    ? entries.slice(0, top).map(({ name, count, share }) => `${name} (${count}, ${Math.round(share * 100)}%)`).join(", ")
+    : "None";
+}
+
+function formatNames(names: string[], top: number): string {
+  return names.length > 0 ? names.slice(0, top).join(", ") : "None";
+}
+
+function formatChanges(changes: { name: string; change: number }[], top: number): string {
+  return changes.length > 0
+    ? changes.slice(0, top).map(({ name, change }) => `${name} (${change > 0 ? "+" : ""}${change} pts)`).join(", ")
+    : "None";
+}
+
+/**
+ * Formats the listening summary shown by the listening-summary tool
+ *
+ * @param {ListeningData} data - Top tracks and artists per time range, and recent plays
+ * @param {number} top - Number of entries to show per breakdown
+ * @returns {string} The summary as text
+ */
+export function formatListeningSummary(data: ListeningData, top: number): string {
+  const breakdowns = Object.fromEntries(
+    TIME_RANGES.map((range) => [range, breakdownTaste(data.topTracks[range], data.topArtists[range])])
+  ) as Record<TimeRange, TasteBreakdown>;
+
+  const sections = TIME_RANGES.map((range) => `== ${TIME_RANGE_LABELS[range]} (${range}) ==
+Top artists: ${formatNames(data.topArtists[range].map((artist) => artist.name), top)}
+Genres: ${formatEntries(breakdowns[range].genres, top)}
+Artists in top tracks: ${formatEntries(breakdowns[range].artists, top)}
+Decades: ${formatEntries(breakdowns[range].decades, top)}`);
+
+  const recentTracks = data.recentlyPlayed.map((play) => play.track);
+  const recent = breakdownTaste(recentTracks, []);
+  sections.push(`== Recently played (last ${recentTracks.length} plays) ==
+Artists: ${formatEntries(recent.artists, top)}
+Decades: ${formatEntries(recent.decades, top)}`);
+
+  const comparison = compareTaste(
+    { artists: data.topArtists.short_term, breakdown: breakdowns.short_term },
+    { artists: data.topArtists.long_term, breakdown: breakdowns.long_term }
+  );
+  const shortDecade = breakdowns.short_term.decades[0]?.name;
+  const longDecade = breakdowns.long_term.decades[0]?.name;
+
+  sections.push(`== Short term compared to long term ==
+New in your rotation: ${formatNames(comparison.newArtists, top)}
+Long-term favorites you play less: ${formatNames(comparison.fadingArtists, top)}
+Constants: ${formatNames(comparison.steadyArtists, top)}
+Rising genres: ${formatChanges(comparison.risingGenres, top)}
+Falling genres: ${formatChanges(comparison.fallingGenres, top)}
+Most played decade: ${shortDecade ?? "Unknown"} now, ${longDecade ?? "Unknown"} over the long term`);
+
+  return `Listening summary\n\n${sections.join("\n\n")}`;
+}
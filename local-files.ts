@@ -0,0 +1,32 @@
+/**
+ * Local file locations
+ *
+ * Tools that read or write files (export-playlist, import-playlist,
+ * import-streaming-history) can be called by remote clients over the HTTP
+ * transport, so the paths they take are confined to a directory under
+ * ~/.spotify-mcp instead of reaching anywhere the server can.
+ */
+import path from "path";
+import { ValidationError } from "./errors.js";
+
+/**
+ * Resolves a path given by a tool caller inside a directory
+ *
+ * @param {string} directory - The directory the path must stay in
+ * @param {string} relativePath - Path relative to the directory
+ * @returns {string} The absolute path
+ * @throws {ValidationError} If the path is absolute, has ".." segments or resolves outside the directory
+ */
+export function resolveInsideDirectory(directory: string, relativePath: string): string {
+  const segments = relativePath.split(/[\\/]/);
+  if (path.isAbsolute(relativePath) || path.win32.isAbsolute(relativePath) || segments.includes("..")) {
+    throw new ValidationError(`"${relativePath}" must be a path relative to ${directory}, without ".." segments`);
+  }
+
+  const base = path.resolve(directory);
+  const resolved = path.resolve(base, relativePath);
+  if (resolved === base || !resolved.startsWith(base + path.sep)) {
+    throw new ValidationError(`"${relativePath}" is outside ${directory}`);
+  }
+  return resolved;
+}
@@ -0,0 +1,73 @@
+/**
+ * PKCE helpers for the Authorization Code flow
+ *
+ * This file implements the code verifier/challenge pair described in
+ * RFC 7636 and the random `state` value used to protect the callback.
+ * PKCE lets the server authenticate without a client secret.
+ */
+import crypto from "crypto";
+
+/**
+ * Parameters of a single pending authorization request
+ */
+export interface AuthorizationRequest {
+  state: string;
+  codeVerifier?: string;
+  codeChallenge?: string;
+}
+
+/**
+ * Encodes a buffer as base64url without padding
+ */
+function base64UrlEncode(buffer: Buffer): string {
+  return buffer
+    .toString("base64")
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+/**
+ * Generates a random code verifier (43-128 characters from the unreserved set)
+ */
+export function generateCodeVerifier(): string {
+  return base64UrlEncode(crypto.randomBytes(64));
+}
+
+/**
+ * Derives the S256 code challenge for a code verifier
+ *
+ * @param {string} verifier - The code verifier sent on the token exchange
+ * @returns {string} The base64url encoded SHA-256 hash of the verifier
+ */
+export function generateCodeChallenge(verifier: string): string {
+  return base64UrlEncode(crypto.createHash("sha256").update(verifier).digest());
+}
+
+/**
+ * Generates an unguessable `state` value for the authorization request
+ */
+export function generateState(): string {
+  return base64UrlEncode(crypto.randomBytes(16));
+}
+
+/**
+ * Creates the parameters for a new authorization request
+ *
+ * @param {boolean} usePkce - Whether to include a code verifier and challenge
+ * @returns {AuthorizationRequest} The state and, with PKCE, the verifier/challenge pair
+ */
+export function createAuthorizationRequest(usePkce: boolean): AuthorizationRequest {
+  const state = generateState();
+
+  if (!usePkce) {
+    return { state };
+  }
+
+  const codeVerifier = generateCodeVerifier();
+  return {
+    state,
+    codeVerifier,
+    codeChallenge: generateCodeChallenge(codeVerifier),
+  };
+}
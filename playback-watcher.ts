@@ -0,0 +1,126 @@
+/**
+ * Playback watcher
+ *
+ * This file defines the PlaybackWatcher, which polls the current playback
+ * while at least one client is subscribed to it and emits an event when the
+ * current track changes. Spotify has no push API for playback, so polling is
+ * the only way to notice changes made from other devices.
+ */
+import { EventEmitter } from "events";
+import type { SpotifyPlayback } from "./types.js";
+
+export const DEFAULT_PLAYBACK_POLL_INTERVAL_MS = 5000;
+
+/**
+ * Events emitted by the PlaybackWatcher
+ */
+export interface PlaybackWatcherEvents {
+  trackChanged: [SpotifyPlayback | null];
+}
+
+export interface PlaybackWatcherOptions {
+  getPlayback: () => Promise<SpotifyPlayback | null>;
+  intervalMs?: number;
+}
+
+/**
+ * Identifies the current track of a playback state
+ */
+function trackKey(playback: SpotifyPlayback | null): string | null {
+  const item = playback?.item;
+  return item ? item.uri || item.id : null;
+}
+
+/**
+ * Polls the playback state while it has subscribers
+ */
+export class PlaybackWatcher extends EventEmitter<PlaybackWatcherEvents> {
+  private readonly getPlayback: () => Promise<SpotifyPlayback | null>;
+  private readonly intervalMs: number;
+  private subscribers = 0;
+  private timer: NodeJS.Timeout | null = null;
+  private polling = false;
+  // Undefined until the first successful poll
+  private currentTrack: string | null | undefined = undefined;
+  private lastError: string | null = null;
+
+  constructor(options: PlaybackWatcherOptions) {
+    super();
+    this.getPlayback = options.getPlayback;
+    this.intervalMs = options.intervalMs ?? DEFAULT_PLAYBACK_POLL_INTERVAL_MS;
+  }
+
+  /**
+   * Whether the watcher is currently polling
+   */
+  get active(): boolean {
+    return this.timer !== null;
+  }
+
+  /**
+   * Registers a subscriber, starting to poll on the first one
+   */
+  addSubscriber(): void {
+    this.subscribers++;
+    if (!this.timer) {
+      this.timer = setInterval(() => this.poll(), this.intervalMs);
+      this.timer.unref();
+      this.poll();
+    }
+  }
+
+  /**
+   * Unregisters a subscriber, stopping to poll after the last one
+   */
+  removeSubscriber(): void {
+    this.subscribers = Math.max(0, this.subscribers - 1);
+    if (this.subscribers === 0) {
+      this.stop();
+    }
+  }
+
+  /**
+   * Stops polling and forgets the current track
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    this.subscribers = 0;
+    this.currentTrack = undefined;
+  }
+
+  /**
+   * Fetches the playback once and emits trackChanged if the track differs
+   * from the previous poll. The first poll only records the current track.
+   */
+  async poll(): Promise<void> {
+    // Skip a tick rather than piling up requests when Spotify is slow
+    if (this.polling) {
+      return;
+    }
+    this.polling = true;
+
+    try {
+      const playback = await this.getPlayback();
+      const track = trackKey(playback);
+      this.lastError = null;
+
+      if (this.currentTrack !== undefined && track !== this.currentTrack) {
+        this.currentTrack = track;
+        this.emit('trackChanged', playback);
+      } else {
+        this.currentTrack = track;
+      }
+    } catch (error: any) {
+      // Log each distinct failure once instead of on every tick
+      if (error.message !== this.lastError) {
+        console.error(`Error polling playback: ${error.message}`);
+        this.lastError = error.message;
+      }
+    } finally {
+      this.polling = false;
+    }
+  }
+}
@@ -0,0 +1,162 @@
+/**
+ * Playlist duplicate detection
+ *
+ * This file finds tracks listed more than once in a playlist for the
+ * find-playlist-duplicates and dedupe-playlist tools. The exact mode only
+ * matches the same track ID; the fuzzy mode also matches the same recording
+ * released under several IDs (e.g. on a single and on an album) by ISRC, or
+ * by title, artists and duration.
+ */
+import { coreName, normalizeName } from "./playlist-import.js";
+import type { SpotifyPlaylistItem, SpotifyTrack } from "./types.js";
+
+export const DUPLICATE_MODES = ["exact", "fuzzy"] as const;
+
+export type DuplicateMode = typeof DUPLICATE_MODES[number];
+
+/**
+ * Tracks with the same title and artists are the same song when their
+ * lengths differ by at most this much
+ */
+export const DURATION_TOLERANCE_MS = 3000;
+
+/**
+ * A track at its position in the playlist
+ */
+export interface PositionedTrack {
+  // 0-based position, as used by the Web API
+  position: number;
+  track: SpotifyTrack;
+}
+
+/**
+ * Occurrences of one song: the first is kept, the others are duplicates
+ */
+export interface DuplicateGroup {
+  kept: PositionedTrack;
+  duplicates: PositionedTrack[];
+  reason: "same track" | "same ISRC" | "same title, artists and duration";
+}
+
+const REASON_RANK: Record<DuplicateGroup["reason"], number> = {
+  "same track": 0,
+  "same ISRC": 1,
+  "same title, artists and duration": 2,
+};
+
+function songKey(track: SpotifyTrack): string {
+  const artists = track.artists.map((artist) => normalizeName(artist.name)).sort().join(",");
+  return `${coreName(track.name)}|${artists}`;
+}
+
+/**
+ * Finds the tracks listed more than once
+ *
+ * @param {SpotifyPlaylistItem[]} items - All items of the playlist, in order
+ * @param {DuplicateMode} mode - Whether to only match the same track ID, or the same song
+ * @returns {DuplicateGroup[]} The groups of duplicates, in the order of their first occurrence
+ */
+export function findDuplicates(items: SpotifyPlaylistItem[], mode: DuplicateMode): DuplicateGroup[] {
+  const tracks: PositionedTrack[] = [];
+  items.forEach((item, position) => {
+    const track = item.item || item.track;
+    if (track) {
+      tracks.push({ position, track });
+    }
+  });
+
+  // Union-find over the indexes of `tracks`, remembering why two were joined
+  const parent = tracks.map((_, index) => index);
+  const reasons = new Map<number, DuplicateGroup["reason"]>();
+
+  const find = (index: number): number => {
+    while (parent[index] !== index) {
+      parent[index] = parent[parent[index]];
+      index = parent[index];
+    }
+    return index;
+  };
+
+  const union = (a: number, b: number, reason: DuplicateGroup["reason"]) => {
+    const [rootA, rootB] = [find(a), find(b)];
+    const [root, child] = rootA < rootB ? [rootA, rootB] : [rootB, rootA];
+    if (root !== child) {
+      parent[child] = root;
+    }
+    // A group is described by the loosest match it took to form it
+    const current = reasons.get(root);
+    const merged = [current, reasons.get(child), reason]
+      .filter((value): value is DuplicateGroup["reason"] => value !== undefined)
+      .reduce((a, b) => (REASON_RANK[a] >= REASON_RANK[b] ? a : b));
+    reasons.set(root, merged);
+  };
+
+  const joinBy = (key: (track: SpotifyTrack) => string | null | undefined, reason: DuplicateGroup["reason"]) => {
+    const first = new Map<string, number>();
+    tracks.forEach(({ track }, index) => {
+      const value = key(track);
+      if (!value) {
+        return;
+      }
+      const previous = first.get(value);
+      if (previous === undefined) {
+        first.set(value, index);
+      } else {
+        union(previous, index, reason);
+      }
+    });
+  };
+
+  joinBy((track) => track.id, "same track");
+
+  if (mode === "fuzzy") {
+    joinBy((track) => track.external_ids?.isrc?.toUpperCase(), "same ISRC");
+
+    // Same title and artists, with lengths close enough
+    const bySong = new Map<string, number[]>();
+    tracks.forEach(({ track }, index) => {
+      const key = songKey(track);
+      bySong.set(key, [...(bySong.get(key) ?? []), index]);
+    });
+    for (const indexes of bySong.values()) {
+      for (let i = 0; i < indexes.length; i++) {
+        for (let j = i + 1; j < indexes.length; j++) {
+          const [a, b] = [tracks[indexes[i]].track, tracks[indexes[j]].track];
+          if (a.id !== b.id && Math.abs(a.duration_ms - b.duration_ms) <= DURATION_TOLERANCE_MS) {
+            union(indexes[i], indexes[j], "same title, artists and duration");
+          }
+        }
+      }
+    }
+  }
+
+  const groups = new Map<number, PositionedTrack[]>();
+  tracks.forEach((track, index) => {
+    const root = find(index);
+    groups.set(root, [...(groups.get(root) ?? []), track]);
+  });
+
+  return Array.from(groups.entries())
+    .filter(([, members]) => members.length > 1)
+    .map(([root, [kept, ...duplicates]]) => ({ kept, duplicates, reason: reasons.get(root) ?? "same track" }));
+}
+
+function describeTrack(track: SpotifyTrack): string {
+  return `${track.name} - ${track.artists.map((artist) => artist.name).join(", ")}`;
+}
+
+/**
+ * Formats the groups of duplicates, with 0-based positions
+ */
+export function formatDuplicateGroups(groups: DuplicateGroup[]): string {
+  return groups
+    .map(({ kept, duplicates, reason }) => {
+      const others = duplicates
+        .map(({ position, track }) => `   Duplicate at position ${position}: ${track.id === kept.track.id ? "same ID" : `${describeTrack(track)} (ID: ${track.id})`}`)
+        .join("\n");
+      return `${describeTrack(kept.track)} (${reason})
+   Kept at position ${kept.position} (ID: ${kept.track.id})
+${others}`;
+    })
+    .join("\n");
+}
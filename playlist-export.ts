@@ -0,0 +1,247 @@
+/**
+ * Playlist export
+ *
+ * This file turns a playlist and its items into the CSV, JSON, M3U8 and XSPF
+ * files written by the export-playlist tool and command. Items that are not
+ * tracks (removed tracks, local files, episodes) have no metadata to export
+ * and are left out.
+ */
+import fs from "fs";
+import path from "path";
+import { ValidationError } from "./errors.js";
+import type { SpotifyPlaylist, SpotifyPlaylistItem } from "./types.js";
+
+const FILE_MODE = 0o600;
+const DIR_MODE = 0o700;
+
+export const EXPORT_FORMATS = ["csv", "json", "m3u8", "xspf"] as const;
+
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+
+/**
+ * One exported track
+ */
+export interface ExportedTrack {
+  // 1-based position in the playlist, counting items that were left out
+  position: number;
+  name: string;
+  artists: string[];
+  album: string | null;
+  durationMs: number;
+  isrc: string | null;
+  addedAt: string | null;
+  addedBy: string | null;
+  uri: string;
+  url: string;
+}
+
+/**
+ * A playlist ready to be written in any export format
+ */
+export interface PlaylistExport {
+  playlist: {
+    id: string;
+    name: string;
+    description: string | null;
+    owner: string | null;
+    url: string;
+    snapshotId: string | null;
+  };
+  exportedAt: string;
+  tracks: ExportedTrack[];
+  // Items that are not tracks and were left out
+  skipped: number;
+}
+
+const CSV_COLUMNS = ["position", "name", "artists", "album", "duration_ms", "isrc", "added_at", "added_by", "uri", "url"];
+
+/**
+ * Whether a string is one of the export formats
+ */
+export function isExportFormat(value: string): value is ExportFormat {
+  return (EXPORT_FORMATS as readonly string[]).includes(value);
+}
+
+/**
+ * Guesses the export format from the extension of a file name
+ *
+ * @throws {ValidationError} If the extension is not one of the export formats
+ */
+export function formatFromFileName(fileName: string): ExportFormat {
+  const extension = fileName.toLowerCase().split(".").pop() ?? "";
+  const format = extension === "m3u" ? "m3u8" : extension;
+  if (!isExportFormat(format)) {
+    throw new ValidationError(`Cannot tell the export format from "${fileName}". Use one of: ${EXPORT_FORMATS.join(", ")}`);
+  }
+  return format;
+}
+
+/**
+ * Collects the playlist details and track metadata to export
+ *
+ * @param {SpotifyPlaylist} playlist - The playlist
+ * @param {SpotifyPlaylistItem[]} items - All items of the playlist, in order
+ * @param {Date} now - Time of the export
+ * @returns {PlaylistExport} The playlist and its tracks
+ */
+export function buildPlaylistExport(playlist: SpotifyPlaylist, items: SpotifyPlaylistItem[], now: Date = new Date()): PlaylistExport {
+  const tracks: ExportedTrack[] = [];
+
+  items.forEach((item, index) => {
+    const track = item.item || item.track;
+    if (!track) {
+      return;
+    }
+
+    tracks.push({
+      position: index + 1,
+      name: track.name,
+      artists: track.artists.map((artist) => artist.name),
+      album: track.album?.name ?? null,
+      durationMs: track.duration_ms,
+      isrc: track.external_ids?.isrc ?? null,
+      addedAt: item.added_at ?? null,
+      addedBy: item.added_by ? item.added_by.display_name || item.added_by.id : null,
+      uri: track.uri ?? `spotify:track:${track.id}`,
+      url: track.external_urls.spotify,
+    });
+  });
+
+  return {
+    playlist: {
+      id: playlist.id,
+      name: playlist.name,
+      description: playlist.description || null,
+      owner: playlist.owner.display_name || playlist.owner.id || null,
+      url: playlist.external_urls.spotify,
+      snapshotId: playlist.snapshot_id ?? null,
+    },
+    exportedAt: now.toISOString(),
+    tracks,
+    skipped: items.length - tracks.length,
+  };
+}
+
+function csvField(value: string | number | null): string {
+  const text = value === null ? "" : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCsv(data: PlaylistExport): string {
+  const rows = data.tracks.map((track) => [
+    track.position,
+    track.name,
+    track.artists.join("; "),
+    track.album,
+    track.durationMs,
+    track.isrc,
+    track.addedAt,
+    track.addedBy,
+    track.uri,
+    track.url,
+  ]);
+  return [CSV_COLUMNS, ...rows].map((row) => row.map(csvField).join(",")).join("\r\n") + "\r\n";
+}
+
+function toJson(data: PlaylistExport): string {
+  const { skipped, ...content } = data;
+  return `${JSON.stringify(content, null, 2)}\n`;
+}
+
+// Line breaks would end the #EXTINF line early
+function m3uText(value: string): string {
+  return value.replace(/[\r\n]+/g, " ");
+}
+
+function toM3u8(data: PlaylistExport): string {
+  const lines = ["#EXTM3U", `#PLAYLIST:${m3uText(data.playlist.name)}`];
+  for (const track of data.tracks) {
+    const artists = track.artists.join(", ");
+    lines.push(
+      `#EXTINF:${Math.round(track.durationMs / 1000)},${m3uText(artists ? `${artists} - ${track.name}` : track.name)}`,
+      track.url
+    );
+  }
+  return `${lines.join("\n")}\n`;
+}
+
+function xml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+function xmlElement(name: string, value: string | number | null, indent: string): string[] {
+  return value === null || value === "" ? [] : [`${indent}<${name}>${xml(String(value))}</${name}>`];
+}
+
+function toXspf(data: PlaylistExport): string {
+  const { playlist } = data;
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<playlist version="1" xmlns="http://xspf.org/ns/0/">',
+    ...xmlElement("title", playlist.name, "  "),
+    ...xmlElement("creator", playlist.owner, "  "),
+    ...xmlElement("annotation", playlist.description, "  "),
+    ...xmlElement("location", playlist.url, "  "),
+    ...xmlElement("identifier", `spotify:playlist:${playlist.id}`, "  "),
+    ...xmlElement("date", data.exportedAt, "  "),
+    "  <trackList>",
+  ];
+
+  for (const track of data.tracks) {
+    lines.push(
+      "    <track>",
+      ...xmlElement("location", track.url, "      "),
+      ...xmlElement("identifier", track.uri, "      "),
+      ...xmlElement("identifier", track.isrc && `urn:isrc:${track.isrc}`, "      "),
+      ...xmlElement("title", track.name, "      "),
+      ...xmlElement("creator", track.artists.join(", "), "      "),
+      ...xmlElement("album", track.album, "      "),
+      ...xmlElement("duration", track.durationMs, "      "),
+      "    </track>"
+    );
+  }
+
+  lines.push("  </trackList>", "</playlist>");
+  return `${lines.join("\n")}\n`;
+}
+
+/**
+ * Writes an export in the given format
+ *
+ * CSV lists artists separated by semicolons; M3U8 and XSPF entries point to
+ * the open.spotify.com link of each track.
+ *
+ * @param {PlaylistExport} data - The playlist and its tracks
+ * @param {ExportFormat} format - Format to write
+ * @returns {string} The file contents
+ */
+export function formatPlaylistExport(data: PlaylistExport, format: ExportFormat): string {
+  switch (format) {
+    case "csv":
+      return toCsv(data);
+    case "json":
+      return toJson(data);
+    case "m3u8":
+      return toM3u8(data);
+    case "xspf":
+      return toXspf(data);
+  }
+}
+
+/**
+ * Writes an export to a file that only the current user can read, creating
+ * its directory if needed
+ *
+ * @returns {string} The absolute path of the file
+ */
+export function writePlaylistExport(filePath: string, contents: string): string {
+  const resolved = path.resolve(filePath);
+  fs.mkdirSync(path.dirname(resolved), { recursive: true, mode: DIR_MODE });
+  fs.writeFileSync(resolved, contents, { encoding: "utf-8", mode: FILE_MODE });
+  return resolved;
+}
@@ -0,0 +1,544 @@
+/**
+ * Playlist import
+ *
+ * This file reads tracklists (CSV, M3U or "Artist - Title" lines) and finds
+ * the Spotify track for each line for the import-playlist tool. Lines with an
+ * ISRC or a Spotify link are resolved exactly; the others are searched and
+ * the candidates scored by how closely their title, artists and duration
+ * match the line.
+ */
+import fs from "fs";
+import { parseDuration } from "./durations.js";
+import { ValidationError } from "./errors.js";
+import { parseSpotifyReference } from "./spotify-uris.js";
+import type { SpotifyTrack } from "./types.js";
+
+export const TRACKLIST_FORMATS = ["auto", "csv", "m3u", "text"] as const;
+
+export type TracklistFormat = typeof TRACKLIST_FORMATS[number];
+
+/**
+ * Matches scoring below this are not added unless the caller lowers it
+ */
+export const DEFAULT_MIN_CONFIDENCE = 0.6;
+
+/**
+ * Matches scoring below this are added but reported for review
+ */
+export const HIGH_CONFIDENCE = 0.85;
+
+// Lines without an artist can match the wrong song with the same title
+const TITLE_ONLY_MAX_SCORE = 0.8;
+
+/**
+ * Most tracks imported at once; each line takes one or two searches
+ */
+export const MAX_TRACKLIST_ENTRIES = 1000;
+
+const SEARCH_LIMIT = 10;
+
+/**
+ * A line of a tracklist
+ */
+export interface TracklistEntry {
+  // 1-based line number in the input
+  line: number;
+  // The line as shown in reports
+  text: string;
+  title: string;
+  artist: string | null;
+  album: string | null;
+  isrc: string | null;
+  durationMs: number | null;
+  // Spotify URI given in the tracklist itself
+  uri: string | null;
+}
+
+/**
+ * The track found for a tracklist entry
+ */
+export interface TrackMatch {
+  entry: TracklistEntry;
+  // The chosen track; null when nothing scored at least the minimum confidence
+  uri: string | null;
+  track: SpotifyTrack | null;
+  // Best candidate, also when it scored too low to be chosen
+  candidate: SpotifyTrack | null;
+  score: number;
+  method: "uri" | "isrc" | "search" | null;
+}
+
+/**
+ * Searches tracks, as search-spotify does
+ */
+export type TrackSearch = (query: string, limit: number) => Promise<SpotifyTrack[]>;
+
+const TITLE_COLUMNS = ["name", "title", "track", "track name", "track_name", "song", "song name"];
+const ARTIST_COLUMNS = ["artist", "artists", "artist name", "artist_name", "artist(s)", "artist name(s)"];
+const ALBUM_COLUMNS = ["album", "album name", "album_name"];
+const ISRC_COLUMNS = ["isrc"];
+const DURATION_MS_COLUMNS = ["duration_ms", "duration (ms)", "track duration (ms)"];
+const DURATION_COLUMNS = ["duration", "length", "time"];
+const URI_COLUMNS = ["uri", "url", "link", "spotify uri", "spotify_uri", "track uri", "spotify url", "spotify link"];
+
+const SEPARATOR = /\s+[-–—]\s+/;
+
+/**
+ * Splits CSV text into rows of fields, following RFC 4180 quoting
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") {
+        i++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((fields) => fields.some((value) => value.trim() !== ""));
+}
+
+function findColumn(header: string[], names: string[]): number {
+  return header.findIndex((column) => names.includes(column.trim().toLowerCase()));
+}
+
+function trackUri(value: string): string | null {
+  try {
+    return parseSpotifyReference(value, { allowedTypes: ["track"] }).uri;
+  } catch {
+    return null;
+  }
+}
+
+function optionalDuration(value: string): number | null {
+  try {
+    return value.trim() ? parseDuration(value) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Splits "Artist - Title" into its parts; text without a separator is taken as a title
+ */
+function splitArtistTitle(text: string): { artist: string | null; title: string } {
+  const match = SEPARATOR.exec(text);
+  if (!match) {
+    return { artist: null, title: text.trim() };
+  }
+  return {
+    artist: text.slice(0, match.index).trim() || null,
+    title: text.slice(match.index + match[0].length).trim(),
+  };
+}
+
+function emptyEntry(line: number, text: string): TracklistEntry {
+  return { line, text, title: "", artist: null, album: null, isrc: null, durationMs: null, uri: null };
+}
+
+/**
+ * Reads a duration column, which may hold "3:35", seconds or milliseconds
+ */
+function csvDuration(value: string): number | null {
+  // No track is longer than 10 hours, so larger numbers are milliseconds
+  if (/^\d+$/.test(value) && parseInt(value) > 36000) {
+    return parseInt(value);
+  }
+  return optionalDuration(value);
+}
+
+function parseCsvTracklist(text: string): TracklistEntry[] {
+  const [header, ...rows] = parseCsv(text);
+  const columns = {
+    title: findColumn(header, TITLE_COLUMNS),
+    artist: findColumn(header, ARTIST_COLUMNS),
+    album: findColumn(header, ALBUM_COLUMNS),
+    isrc: findColumn(header, ISRC_COLUMNS),
+    durationMs: findColumn(header, DURATION_MS_COLUMNS),
+    duration: findColumn(header, DURATION_COLUMNS),
+    uri: findColumn(header, URI_COLUMNS),
+  };
+
+  if (columns.title < 0 && columns.uri < 0 && columns.isrc < 0) {
+    throw new ValidationError(`The CSV header needs a title, ISRC or Spotify URI column. Recognized title columns: ${TITLE_COLUMNS.join(", ")}`);
+  }
+
+  const value = (row: string[], column: number) => (column >= 0 ? row[column]?.trim() || null : null);
+
+  return rows.map((row, index) => {
+    const title = value(row, columns.title) ?? "";
+    const artist = value(row, columns.artist);
+    const durationMs = value(row, columns.durationMs);
+    const duration = value(row, columns.duration);
+    const uri = value(row, columns.uri);
+
+    return {
+      // Row numbers after the header; quoted line breaks make line numbers unreliable
+      line: index + 2,
+      text: artist ? `${artist} - ${title}` : title || row.join(", "),
+      title,
+      artist,
+      album: value(row, columns.album),
+      isrc: value(row, columns.isrc)?.toUpperCase() ?? null,
+      durationMs: durationMs && /^\d+$/.test(durationMs) ? parseInt(durationMs) : duration ? csvDuration(duration) : null,
+      uri: uri ? trackUri(uri) : null,
+    };
+  });
+}
+
+function fileLabel(location: string): string {
+  const name = location.split(/[\\/]/).pop() ?? location;
+  try {
+    return decodeURIComponent(name);
+  } catch {
+    return name;
+  }
+}
+
+function parseM3uTracklist(text: string): TracklistEntry[] {
+  const entries: TracklistEntry[] = [];
+  let info: { line: number; seconds: number; label: string } | null = null;
+
+  text.split(/\r?\n/).forEach((rawLine, index) => {
+    const line = rawLine.trim();
+    const extinf = /^#EXTINF:\s*(-?\d+(?:\.\d+)?)[^,]*,(.*)$/i.exec(line);
+
+    if (extinf) {
+      info = { line: index + 1, seconds: parseFloat(extinf[1]), label: extinf[2].trim() };
+      return;
+    }
+    if (!line || line.startsWith("#")) {
+      return;
+    }
+
+    // Without #EXTINF, file names such as "03 Artist - Title.mp3" are all there is
+    const label = info?.label || fileLabel(line)
+      .replace(/\.[a-z0-9]{2,4}$/i, "")
+      .replace(/^\d{1,3}[\s.-]+/, "");
+    const { artist, title } = splitArtistTitle(label);
+
+    entries.push({
+      ...emptyEntry(info?.line ?? index + 1, label),
+      title,
+      artist,
+      durationMs: info && info.seconds > 0 ? Math.round(info.seconds * 1000) : null,
+      uri: trackUri(line),
+    });
+    info = null;
+  });
+
+  return entries;
+}
+
+function parseTextTracklist(text: string): TracklistEntry[] {
+  const entries: TracklistEntry[] = [];
+
+  text.split(/\r?\n/).forEach((rawLine, index) => {
+    let line = rawLine.trim();
+    if (!line || line.startsWith("#") || line.startsWith("//")) {
+      return;
+    }
+
+    const uri = trackUri(line);
+    if (uri) {
+      entries.push({ ...emptyEntry(index + 1, line), uri });
+      return;
+    }
+
+    // Setlist numbering and timestamps: "1. ", "01) ", "[00:12:30] ", "12:30 - "
+    line = line
+      .replace(/^\[?\d{1,2}(?::\d{2}){1,2}\]?\s*(?:[-–—]\s+)?/, "")
+      .replace(/^\d{1,3}\s*[.)]\s+/, "");
+
+    // Trailing durations: "(3:45)" or "[3:45]"
+    let durationMs: number | null = null;
+    const duration = /\s*[([](\d{1,2}:\d{2}(?::\d{2})?)[)\]]$/.exec(line);
+    if (duration) {
+      durationMs = optionalDuration(duration[1]);
+      line = line.slice(0, duration.index);
+    }
+
+    const { artist, title } = splitArtistTitle(line);
+    entries.push({ ...emptyEntry(index + 1, rawLine.trim()), title, artist, durationMs });
+  });
+
+  return entries;
+}
+
+function detectFormat(text: string): Exclude<TracklistFormat, "auto"> {
+  const firstLine = text.split(/\r?\n/).find((line) => line.trim() !== "")?.trim() ?? "";
+
+  if (/^#EXTM3U/i.test(firstLine) || /^#EXTINF:/im.test(text)) {
+    return "m3u";
+  }
+
+  const header = parseCsv(firstLine)[0] ?? [];
+  const known = [...TITLE_COLUMNS, ...ARTIST_COLUMNS, ...ISRC_COLUMNS, ...URI_COLUMNS];
+  if (header.length >= 2 && header.some((column) => known.includes(column.trim().toLowerCase()))) {
+    return "csv";
+  }
+  return "text";
+}
+
+/**
+ * Reads the entries of a tracklist
+ *
+ * @param {string} text - The tracklist
+ * @param {TracklistFormat} format - Format of the tracklist; auto detects M3U by its
+ *   #EXTM3U/#EXTINF lines and CSV by a header with known column names
+ * @returns The detected format and the entries; lines that name no track are left out
+ * @throws {ValidationError} If a CSV tracklist has no usable columns
+ */
+export function parseTracklist(text: string, format: TracklistFormat = "auto"): { format: Exclude<TracklistFormat, "auto">; entries: TracklistEntry[] } {
+  const detected = format === "auto" ? detectFormat(text) : format;
+  const parse = { csv: parseCsvTracklist, m3u: parseM3uTracklist, text: parseTextTracklist }[detected];
+
+  return {
+    format: detected,
+    entries: parse(text.replace(/^\uFEFF/, "")).filter((entry) => entry.title || entry.uri || entry.isrc),
+  };
+}
+
+/**
+ * Reads a tracklist file
+ *
+ * @throws {ValidationError} If the file cannot be read
+ */
+export function readTracklistFile(filePath: string): string {
+  try {
+    return fs.readFileSync(filePath, "utf-8");
+  } catch (error: any) {
+    throw new ValidationError(`Could not read ${filePath}: ${error.message}`);
+  }
+}
+
+/**
+ * Lowercases and strips accents, punctuation and "feat." credits
+ */
+export function normalizeName(value: string): string {
+  return value
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/&/g, " and ")
+    .replace(/\b(?:feat|ft|featuring)\b\.?.*$/, "")
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim();
+}
+
+/**
+ * The name without the parts tracklists often disagree on: bracketed
+ * remarks and suffixes like " - 2011 Remaster" or " - Radio Edit"
+ */
+export function coreName(value: string): string {
+  return normalizeName(value.replace(/\s*[([][^)\]]*[)\]]/g, "").split(SEPARATOR)[0]);
+}
+
+function bigrams(value: string): string[] {
+  const compact = value.replace(/\s+/g, "");
+  const pairs: string[] = [];
+  for (let i = 0; i < compact.length - 1; i++) {
+    pairs.push(compact.slice(i, i + 2));
+  }
+  return pairs;
+}
+
+/**
+ * Similarity of two normalized names, from 0 to 1 (Sørensen–Dice over character pairs)
+ */
+function similarity(a: string, b: string): number {
+  if (a === b) {
+    return a ? 1 : 0;
+  }
+
+  const pairsA = bigrams(a);
+  const pairsB = bigrams(b);
+  if (pairsA.length === 0 || pairsB.length === 0) {
+    return 0;
+  }
+
+  const remaining = new Map<string, number>();
+  pairsB.forEach((pair) => remaining.set(pair, (remaining.get(pair) ?? 0) + 1));
+
+  let shared = 0;
+  for (const pair of pairsA) {
+    const count = remaining.get(pair) ?? 0;
+    if (count > 0) {
+      shared++;
+      remaining.set(pair, count - 1);
+    }
+  }
+  return (2 * shared) / (pairsA.length + pairsB.length);
+}
+
+function titleScore(title: string, track: SpotifyTrack): number {
+  return Math.max(
+    similarity(normalizeName(title), normalizeName(track.name)),
+    similarity(coreName(title), coreName(track.name))
+  );
+}
+
+function artistScore(artist: string, track: SpotifyTrack): number {
+  const names = track.artists.map((a) => normalizeName(a.name));
+  const wanted = artist
+    .split(/\s*(?:,|;|&|\/|\band\b|\bx\b|\bvs\.?|\bfeat\.?|\bft\.?|\bfeaturing\b)\s*/i)
+    .map(normalizeName)
+    .filter(Boolean);
+
+  const whole = similarity(normalizeName(artist), names.join(" and "));
+  const best = wanted.length > 0
+    ? Math.max(...wanted.map((name) => Math.max(...names.map((candidate) => similarity(name, candidate)))))
+    : 0;
+  return Math.max(whole, best);
+}
+
+function durationScore(durationMs: number, track: SpotifyTrack): number {
+  const difference = Math.abs(durationMs - track.duration_ms);
+  // Full marks within 3 seconds, none beyond 30
+  return Math.max(0, Math.min(1, 1 - (difference - 3000) / 27000));
+}
+
+/**
+ * How well a track matches a tracklist entry, from 0 to 1
+ *
+ * Combines title (55%), artist (30%) and duration (15%) similarity, leaving
+ * out what the entry does not give.
+ */
+export function scoreCandidate(entry: TracklistEntry, track: SpotifyTrack): number {
+  const parts: [number, number][] = [[0.55, titleScore(entry.title, track)]];
+  if (entry.artist) {
+    parts.push([0.3, artistScore(entry.artist, track)]);
+  }
+  if (entry.durationMs !== null) {
+    parts.push([0.15, durationScore(entry.durationMs, track)]);
+  }
+
+  const weight = parts.reduce((total, [partWeight]) => total + partWeight, 0);
+  const score = parts.reduce((total, [partWeight, value]) => total + partWeight * value, 0) / weight;
+  return entry.artist ? score : Math.min(score, TITLE_ONLY_MAX_SCORE);
+}
+
+function quoted(value: string): string {
+  return value.replace(/"/g, "");
+}
+
+/**
+ * Finds the track for a tracklist entry
+ *
+ * Spotify URIs are taken as they are and ISRCs are looked up exactly. Other
+ * entries are searched by title and artist, falling back to a plain search
+ * when the field search finds nothing good enough.
+ *
+ * @param {TracklistEntry} entry - The entry to match
+ * @param {TrackSearch} search - Searches tracks
+ * @param {number} minConfidence - Lowest score accepted as a match
+ * @returns {Promise<TrackMatch>} The match, or the best candidate when nothing scored high enough
+ */
+export async function matchEntry(entry: TracklistEntry, search: TrackSearch, minConfidence: number = DEFAULT_MIN_CONFIDENCE): Promise<TrackMatch> {
+  if (entry.uri) {
+    return { entry, uri: entry.uri, track: null, candidate: null, score: 1, method: "uri" };
+  }
+
+  if (entry.isrc) {
+    const [track] = (await search(`isrc:${entry.isrc}`, 1))
+      .filter((candidate) => candidate.external_ids?.isrc?.toUpperCase() === entry.isrc);
+    if (track) {
+      return { entry, uri: track.uri ?? `spotify:track:${track.id}`, track, candidate: track, score: 1, method: "isrc" };
+    }
+  }
+
+  const queries = entry.artist
+    ? [`track:"${quoted(entry.title)}" artist:"${quoted(entry.artist)}"`, `${entry.artist} ${entry.title}`]
+    : [entry.title];
+
+  let best: { track: SpotifyTrack; score: number } | null = null;
+  for (const query of queries) {
+    for (const track of await search(query, SEARCH_LIMIT)) {
+      const score = scoreCandidate(entry, track);
+      if (!best || score > best.score) {
+        best = { track, score };
+      }
+    }
+    if (best && best.score >= HIGH_CONFIDENCE) {
+      break;
+    }
+  }
+
+  if (!best) {
+    return { entry, uri: null, track: null, candidate: null, score: 0, method: null };
+  }
+
+  const accepted = best.score >= minConfidence;
+  return {
+    entry,
+    uri: accepted ? best.track.uri ?? `spotify:track:${best.track.id}` : null,
+    track: accepted ? best.track : null,
+    candidate: best.track,
+    score: best.score,
+    method: accepted ? "search" : null,
+  };
+}
+
+function describeTrack(track: SpotifyTrack): string {
+  return `${track.artists.map((artist) => artist.name).join(", ")} - ${track.name}`;
+}
+
+function percent(score: number): string {
+  return `${Math.round(score * 100)}%`;
+}
+
+/**
+ * Lists the matches to review: low-confidence matches and lines without a match
+ */
+export function formatImportReview(matches: TrackMatch[]): string {
+  const lowConfidence = matches.filter((match) => match.uri && match.score < HIGH_CONFIDENCE);
+  const unmatched = matches.filter((match) => !match.uri);
+  const sections: string[] = [];
+
+  if (lowConfidence.length > 0) {
+    sections.push(`Low-confidence matches, please check:\n${lowConfidence
+      .map((match) => `Line ${match.entry.line}: "${match.entry.text}" → ${describeTrack(match.track!)} (${percent(match.score)}, ID: ${match.track!.id})`)
+      .join("\n")}`);
+  }
+
+  if (unmatched.length > 0) {
+    sections.push(`Not matched:\n${unmatched
+      .map((match) => `Line ${match.entry.line}: "${match.entry.text}"${match.candidate
+        ? ` (best guess: ${describeTrack(match.candidate)}, ${percent(match.score)}, ID: ${match.candidate.id})`
+        : " (no results)"}`)
+      .join("\n")}`);
+  }
+
+  return sections.join("\n\n");
+}
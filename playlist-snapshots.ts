@@ -0,0 +1,270 @@
+/**
+ * Playlist snapshots
+ *
+ * This file defines the PlaylistSnapshotStore, which keeps copies of a
+ * playlist's details and items taken before a tool changes or deletes it,
+ * keyed by the playlist's snapshot_id. The snapshots are what the
+ * list-playlist-snapshots, diff-playlist-snapshots and
+ * restore-playlist-snapshot tools work on.
+ */
+import fs from "fs";
+import path from "path";
+import { ValidationError } from "./errors.js";
+import type { SpotifyPlaylist, SpotifyPlaylistItem, SpotifyTrack } from "./types.js";
+
+const FILE_MODE = 0o600;
+const DIR_MODE = 0o700;
+
+/**
+ * Older snapshots of a playlist are dropped beyond this number
+ */
+export const MAX_SNAPSHOTS_PER_PLAYLIST = 20;
+
+/**
+ * Reason of the snapshots restore-playlist-snapshot takes of the state it replaces
+ */
+export const RESTORE_REASON = "restore-playlist-snapshot";
+
+/**
+ * An item of a playlist as stored in a snapshot
+ */
+export interface SnapshotItem {
+  uri: string;
+  name: string;
+  artists: string[];
+}
+
+/**
+ * A playlist's details and items at one point in time
+ */
+export interface PlaylistSnapshot {
+  // snapshot_id of the playlist when the snapshot was taken, or a local ID
+  // when Spotify did not return one
+  snapshotId: string;
+  playlistId: string;
+  takenAt: string;
+  // Tool whose change the snapshot was taken before
+  reason: string;
+  details: {
+    name: string;
+    description: string | null;
+    public: boolean | null;
+    collaborative: boolean;
+  };
+  items: SnapshotItem[];
+  // Items Spotify returned without a track (local files, removed tracks), which cannot be restored
+  skipped: number;
+}
+
+/**
+ * Differences between two states of a playlist
+ */
+export interface SnapshotDiff {
+  details: { field: string; from: string; to: string }[];
+  added: SnapshotItem[];
+  removed: SnapshotItem[];
+  // Whether the items present in both are in a different order
+  reordered: boolean;
+}
+
+/**
+ * Captures a playlist's details and items
+ *
+ * @param {SpotifyPlaylist} playlist - The playlist
+ * @param {SpotifyPlaylistItem[]} items - All items of the playlist, in order
+ * @param {string} reason - Tool the snapshot is taken for
+ * @param {Date} now - Time of the snapshot
+ * @returns {PlaylistSnapshot} The snapshot
+ */
+export function buildPlaylistSnapshot(
+  playlist: SpotifyPlaylist,
+  items: SpotifyPlaylistItem[],
+  reason: string,
+  now: Date = new Date()
+): PlaylistSnapshot {
+  const tracks = items
+    .map((item) => item.item || item.track)
+    .filter((track): track is SpotifyTrack => track !== null && track !== undefined);
+
+  return {
+    snapshotId: playlist.snapshot_id ?? `local-${now.getTime()}`,
+    playlistId: playlist.id,
+    takenAt: now.toISOString(),
+    reason,
+    details: {
+      name: playlist.name,
+      description: playlist.description,
+      public: playlist.public,
+      collaborative: playlist.collaborative ?? false,
+    },
+    items: tracks.map((track) => ({
+      uri: track.uri ?? `spotify:track:${track.id}`,
+      name: track.name,
+      artists: track.artists.map((artist) => artist.name),
+    })),
+    skipped: items.length - tracks.length,
+  };
+}
+
+/**
+ * Removes the items of `others` from `items`, one occurrence each
+ */
+function subtractItems(items: SnapshotItem[], others: SnapshotItem[]): SnapshotItem[] {
+  const remaining = new Map<string, number>();
+  others.forEach((item) => remaining.set(item.uri, (remaining.get(item.uri) ?? 0) + 1));
+
+  return items.filter((item) => {
+    const count = remaining.get(item.uri) ?? 0;
+    if (count > 0) {
+      remaining.set(item.uri, count - 1);
+      return false;
+    }
+    return true;
+  });
+}
+
+/**
+ * Compares two states of a playlist
+ *
+ * Items are compared by URI, so a track listed twice counts twice.
+ */
+export function diffSnapshots(from: PlaylistSnapshot, to: PlaylistSnapshot): SnapshotDiff {
+  const details = (["name", "description", "public", "collaborative"] as const)
+    .filter((field) => (from.details[field] ?? null) !== (to.details[field] ?? null))
+    .map((field) => ({ field, from: String(from.details[field] ?? ""), to: String(to.details[field] ?? "") }));
+
+  const removed = subtractItems(from.items, to.items);
+  const added = subtractItems(to.items, from.items);
+
+  // Order of the items both have in common
+  const keptBefore = subtractItems(from.items, removed).map((item) => item.uri);
+  const keptAfter = subtractItems(to.items, added).map((item) => item.uri);
+
+  return {
+    details,
+    added,
+    removed,
+    reordered: keptBefore.some((uri, index) => uri !== keptAfter[index]),
+  };
+}
+
+function describeItem(item: SnapshotItem): string {
+  return `${item.name} - ${item.artists.join(", ") || "Unknown artist"} (${item.uri})`;
+}
+
+/**
+ * Formats a diff for the diff-playlist-snapshots tool
+ */
+export function formatSnapshotDiff(diff: SnapshotDiff, fromLabel: string, toLabel: string): string {
+  if (diff.details.length === 0 && diff.added.length === 0 && diff.removed.length === 0 && !diff.reordered) {
+    return `No differences between ${fromLabel} and ${toLabel}.`;
+  }
+
+  const sections = [`Changes from ${fromLabel} to ${toLabel}:`];
+
+  if (diff.details.length > 0) {
+    sections.push(diff.details.map(({ field, from, to }) => `${field}: "${from}" → "${to}"`).join("\n"));
+  }
+  if (diff.removed.length > 0) {
+    sections.push(`Removed (${diff.removed.length}):\n${diff.removed.map((item) => `- ${describeItem(item)}`).join("\n")}`);
+  }
+  if (diff.added.length > 0) {
+    sections.push(`Added (${diff.added.length}):\n${diff.added.map((item) => `+ ${describeItem(item)}`).join("\n")}`);
+  }
+  if (diff.reordered) {
+    sections.push("The order of the remaining tracks changed.");
+  }
+
+  return sections.join("\n\n");
+}
+
+/**
+ * Stores playlist snapshots in one JSON file per playlist
+ */
+export class PlaylistSnapshotStore {
+  constructor(readonly directory: string) {}
+
+  private filePath(playlistId: string): string {
+    // Playlist IDs are base62, but IDs read from the directory must not escape it
+    if (!/^[A-Za-z0-9]+$/.test(playlistId)) {
+      throw new ValidationError(`Invalid playlist ID: ${playlistId}`);
+    }
+    return path.join(this.directory, `${playlistId}.json`);
+  }
+
+  private read(playlistId: string): PlaylistSnapshot[] {
+    const filePath = this.filePath(playlistId);
+    if (!fs.existsSync(filePath)) {
+      return [];
+    }
+
+    try {
+      return JSON.parse(fs.readFileSync(filePath, "utf-8"));
+    } catch (error: any) {
+      console.error(`Ignoring unreadable snapshot file ${filePath}: ${error.message}`);
+      return [];
+    }
+  }
+
+  /**
+   * Stores a snapshot unless the latest one of the playlist has the same snapshot_id
+   *
+   * @returns {boolean} Whether the snapshot was stored
+   */
+  add(snapshot: PlaylistSnapshot): boolean {
+    const snapshots = this.read(snapshot.playlistId);
+    if (snapshots[snapshots.length - 1]?.snapshotId === snapshot.snapshotId) {
+      return false;
+    }
+
+    snapshots.push(snapshot);
+    fs.mkdirSync(this.directory, { recursive: true, mode: DIR_MODE });
+    fs.writeFileSync(
+      this.filePath(snapshot.playlistId),
+      JSON.stringify(snapshots.slice(-MAX_SNAPSHOTS_PER_PLAYLIST), null, 2),
+      { mode: FILE_MODE }
+    );
+    return true;
+  }
+
+  /**
+   * Snapshots of a playlist, or of every playlist, newest first
+   */
+  list(playlistId?: string): PlaylistSnapshot[] {
+    const playlistIds = playlistId
+      ? [playlistId]
+      : fs.existsSync(this.directory)
+        ? fs.readdirSync(this.directory).filter((file) => file.endsWith(".json")).map((file) => path.basename(file, ".json"))
+        : [];
+
+    return playlistIds
+      .flatMap((id) => this.read(id))
+      .sort((a, b) => b.takenAt.localeCompare(a.takenAt));
+  }
+
+  /**
+   * Finds a snapshot of a playlist
+   *
+   * "latest" skips the snapshots taken before a restore, so that restoring
+   * the latest snapshot twice does not undo the first restore.
+   *
+   * @param {string} playlistId - The playlist
+   * @param {string} snapshotId - snapshot_id of the snapshot, or "latest"
+   * @throws {ValidationError} If there is no such snapshot
+   */
+  get(playlistId: string, snapshotId: string): PlaylistSnapshot {
+    const snapshots = this.list(playlistId);
+    const snapshot = snapshotId === "latest"
+      ? snapshots.find((candidate) => candidate.reason !== RESTORE_REASON)
+      : snapshots.find((candidate) => candidate.snapshotId === snapshotId);
+
+    if (!snapshot) {
+      throw new ValidationError(
+        snapshots.length === 0
+          ? `No snapshots of playlist ${playlistId}. Snapshots are taken when a tool changes or deletes a playlist`
+          : `No snapshot ${snapshotId} of playlist ${playlistId}. Use list-playlist-snapshots to see the available ones`
+      );
+    }
+    return snapshot;
+  }
+}
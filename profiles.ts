@@ -0,0 +1,204 @@
+/**
+ * Multi-account profiles
+ *
+ * This file defines the ProfileManager, which keeps one TokenStore per named
+ * Spotify account and tracks which profile is active. The "default" profile
+ * keeps using the original token file so that existing installs keep working.
+ */
+import { EventEmitter } from "events";
+import fs from "fs";
+import path from "path";
+import { ValidationError } from "./errors.js";
+import { TokenStore } from "./token-store.js";
+
+export const DEFAULT_PROFILE = "default";
+
+const FILE_MODE = 0o600;
+const DIR_MODE = 0o700;
+
+const PROFILE_NAME_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+/**
+ * Summary of a profile for listing
+ */
+export interface ProfileInfo {
+  name: string;
+  active: boolean;
+  authenticated: boolean;
+}
+
+/**
+ * Events emitted by the ProfileManager
+ */
+export interface ProfileManagerEvents {
+  switched: [string];
+  loggedOut: [string];
+}
+
+export interface ProfileManagerOptions {
+  baseDir: string;
+  createStore: (tokenPath: string) => TokenStore;
+  initialProfile?: string;
+}
+
+/**
+ * Validates a profile name and returns it
+ *
+ * @throws {ValidationError} If the name contains unsupported characters
+ */
+export function validateProfileName(name: string): string {
+  if (!PROFILE_NAME_PATTERN.test(name)) {
+    throw new ValidationError(
+      `Invalid profile name "${name}". Use 1-64 letters, digits, "-" or "_"`
+    );
+  }
+  return name;
+}
+
+/**
+ * Manages named profiles, each with its own token file
+ */
+export class ProfileManager extends EventEmitter<ProfileManagerEvents> {
+  private readonly options: ProfileManagerOptions;
+  private readonly stores = new Map<string, TokenStore>();
+  private activeProfile: string;
+
+  constructor(options: ProfileManagerOptions) {
+    super();
+    this.options = options;
+    this.activeProfile = options.initialProfile
+      ? validateProfileName(options.initialProfile)
+      : this.readActiveProfile();
+  }
+
+  /**
+   * Name of the active profile
+   */
+  get activeName(): string {
+    return this.activeProfile;
+  }
+
+  /**
+   * Path of the token file for a profile
+   */
+  tokenPathFor(name: string): string {
+    if (name === DEFAULT_PROFILE) {
+      return path.join(this.options.baseDir, "tokens.json");
+    }
+    return path.join(this.profilesDir, `${name}.json`);
+  }
+
+  /**
+   * Returns the token store of a profile, loading its tokens on first use
+   */
+  getStore(name: string): TokenStore {
+    validateProfileName(name);
+
+    let store = this.stores.get(name);
+    if (!store) {
+      store = this.options.createStore(this.tokenPathFor(name));
+      store.load();
+      this.stores.set(name, store);
+    }
+    return store;
+  }
+
+  /**
+   * Returns the token store of the active profile
+   */
+  activeStore(): TokenStore {
+    return this.getStore(this.activeProfile);
+  }
+
+  /**
+   * Lists the default profile, every profile with a token file and every profile used in this session
+   */
+  list(): ProfileInfo[] {
+    const names = new Set<string>([DEFAULT_PROFILE, this.activeProfile, ...this.stores.keys()]);
+
+    if (fs.existsSync(this.profilesDir)) {
+      for (const file of fs.readdirSync(this.profilesDir)) {
+        const name = path.basename(file, ".json");
+        if (file.endsWith(".json") && PROFILE_NAME_PATTERN.test(name)) {
+          names.add(name);
+        }
+      }
+    }
+
+    return Array.from(names)
+      .sort()
+      .map((name) => ({
+        name,
+        active: name === this.activeProfile,
+        authenticated: this.getStore(name).hasTokens(),
+      }));
+  }
+
+  /**
+   * Makes a profile active, creating it if it does not exist yet
+   *
+   * @param {string} name - Profile to switch to
+   * @returns {TokenStore} The token store of the newly active profile
+   */
+  switch(name: string): TokenStore {
+    validateProfileName(name);
+    this.activeProfile = name;
+    this.writeActiveProfile();
+    this.emit('switched', name);
+    return this.activeStore();
+  }
+
+  /**
+   * Drops the tokens of a profile and removes its token file
+   *
+   * @param {string} name - Profile to log out
+   */
+  logout(name: string): void {
+    const store = this.getStore(name);
+    store.invalidate(`Logged out of profile "${name}"`);
+    store.remove();
+
+    this.emit('loggedOut', name);
+  }
+
+  private get profilesDir(): string {
+    return path.join(this.options.baseDir, "profiles");
+  }
+
+  private get activeProfilePath(): string {
+    return path.join(this.options.baseDir, "active-profile.json");
+  }
+
+  /**
+   * Reads the persisted active profile, falling back to the default profile
+   */
+  private readActiveProfile(): string {
+    try {
+      if (fs.existsSync(this.activeProfilePath)) {
+        const data = JSON.parse(fs.readFileSync(this.activeProfilePath, "utf-8"));
+        if (typeof data.activeProfile === "string" && PROFILE_NAME_PATTERN.test(data.activeProfile)) {
+          return data.activeProfile;
+        }
+      }
+    } catch (error) {
+      console.error(`Error reading active profile: ${error}`);
+    }
+    return DEFAULT_PROFILE;
+  }
+
+  /**
+   * Persists the active profile so it survives restarts
+   */
+  private writeActiveProfile(): void {
+    try {
+      fs.mkdirSync(this.options.baseDir, { recursive: true, mode: DIR_MODE });
+      fs.writeFileSync(
+        this.activeProfilePath,
+        JSON.stringify({ activeProfile: this.activeProfile }, null, 2),
+        { mode: FILE_MODE }
+      );
+    } catch (error) {
+      console.error(`Error saving active profile: ${error}`);
+    }
+  }
+}
@@ -0,0 +1,131 @@
+/**
+ * MCP prompts
+ *
+ * This file defines the prompt library exposed through prompts/list and
+ * prompts/get. Each prompt turns a few arguments into instructions that name
+ * the exact tools to call, so that common workflows give consistent results
+ * across clients.
+ */
+import type { GetPromptResult, Prompt } from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import { ValidationError } from "./errors.js";
+
+interface PromptDefinition {
+  prompt: Prompt;
+  schema: z.ZodTypeAny;
+  render: (args: any) => string;
+}
+
+const MoodPlaylistSchema = z.object({
+  mood: z.string().min(1),
+  trackCount: z.coerce.number().int().min(1).max(100).default(20),
+  playlistName: z.string().optional(),
+});
+
+const ListeningSummarySchema = z.object({
+  focus: z.string().optional(),
+});
+
+const PlaylistCleanupSchema = z.object({
+  playlistId: z.string().min(1),
+  criteria: z.string().optional(),
+});
+
+const PROMPT_DEFINITIONS: PromptDefinition[] = [
+  {
+    prompt: {
+      name: "mood-playlist",
+      description: "Build a new playlist that fits a mood",
+      arguments: [
+        { name: "mood", description: "The mood, activity or vibe, e.g. \"rainy sunday morning\"", required: true },
+        { name: "trackCount", description: "Number of tracks to add (1-100, default: 20)" },
+        { name: "playlistName", description: "Name of the playlist (default: chosen from the mood)" },
+      ],
+    },
+    schema: MoodPlaylistSchema,
+    render: ({ mood, trackCount, playlistName }: z.infer<typeof MoodPlaylistSchema>) => `Build a Spotify playlist for this mood: "${mood}".
+
+1. Call get-top-tracks with time_range "medium_term" to learn my taste, and use it to lean towards artists and genres I like.
+2. Come up with search queries that fit the mood (artists, genres, well-known songs) and call search-spotify with type "track" for each, until you have ${trackCount} suitable tracks. Avoid duplicates and keep at most 3 tracks per artist.
+3. Call create-playlist with the name ${playlistName ? `"${playlistName}"` : "of your choice, based on the mood"} and a one-sentence description of the mood.
+4. Call add-tracks-to-playlist once with the playlist ID and all the track IDs, in the order they should be played.
+
+Finish with the playlist URL and a short list of the tracks, explaining in one line how the selection fits the mood.`,
+  },
+  {
+    prompt: {
+      name: "monthly-listening-summary",
+      description: "Summarize what I listened to over the past month",
+      arguments: [
+        { name: "focus", description: "Optional angle for the summary, e.g. \"new discoveries\" or \"genres\"" },
+      ],
+    },
+    schema: ListeningSummarySchema,
+    render: ({ focus }: z.infer<typeof ListeningSummarySchema>) => `Summarize my Spotify listening over the past month.
+
+1. Call get-top-tracks with time_range "short_term" (about the last 4 weeks) and fetchAll true to get my top tracks for the month.
+2. Call get-top-tracks with time_range "medium_term" so you can point out what is new this month compared to the last six months.
+3. Call get-recently-played with limit 50 to see what I played most recently.
+
+Write a short summary with: my top 5 tracks and top artists of the month, recurring genres or moods, tracks that are new compared to the six-month list, and one sentence on how my listening changed.${focus ? ` Pay particular attention to: ${focus}.` : ""}`,
+  },
+  {
+    prompt: {
+      name: "clean-up-playlist",
+      description: "Find and remove duplicates, unavailable tracks and misfits from a playlist",
+      arguments: [
+        { name: "playlistId", description: "Spotify ID of the playlist to clean up", required: true },
+        { name: "criteria", description: "Optional extra rules, e.g. \"remove anything slower than the rest\"" },
+      ],
+    },
+    schema: PlaylistCleanupSchema,
+    render: ({ playlistId, criteria }: z.infer<typeof PlaylistCleanupSchema>) => `Clean up the Spotify playlist with ID ${playlistId}.
+
+1. Call find-playlist-duplicates with playlistId "${playlistId}" and mode "fuzzy" to find tracks listed more than once, including the same song on different releases.
+2. Call get-playlist-tracks with playlistId "${playlistId}" and fetchAll true to read the whole playlist, and identify other tracks to remove: unavailable tracks, and tracks that clearly do not fit the rest of the playlist${criteria ? `, and tracks matching these rules: ${criteria}` : ""}.
+3. Show me the duplicates and the other tracks you would remove with the reason for each, and wait for my confirmation.
+4. Once I confirm, call dedupe-playlist with the playlist ID and the same mode to remove the duplicates; it keeps the first occurrence of each track where it is. Then call remove-tracks-from-playlist with the track IDs of the other tracks to remove. It removes every occurrence of a track, so never use it for duplicates.
+5. If the order of the remaining tracks can be improved, suggest moves and apply the ones I approve with reorder-playlist-tracks.`,
+  },
+];
+
+export const PROMPTS: Prompt[] = PROMPT_DEFINITIONS.map((definition) => definition.prompt);
+
+/**
+ * Renders a prompt with its arguments
+ *
+ * @param {string} name - Name of the prompt
+ * @param {Record<string, string>} args - Prompt arguments as sent by the client
+ * @returns {GetPromptResult} The prompt description and its user message
+ * @throws {ValidationError} If the prompt does not exist or the arguments are invalid
+ */
+export function getPrompt(name: string, args: Record<string, string> = {}): GetPromptResult {
+  const definition = PROMPT_DEFINITIONS.find((candidate) => candidate.prompt.name === name);
+
+  if (!definition) {
+    throw new ValidationError(`Unknown prompt: ${name}`);
+  }
+
+  const parsed = definition.schema.safeParse(args);
+  if (!parsed.success) {
+    throw new ValidationError(
+      `Invalid arguments for prompt ${name}: ${parsed.error.errors
+        .map((e) => `${e.path.join(".")}: ${e.message}`)
+        .join(", ")}`,
+      parsed.error.errors
+    );
+  }
+
+  return {
+    description: definition.prompt.description,
+    messages: [
+      {
+        role: "user",
+        content: {
+          type: "text",
+          text: definition.render(parsed.data),
+        },
+      },
+    ],
+  };
+}
@@ -0,0 +1,232 @@
+/**
+ * Rate-limit aware request scheduler
+ *
+ * This file defines the RequestScheduler used by the API layer. It caps the
+ * number of concurrent requests, pauses the queue when Spotify answers 429
+ * and honors its Retry-After header, and retries server and network errors
+ * with exponential backoff and jitter.
+ */
+
+/**
+ * Error codes of network failures that are worth retrying
+ */
+const RETRYABLE_NETWORK_CODES = new Set([
+  "ECONNRESET",
+  "ECONNREFUSED",
+  "ECONNABORTED",
+  "ETIMEDOUT",
+  "EAI_AGAIN",
+  "ENOTFOUND",
+  "EPIPE",
+]);
+
+export interface RequestSchedulerOptions {
+  maxConcurrency: number;
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  // Give up instead of waiting when Retry-After asks for longer than this
+  maxRetryAfterMs: number;
+  random?: () => number;
+}
+
+export interface ScheduleOptions {
+  // Whether 5xx responses and network errors may be retried. Disable for
+  // requests that are not safe to repeat, such as adding items to a playlist.
+  retryOnServerError?: boolean;
+}
+
+/**
+ * Counters describing the scheduler's activity since it was created
+ */
+export interface SchedulerMetrics {
+  queued: number;
+  waiting: number;
+  active: number;
+  succeeded: number;
+  retried: number;
+  rateLimited: number;
+  failed: number;
+}
+
+export const DEFAULT_SCHEDULER_OPTIONS: RequestSchedulerOptions = {
+  maxConcurrency: 4,
+  maxRetries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 10000,
+  maxRetryAfterMs: 60000,
+};
+
+/**
+ * Parses a Retry-After header value into milliseconds
+ *
+ * @param {string | number | undefined} value - Seconds to wait, or an HTTP date
+ * @returns {number | null} The delay in milliseconds, or null if the header is missing or invalid
+ */
+export function parseRetryAfter(value: string | number | undefined, now: number = Date.now()): number | null {
+  if (value === undefined || value === null || value === "") {
+    return null;
+  }
+
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(String(value));
+  return Number.isNaN(date) ? null : Math.max(0, date - now);
+}
+
+/**
+ * Queues requests and retries them according to Spotify's rate limiting rules
+ */
+export class RequestScheduler {
+  private readonly options: RequestSchedulerOptions;
+  private readonly random: () => number;
+  private readonly queue: Array<() => Promise<void>> = [];
+  private active = 0;
+  private waiting = 0;
+  private pausedUntil = 0;
+  private resumeTimer: NodeJS.Timeout | null = null;
+  private readonly counters = {
+    queued: 0,
+    succeeded: 0,
+    retried: 0,
+    rateLimited: 0,
+    failed: 0,
+  };
+
+  constructor(options: Partial<RequestSchedulerOptions> = {}) {
+    this.options = { ...DEFAULT_SCHEDULER_OPTIONS, ...options };
+    this.random = options.random || Math.random;
+  }
+
+  /**
+   * Returns a snapshot of the scheduler metrics
+   */
+  getMetrics(): SchedulerMetrics {
+    return {
+      ...this.counters,
+      waiting: this.waiting,
+      active: this.active,
+    };
+  }
+
+  /**
+   * Runs a request once a slot is free, retrying it when appropriate
+   *
+   * @param {Function} task - Performs the request; called again for every retry
+   * @param {ScheduleOptions} options - Retry options for this request
+   * @returns {Promise<T>} The result of the first successful attempt
+   * @throws The error of the last attempt when the request cannot be retried
+   */
+  schedule<T>(task: () => Promise<T>, options: ScheduleOptions = {}): Promise<T> {
+    const retryOnServerError = options.retryOnServerError ?? true;
+    this.counters.queued++;
+
+    return new Promise<T>((resolve, reject) => {
+      const attempt = (attemptNumber: number) => async () => {
+        try {
+          resolve(await task());
+          this.counters.succeeded++;
+        } catch (error: any) {
+          const delay = this.retryDelay(error, attemptNumber, retryOnServerError);
+
+          if (delay === null) {
+            this.counters.failed++;
+            reject(error);
+            return;
+          }
+
+          this.counters.retried++;
+
+          if (error.response?.status === 429) {
+            this.counters.rateLimited++;
+            console.error(`Rate limited by Spotify, pausing requests for ${delay}ms`);
+            this.pausedUntil = Math.max(this.pausedUntil, Date.now() + delay);
+            this.enqueue(attempt(attemptNumber + 1), true);
+            return;
+          }
+
+          console.error(`Request failed (${error.response?.status || error.code || error.message}), retrying in ${delay}ms`);
+          setTimeout(() => this.enqueue(attempt(attemptNumber + 1), true), delay);
+        }
+      };
+
+      this.enqueue(attempt(0));
+    });
+  }
+
+  /**
+   * Returns how long to wait before retrying, or null if the error is final
+   */
+  private retryDelay(error: any, attemptNumber: number, retryOnServerError: boolean): number | null {
+    if (attemptNumber >= this.options.maxRetries) {
+      return null;
+    }
+
+    const status: number | undefined = error?.response?.status;
+
+    if (status === 429) {
+      const retryAfter = parseRetryAfter(error.response.headers?.["retry-after"]);
+      if (retryAfter === null) {
+        return this.backoff(attemptNumber);
+      }
+      return retryAfter <= this.options.maxRetryAfterMs ? retryAfter : null;
+    }
+
+    if (!retryOnServerError) {
+      return null;
+    }
+
+    if (status !== undefined) {
+      return status >= 500 ? this.backoff(attemptNumber) : null;
+    }
+
+    return RETRYABLE_NETWORK_CODES.has(error?.code) ? this.backoff(attemptNumber) : null;
+  }
+
+  /**
+   * Exponential backoff with full jitter
+   */
+  private backoff(attemptNumber: number): number {
+    const cap = Math.min(this.options.maxDelayMs, this.options.baseDelayMs * 2 ** attemptNumber);
+    return Math.floor(this.random() * cap);
+  }
+
+  private enqueue(job: () => Promise<void>, front: boolean = false): void {
+    if (front) {
+      this.queue.unshift(job);
+    } else {
+      this.queue.push(job);
+    }
+    this.waiting++;
+    this.drain();
+  }
+
+  /**
+   * Starts queued jobs while slots are free and the queue is not paused
+   */
+  private drain(): void {
+    while (this.active < this.options.maxConcurrency && this.queue.length > 0) {
+      const pause = this.pausedUntil - Date.now();
+      if (pause > 0) {
+        if (!this.resumeTimer) {
+          this.resumeTimer = setTimeout(() => {
+            this.resumeTimer = null;
+            this.drain();
+          }, pause);
+        }
+        return;
+      }
+
+      const job = this.queue.shift() as () => Promise<void>;
+      this.waiting--;
+      this.active++;
+      job().finally(() => {
+        this.active--;
+        this.drain();
+      });
+    }
+  }
+}
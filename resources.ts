@@ -0,0 +1,176 @@
+/**
+ * MCP resources
+ *
+ * This file describes the read-only Spotify data exposed as MCP resources,
+ * so that clients can attach it as context without a tool call, and reads
+ * their contents through the SpotifyClient. Contents are JSON documents
+ * trimmed down to the fields useful as context.
+ */
+import type { ReadResourceResult, Resource, ResourceTemplate } from "@modelcontextprotocol/sdk/types.js";
+import { ValidationError } from "./errors.js";
+import { SpotifyClient, collectItems } from "./spotify-client.js";
+import type { SpotifyPlayback, SpotifyPlaylist, SpotifyTrack, SpotifyUser } from "./types.js";
+
+export const ME_URI = "spotify://me";
+export const CURRENT_PLAYBACK_URI = "spotify://player/current";
+export const PLAYLISTS_URI = "spotify://playlists";
+
+const PLAYLIST_URI_PREFIX = "spotify://playlist/";
+
+// Upper bounds on the items included in list resources
+const MAX_PLAYLISTS = 1000;
+const MAX_PLAYLIST_ITEMS = 1000;
+
+const JSON_MIME_TYPE = "application/json";
+
+export const RESOURCES: Resource[] = [
+  {
+    uri: ME_URI,
+    name: "Spotify profile",
+    description: "Profile of the authenticated Spotify user",
+    mimeType: JSON_MIME_TYPE,
+  },
+  {
+    uri: CURRENT_PLAYBACK_URI,
+    name: "Current playback",
+    description: "The track currently playing and the state of the active device. Subscribe to be notified when the track changes",
+    mimeType: JSON_MIME_TYPE,
+  },
+  {
+    uri: PLAYLISTS_URI,
+    name: "Playlists",
+    description: "Playlists in the user's library",
+    mimeType: JSON_MIME_TYPE,
+  },
+];
+
+export const RESOURCE_TEMPLATES: ResourceTemplate[] = [
+  {
+    uriTemplate: `${PLAYLIST_URI_PREFIX}{id}`,
+    name: "Playlist",
+    description: "Details and tracks of a playlist, by Spotify playlist ID",
+    mimeType: JSON_MIME_TYPE,
+  },
+];
+
+/**
+ * Whether clients can subscribe to updates of a resource
+ */
+export function isSubscribable(uri: string): boolean {
+  return uri === CURRENT_PLAYBACK_URI;
+}
+
+function summarizeTrack(track: SpotifyTrack) {
+  return {
+    id: track.id,
+    uri: track.uri,
+    name: track.name,
+    artists: track.artists.map((artist) => artist.name),
+    album: track.album?.name,
+    duration_ms: track.duration_ms,
+    url: track.external_urls.spotify,
+  };
+}
+
+function summarizeUser(user: SpotifyUser) {
+  return {
+    id: user.id,
+    display_name: user.display_name,
+    email: user.email,
+    country: user.country,
+    url: user.external_urls.spotify,
+  };
+}
+
+function summarizePlayback(playback: SpotifyPlayback | null) {
+  if (!playback) {
+    return { active: false, is_playing: false, track: null };
+  }
+
+  return {
+    active: true,
+    is_playing: playback.is_playing,
+    progress_ms: playback.progress_ms,
+    track: playback.item ? summarizeTrack(playback.item) : null,
+    device: {
+      id: playback.device.id,
+      name: playback.device.name,
+      volume_percent: playback.device.volume_percent,
+    },
+    shuffle_state: playback.shuffle_state,
+    repeat_state: playback.repeat_state,
+  };
+}
+
+function summarizePlaylist(playlist: SpotifyPlaylist) {
+  return {
+    id: playlist.id,
+    resource: `${PLAYLIST_URI_PREFIX}${playlist.id}`,
+    name: playlist.name,
+    description: playlist.description,
+    owner: playlist.owner.display_name || playlist.owner.id || null,
+    public: playlist.public,
+    collaborative: playlist.collaborative,
+    total_tracks: playlist.items?.total ?? playlist.tracks?.total ?? null,
+    snapshot_id: playlist.snapshot_id,
+    url: playlist.external_urls.spotify,
+  };
+}
+
+async function readPlaylist(client: SpotifyClient, playlistId: string) {
+  const playlist = await client.getPlaylist(playlistId);
+  const listing = await collectItems(client.playlistItemPages(playlistId), MAX_PLAYLIST_ITEMS);
+
+  return {
+    ...summarizePlaylist(playlist),
+    total_tracks: listing.total,
+    truncated: listing.truncated,
+    tracks: listing.items.map((entry, index) => {
+      const track = entry.item || entry.track;
+      return {
+        position: index,
+        added_at: entry.added_at ?? null,
+        ...(track ? summarizeTrack(track) : { unavailable: true }),
+      };
+    }),
+  };
+}
+
+/**
+ * Reads the contents of a resource
+ *
+ * @param {SpotifyClient} client - Client used to fetch the data
+ * @param {string} uri - URI of one of the resources or of a playlist
+ * @returns {Promise<ReadResourceResult>} The resource contents as JSON
+ * @throws {ValidationError} If the URI does not name a known resource
+ */
+export async function readResource(client: SpotifyClient, uri: string): Promise<ReadResourceResult> {
+  let data: unknown;
+
+  if (uri === ME_URI) {
+    data = summarizeUser(await client.getCurrentUser());
+  } else if (uri === CURRENT_PLAYBACK_URI) {
+    data = summarizePlayback(await client.getPlayback());
+  } else if (uri === PLAYLISTS_URI) {
+    const listing = await collectItems(client.userPlaylistPages(), MAX_PLAYLISTS);
+    data = {
+      total: listing.total,
+      truncated: listing.truncated,
+      playlists: listing.items.map(summarizePlaylist),
+    };
+  } else if (uri.startsWith(PLAYLIST_URI_PREFIX) && uri.length > PLAYLIST_URI_PREFIX.length) {
+    data = await readPlaylist(client, decodeURIComponent(uri.slice(PLAYLIST_URI_PREFIX.length)));
+  } else {
+    throw new ValidationError(`Unknown resource: ${uri}`);
+  }
+
+  return {
+    contents: [
+      {
+        uri,
+        mimeType: JSON_MIME_TYPE,
+        text: JSON.stringify(data, null, 2),
+      },
+    ],
+  };
+}
@@ -0,0 +1,253 @@
+/**
+ * Runtime validation schemas for Spotify API responses
+ *
+ * This file mirrors the interfaces in types.ts as zod schemas, so that the
+ * SpotifyClient can check the shape of every response before handing it to
+ * the tool handlers. Schemas only require the fields the server relies on and
+ * pass any other fields through untouched.
+ */
+import { z } from "zod";
+import type {
+  SpotifyAlbum,
+  SpotifyAlbumTrack,
+  SpotifyArtist,
+  SpotifyDevice,
+  SpotifyEpisode,
+  SpotifyImage,
+  SpotifyPlayback,
+  SpotifyPlaylist,
+  SpotifyRecommendationsResponse,
+  SpotifyTrack,
+  SpotifyUser,
+} from "./types.js";
+
+const ExternalUrlsSchema = z.object({
+  spotify: z.string(),
+}).passthrough();
+
+export const ImageSchema: z.ZodType<SpotifyImage, z.ZodTypeDef, unknown> = z.object({
+  url: z.string(),
+  height: z.number().nullable().optional(),
+  width: z.number().nullable().optional(),
+}).passthrough();
+
+export const ArtistSchema: z.ZodType<SpotifyArtist, z.ZodTypeDef, unknown> = z.object({
+  id: z.string(),
+  name: z.string(),
+  genres: z.array(z.string()).optional(),
+  popularity: z.number().optional(),
+  followers: z.object({ total: z.number() }).passthrough().optional(),
+  external_urls: ExternalUrlsSchema,
+}).passthrough();
+
+export const AlbumTrackSchema: z.ZodType<SpotifyAlbumTrack, z.ZodTypeDef, unknown> = z.object({
+  id: z.string(),
+  name: z.string(),
+  uri: z.string().optional(),
+  duration_ms: z.number(),
+  artists: z.array(ArtistSchema),
+  track_number: z.number(),
+  disc_number: z.number(),
+  explicit: z.boolean().optional(),
+  external_urls: ExternalUrlsSchema,
+}).passthrough();
+
+export const AlbumSchema: z.ZodType<SpotifyAlbum, z.ZodTypeDef, unknown> = z.object({
+  id: z.string(),
+  name: z.string(),
+  artists: z.array(ArtistSchema),
+  release_date: z.string(),
+  total_tracks: z.number(),
+  album_type: z.string().optional(),
+  label: z.string().optional(),
+  copyrights: z.array(z.object({ text: z.string(), type: z.string() }).passthrough()).optional(),
+  tracks: pagingSchema(AlbumTrackSchema).optional(),
+  external_urls: ExternalUrlsSchema,
+}).passthrough();
+
+export const TrackSchema: z.ZodType<SpotifyTrack, z.ZodTypeDef, unknown> = z.object({
+  id: z.string(),
+  name: z.string(),
+  uri: z.string().optional(),
+  duration_ms: z.number(),
+  artists: z.array(ArtistSchema),
+  album: AlbumSchema,
+  popularity: z.number().optional(),
+  explicit: z.boolean().optional(),
+  external_ids: z.object({ isrc: z.string().optional() }).passthrough().optional(),
+  available_markets: z.array(z.string()).optional(),
+  external_urls: ExternalUrlsSchema,
+}).passthrough();
+
+export const EpisodeSchema: z.ZodType<SpotifyEpisode, z.ZodTypeDef, unknown> = z.object({
+  id: z.string(),
+  name: z.string(),
+  uri: z.string().optional(),
+  duration_ms: z.number(),
+  type: z.literal("episode"),
+  show: z.object({ name: z.string() }).passthrough().optional(),
+  external_urls: ExternalUrlsSchema,
+}).passthrough();
+
+/**
+ * A track or an episode; anything else is turned into null
+ */
+const PlayableSchema = z.union([EpisodeSchema, TrackSchema]).nullable().catch(null);
+
+/**
+ * A track that may be missing or unusable (local files, episodes, removed
+ * tracks). Anything that is not a valid track is turned into null instead
+ * of failing the whole response.
+ */
+const OptionalTrackSchema = TrackSchema.nullable().optional().catch(null);
+
+export const PlaylistSchema: z.ZodType<SpotifyPlaylist, z.ZodTypeDef, unknown> = z.object({
+  id: z.string(),
+  name: z.string(),
+  description: z.string().nullable(),
+  snapshot_id: z.string().optional(),
+  owner: z.object({
+    display_name: z.string().nullable().optional(),
+    id: z.string().optional(),
+  }).passthrough(),
+  items: z.object({ total: z.number() }).passthrough().optional(),
+  tracks: z.object({ total: z.number() }).passthrough().optional(),
+  public: z.boolean().nullable(),
+  collaborative: z.boolean().optional(),
+  external_urls: ExternalUrlsSchema,
+}).passthrough();
+
+export const PlaylistItemSchema = z.object({
+  added_at: z.string().nullable().optional(),
+  added_by: z.object({
+    id: z.string(),
+    display_name: z.string().nullable().optional(),
+  }).passthrough().nullable().optional().catch(null),
+  item: OptionalTrackSchema,
+  track: OptionalTrackSchema,
+}).passthrough();
+
+export const SavedTrackSchema = z.object({
+  added_at: z.string(),
+  track: TrackSchema,
+}).passthrough();
+
+export const SavedAlbumSchema = z.object({
+  added_at: z.string(),
+  album: AlbumSchema,
+}).passthrough();
+
+export const PlayHistorySchema = z.object({
+  track: TrackSchema,
+  played_at: z.string(),
+}).passthrough();
+
+export const DeviceSchema: z.ZodType<SpotifyDevice, z.ZodTypeDef, unknown> = z.object({
+  id: z.string().nullable(),
+  name: z.string(),
+  type: z.string(),
+  is_active: z.boolean(),
+  is_private_session: z.boolean().optional(),
+  is_restricted: z.boolean(),
+  volume_percent: z.number().nullable(),
+  supports_volume: z.boolean().optional(),
+}).passthrough();
+
+export const DevicesResponseSchema = z.object({
+  devices: z.array(DeviceSchema),
+}).passthrough();
+
+export const PlaybackSchema: z.ZodType<SpotifyPlayback, z.ZodTypeDef, unknown> = z.object({
+  is_playing: z.boolean(),
+  progress_ms: z.number().nullable(),
+  item: OptionalTrackSchema,
+  device: z.object({
+    id: z.string().nullable(),
+    name: z.string(),
+    volume_percent: z.number().nullable(),
+  }).passthrough(),
+  shuffle_state: z.boolean(),
+  repeat_state: z.enum(["off", "track", "context"]),
+}).passthrough();
+
+export const QueueSchema = z.object({
+  currently_playing: PlayableSchema.optional().transform((item) => item ?? null),
+  queue: z.array(PlayableSchema),
+}).passthrough();
+
+export const UserSchema: z.ZodType<SpotifyUser, z.ZodTypeDef, unknown> = z.object({
+  id: z.string(),
+  display_name: z.string().nullable(),
+  email: z.string().optional(),
+  country: z.string().optional(),
+  images: z.array(ImageSchema).optional(),
+  external_urls: ExternalUrlsSchema,
+}).passthrough();
+
+export const SnapshotSchema = z.object({
+  snapshot_id: z.string(),
+}).passthrough();
+
+/**
+ * Builds the schema of an offset-based paging object
+ */
+export function pagingSchema<T extends z.ZodTypeAny>(item: T) {
+  return z.object({
+    items: z.array(item),
+    total: z.number(),
+    limit: z.number().optional(),
+    offset: z.number().optional(),
+    next: z.string().nullable().optional(),
+  }).passthrough();
+}
+
+/**
+ * Builds the schema of a cursor-based paging object
+ */
+export function cursorPagingSchema<T extends z.ZodTypeAny>(item: T) {
+  return z.object({
+    items: z.array(item),
+    total: z.number().optional(),
+    next: z.string().nullable().optional(),
+    cursors: z.object({
+      after: z.string().nullable().optional(),
+      before: z.string().nullable().optional(),
+    }).passthrough().nullable().optional(),
+  }).passthrough();
+}
+
+export const RelatedArtistsResponseSchema = z.object({
+  artists: z.array(ArtistSchema),
+}).passthrough();
+
+export const ArtistTopTracksResponseSchema = z.object({
+  tracks: z.array(TrackSchema),
+}).passthrough();
+
+/**
+ * Followed artists come as a cursor-based paging object under `artists`
+ */
+export const FollowedArtistsResponseSchema = z.object({
+  artists: cursorPagingSchema(ArtistSchema),
+}).passthrough();
+
+/**
+ * Search results; Spotify may return null entries in the item lists
+ */
+export const SearchResponseSchema = z.object({
+  tracks: z.object({ items: z.array(TrackSchema.nullable()) }).passthrough().optional(),
+  albums: z.object({ items: z.array(AlbumSchema.nullable()) }).passthrough().optional(),
+  artists: z.object({ items: z.array(ArtistSchema.nullable()) }).passthrough().optional(),
+  playlists: z.object({ items: z.array(PlaylistSchema.nullable()) }).passthrough().optional(),
+}).passthrough();
+
+export const RecommendationsResponseSchema: z.ZodType<SpotifyRecommendationsResponse, z.ZodTypeDef, unknown> = z.object({
+  tracks: z.array(TrackSchema),
+  seeds: z.array(z.object({
+    id: z.string(),
+    type: z.preprocess(
+      (value) => typeof value === "string" ? value.toLowerCase() : value,
+      z.enum(["track", "artist", "genre"])
+    ),
+  }).passthrough()),
+}).passthrough();
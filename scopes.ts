@@ -0,0 +1,87 @@
+/**
+ * OAuth scopes required by the tools
+ *
+ * This file declares the Spotify scopes each tool needs, so that a tool call
+ * can be checked against the scopes granted to the stored tokens before any
+ * request is made, and the user can be asked to authorize again when some
+ * are missing. Tools that are not listed need no scope.
+ */
+
+const READ_PLAYBACK = "user-read-playback-state";
+const MODIFY_PLAYBACK = "user-modify-playback-state";
+const READ_PLAYLISTS = "playlist-read-private";
+const MODIFY_PLAYLISTS = ["playlist-modify-private", "playlist-modify-public"];
+
+// Tools that change or delete a playlist save a snapshot of it first
+const CHANGE_PLAYLIST = [...MODIFY_PLAYLISTS, READ_PLAYLISTS];
+
+// Tools taking a device name look it up in the device list, which needs READ_PLAYBACK
+const CONTROL_DEVICE = [MODIFY_PLAYBACK, READ_PLAYBACK];
+
+export const TOOL_SCOPES: Record<string, string[]> = {
+  "get-current-playback": [READ_PLAYBACK],
+  "get-queue": [READ_PLAYBACK],
+  "add-to-queue": CONTROL_DEVICE,
+  "queue-playlist-slice": [...CONTROL_DEVICE, READ_PLAYLISTS],
+  "list-devices": [READ_PLAYBACK],
+  "transfer-playback": CONTROL_DEVICE,
+  "play-track": CONTROL_DEVICE,
+  "resume-playback": CONTROL_DEVICE,
+  "pause-playback": [MODIFY_PLAYBACK],
+  "next-track": [MODIFY_PLAYBACK],
+  "previous-track": [MODIFY_PLAYBACK],
+  "set-volume": CONTROL_DEVICE,
+  "seek-to-position": CONTROL_DEVICE,
+  "set-shuffle": CONTROL_DEVICE,
+  "set-repeat-mode": CONTROL_DEVICE,
+  "get-user-playlists": [READ_PLAYLISTS],
+  "create-playlist": MODIFY_PLAYLISTS,
+  "add-tracks-to-playlist": MODIFY_PLAYLISTS,
+  "get-playlist-tracks": [READ_PLAYLISTS],
+  "export-playlist": [READ_PLAYLISTS],
+  "import-playlist": MODIFY_PLAYLISTS,
+  "delete-playlist": CHANGE_PLAYLIST,
+  "remove-tracks-from-playlist": CHANGE_PLAYLIST,
+  "update-playlist": CHANGE_PLAYLIST,
+  "get-playlist-cover": [READ_PLAYLISTS],
+  "upload-playlist-cover": ["ugc-image-upload", ...MODIFY_PLAYLISTS],
+  "reorder-playlist-tracks": CHANGE_PLAYLIST,
+  "find-playlist-duplicates": [READ_PLAYLISTS],
+  "dedupe-playlist": CHANGE_PLAYLIST,
+  "diff-playlist-snapshots": [READ_PLAYLISTS],
+  "restore-playlist-snapshot": CHANGE_PLAYLIST,
+  "get-recently-played": ["user-read-recently-played"],
+  // Syncs the recently played tracks into the history first
+  "query-listening-history": ["user-read-recently-played"],
+  "get-top-tracks": ["user-top-read"],
+  "get-top-artists": ["user-top-read"],
+  "listening-summary": ["user-top-read", "user-read-recently-played"],
+  "get-saved-tracks": ["user-library-read"],
+  "save-tracks": ["user-library-modify"],
+  "remove-saved-tracks": ["user-library-modify"],
+  "check-saved-tracks": ["user-library-read"],
+  "get-saved-albums": ["user-library-read"],
+  "save-albums": ["user-library-modify"],
+  "get-followed-artists": ["user-follow-read"],
+};
+
+/**
+ * Scopes a tool needs
+ */
+export function requiredScopes(toolName: string): string[] {
+  return TOOL_SCOPES[toolName] ?? [];
+}
+
+/**
+ * Scopes a tool needs that were not granted
+ *
+ * @param {string} toolName - Name of the tool
+ * @param {string[] | null} granted - Granted scopes, or null when unknown
+ * @returns {string[]} The missing scopes; empty when the granted scopes are unknown
+ */
+export function missingScopes(toolName: string, granted: string[] | null): string[] {
+  if (!granted) {
+    return [];
+  }
+  return requiredScopes(toolName).filter((scope) => !granted.includes(scope));
+}
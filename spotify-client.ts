@@ -0,0 +1,912 @@
+/**
+ * Typed Spotify Web API client
+ *
+ * This file defines the SpotifyClient, the only way the tool handlers talk to
+ * Spotify. It has one method per endpoint, sends every request through the
+ * request scheduler with the active profile's access token, and validates
+ * each response against the schemas in response-schemas.ts before returning
+ * it as the interfaces from types.ts.
+ */
+import axios from "axios";
+import { z } from "zod";
+import { APIError, AuthenticationError, InsufficientScopeError } from "./errors.js";
+import { RequestScheduler } from "./request-scheduler.js";
+import {
+  AlbumSchema,
+  AlbumTrackSchema,
+  ArtistSchema,
+  ArtistTopTracksResponseSchema,
+  DevicesResponseSchema,
+  FollowedArtistsResponseSchema,
+  ImageSchema,
+  PlayHistorySchema,
+  PlaybackSchema,
+  PlaylistItemSchema,
+  PlaylistSchema,
+  QueueSchema,
+  RecommendationsResponseSchema,
+  RelatedArtistsResponseSchema,
+  SavedAlbumSchema,
+  SavedTrackSchema,
+  SearchResponseSchema,
+  SnapshotSchema,
+  TrackSchema,
+  UserSchema,
+  cursorPagingSchema,
+  pagingSchema,
+} from "./response-schemas.js";
+import type { TokenStore } from "./token-store.js";
+import type {
+  SpotifyAlbum,
+  SpotifyAlbumTrack,
+  SpotifyArtist,
+  SpotifyCursorPaging,
+  SpotifyDevice,
+  SpotifyImage,
+  SpotifyPaging,
+  SpotifyPlayHistory,
+  SpotifyPlayback,
+  SpotifyPlaylist,
+  SpotifyPlaylistItem,
+  SpotifyQueue,
+  SpotifyRecommendationsResponse,
+  SpotifySavedAlbum,
+  SpotifySavedTrack,
+  SpotifySearchResponse,
+  SpotifySnapshot,
+  SpotifyTrack,
+  SpotifyUser,
+} from "./types.js";
+
+/**
+ * Spotify accepts at most 100 items per playlist add/remove request
+ */
+export const PLAYLIST_ITEMS_BATCH_SIZE = 100;
+
+/**
+ * Spotify accepts at most 50 track IDs and 20 album IDs per library request
+ */
+export const SAVED_TRACKS_BATCH_SIZE = 50;
+export const SAVED_ALBUMS_BATCH_SIZE = 20;
+
+/**
+ * Largest page size accepted by the list endpoints, used when iterating
+ */
+export const MAX_PAGE_SIZE = 50;
+
+export type SearchType = "track" | "album" | "artist" | "playlist";
+
+export type TimeRange = "short_term" | "medium_term" | "long_term";
+
+export type RepeatMode = "off" | "track" | "context";
+
+/**
+ * Minimal HTTP client used to talk to the Web API
+ */
+export type SpotifyHttpClient = (config: {
+  method: string;
+  url: string;
+  headers: Record<string, string>;
+  data?: any;
+}) => Promise<{ data: any }>;
+
+export interface SpotifyClientOptions {
+  apiBase: string;
+  scheduler: RequestScheduler;
+  getTokenStore: () => TokenStore;
+  httpClient?: SpotifyHttpClient;
+}
+
+/**
+ * Items collected from a paginated endpoint
+ */
+export interface CollectedItems<T> {
+  items: T[];
+  // Total number of items reported by Spotify
+  total: number;
+  // Whether items were left out because of the item limit
+  truncated: boolean;
+}
+
+interface RequestOptions {
+  method?: string;
+  data?: any;
+  contentType?: string;
+  // Whether server and network errors may be retried; defaults to all methods but POST
+  retryable?: boolean;
+}
+
+/**
+ * What to play: a list of track or episode URIs, or a context (album,
+ * playlist, artist or show) optionally starting at an offset
+ */
+export interface PlayOptions {
+  uris?: string[];
+  contextUri?: string;
+  offset?: { position: number } | { uri: string };
+  positionMs?: number;
+}
+
+/**
+ * Fields of a playlist that can be changed
+ */
+export interface PlaylistDetails {
+  name?: string;
+  description?: string;
+  public?: boolean;
+  collaborative?: boolean;
+}
+
+/**
+ * Typed wrapper around the Spotify Web API endpoints used by the server
+ */
+export class SpotifyClient {
+  private readonly options: SpotifyClientOptions;
+  private readonly httpClient: SpotifyHttpClient;
+
+  constructor(options: SpotifyClientOptions) {
+    this.options = options;
+    this.httpClient = options.httpClient || (axios as unknown as SpotifyHttpClient);
+  }
+
+  /**
+   * Get the profile of the current user
+   */
+  async getCurrentUser(): Promise<SpotifyUser> {
+    return this.get("/me", UserSchema);
+  }
+
+  /**
+   * Search for tracks, albums, artists or playlists
+   */
+  async search(query: string, type: SearchType, limit: number): Promise<SpotifySearchResponse> {
+    const params = new URLSearchParams({ q: query, type, limit: limit.toString() });
+    const results = await this.get(`/search?${params}`, SearchResponseSchema);
+
+    // Spotify may include null entries in search results
+    return {
+      tracks: results.tracks && { items: results.tracks.items.filter(isPresent) },
+      albums: results.albums && { items: results.albums.items.filter(isPresent) },
+      artists: results.artists && { items: results.artists.items.filter(isPresent) },
+      playlists: results.playlists && { items: results.playlists.items.filter(isPresent) },
+    };
+  }
+
+  /**
+   * Get an artist, with genres, popularity and followers
+   */
+  async getArtist(artistId: string): Promise<SpotifyArtist> {
+    return this.get(`/artists/${encodeURIComponent(artistId)}`, ArtistSchema);
+  }
+
+  /**
+   * Get the most popular tracks of an artist
+   */
+  async getArtistTopTracks(artistId: string): Promise<SpotifyTrack[]> {
+    const response = await this.get(`/artists/${encodeURIComponent(artistId)}/top-tracks`, ArtistTopTracksResponseSchema);
+    return response.tracks;
+  }
+
+  /**
+   * Get the albums, singles and compilations of an artist
+   */
+  async getArtistAlbums(artistId: string, limit: number, offset: number): Promise<SpotifyPaging<SpotifyAlbum>> {
+    const params = new URLSearchParams({ limit: limit.toString(), offset: offset.toString() });
+    return this.get(`/artists/${encodeURIComponent(artistId)}/albums?${params}`, pagingSchema(AlbumSchema));
+  }
+
+  /**
+   * Get artists similar to an artist
+   */
+  async getRelatedArtists(artistId: string): Promise<SpotifyArtist[]> {
+    const response = await this.get(`/artists/${encodeURIComponent(artistId)}/related-artists`, RelatedArtistsResponseSchema);
+    return response.artists;
+  }
+
+  /**
+   * Get an album with its label, copyrights and first page of tracks
+   */
+  async getAlbum(albumId: string): Promise<SpotifyAlbum> {
+    return this.get(`/albums/${encodeURIComponent(albumId)}`, AlbumSchema);
+  }
+
+  /**
+   * Get a track with its popularity, ISRC and available markets
+   */
+  async getTrack(trackId: string): Promise<SpotifyTrack> {
+    return this.get(`/tracks/${encodeURIComponent(trackId)}`, TrackSchema);
+  }
+
+  /**
+   * Get the current playback state, or null when nothing is playing on any device
+   */
+  async getPlayback(): Promise<SpotifyPlayback | null> {
+    const data = await this.request("/me/player");
+    return data ? this.validate(PlaybackSchema, data, "/me/player") : null;
+  }
+
+  /**
+   * Get the devices the user can play on
+   */
+  async getDevices(): Promise<SpotifyDevice[]> {
+    const response = await this.get("/me/player/devices", DevicesResponseSchema);
+    return response.devices;
+  }
+
+  /**
+   * Move playback to another device
+   *
+   * @param {string} deviceId - Device to transfer playback to
+   * @param {boolean} play - Start playing on the new device; otherwise keep the current state
+   */
+  async transferPlayback(deviceId: string, play: boolean): Promise<void> {
+    await this.request("/me/player", { method: "PUT", data: { device_ids: [deviceId], play } });
+  }
+
+  /**
+   * Start playing a list of items or a context
+   */
+  async play(options: PlayOptions, deviceId?: string): Promise<void> {
+    const body: Record<string, unknown> = {};
+    if (options.uris) body.uris = options.uris;
+    if (options.contextUri) body.context_uri = options.contextUri;
+    if (options.offset) body.offset = options.offset;
+    if (options.positionMs !== undefined) body.position_ms = options.positionMs;
+
+    await this.request(this.withDevice("/me/player/play", deviceId), { method: "PUT", data: body });
+  }
+
+  /**
+   * Resume playback where it was paused
+   */
+  async resume(deviceId?: string): Promise<void> {
+    await this.request(this.withDevice("/me/player/play", deviceId), { method: "PUT" });
+  }
+
+  /**
+   * Get the current item and the queue of items that play next
+   *
+   * Items that are neither tracks nor episodes are left out.
+   */
+  async getQueue(): Promise<SpotifyQueue> {
+    const response = await this.get("/me/player/queue", QueueSchema);
+    return {
+      currently_playing: response.currently_playing,
+      queue: response.queue.filter(isPresent),
+    };
+  }
+
+  /**
+   * Add a track or episode to the end of the queue
+   */
+  async addToQueue(uri: string, deviceId?: string): Promise<void> {
+    await this.request(
+      this.withDevice(`/me/player/queue?uri=${encodeURIComponent(uri)}`, deviceId),
+      { method: "POST" }
+    );
+  }
+
+  async pause(): Promise<void> {
+    await this.request("/me/player/pause", { method: "PUT" });
+  }
+
+  /**
+   * Set the volume of the active or given device
+   */
+  async setVolume(volumePercent: number, deviceId?: string): Promise<void> {
+    await this.request(
+      this.withDevice(`/me/player/volume?volume_percent=${volumePercent}`, deviceId),
+      { method: "PUT" }
+    );
+  }
+
+  /**
+   * Seek to a position in the current track
+   */
+  async seek(positionMs: number, deviceId?: string): Promise<void> {
+    await this.request(
+      this.withDevice(`/me/player/seek?position_ms=${positionMs}`, deviceId),
+      { method: "PUT" }
+    );
+  }
+
+  async setShuffle(state: boolean, deviceId?: string): Promise<void> {
+    await this.request(
+      this.withDevice(`/me/player/shuffle?state=${state}`, deviceId),
+      { method: "PUT" }
+    );
+  }
+
+  async setRepeatMode(mode: RepeatMode, deviceId?: string): Promise<void> {
+    await this.request(
+      this.withDevice(`/me/player/repeat?state=${mode}`, deviceId),
+      { method: "PUT" }
+    );
+  }
+
+  async skipToNext(): Promise<void> {
+    await this.request("/me/player/next", { method: "POST" });
+  }
+
+  async skipToPrevious(): Promise<void> {
+    await this.request("/me/player/previous", { method: "POST" });
+  }
+
+  /**
+   * Get a page of the current user's playlists
+   */
+  async getUserPlaylists(limit: number, offset: number): Promise<SpotifyPaging<SpotifyPlaylist>> {
+    const params = new URLSearchParams({ limit: limit.toString(), offset: offset.toString() });
+    return this.get(`/me/playlists?${params}`, pagingSchema(PlaylistSchema));
+  }
+
+  /**
+   * Create a playlist for the current user
+   */
+  async createPlaylist(name: string, description: string | undefined, isPublic: boolean): Promise<SpotifyPlaylist> {
+    const data = await this.request("/me/playlists", {
+      method: "POST",
+      data: { name, description, public: isPublic },
+    });
+    return this.validate(PlaylistSchema, data, "/me/playlists");
+  }
+
+  /**
+   * Get a playlist's details
+   */
+  async getPlaylist(playlistId: string): Promise<SpotifyPlaylist> {
+    return this.get(this.playlistPath(playlistId), PlaylistSchema);
+  }
+
+  /**
+   * Get a page of the items in a playlist
+   */
+  async getPlaylistItems(playlistId: string, limit: number, offset: number): Promise<SpotifyPaging<SpotifyPlaylistItem>> {
+    const params = new URLSearchParams({ limit: limit.toString(), offset: offset.toString() });
+    return this.get(`${this.playlistPath(playlistId)}/items?${params}`, pagingSchema(PlaylistItemSchema));
+  }
+
+  /**
+   * Add items to a playlist, in batches of at most 100
+   *
+   * Batches are sent one after the other to keep the order of the items.
+   *
+   * @returns {Promise<SpotifySnapshot>} The snapshot after the last batch
+   */
+  async addItems(playlistId: string, uris: string[]): Promise<SpotifySnapshot> {
+    let snapshot: SpotifySnapshot = { snapshot_id: "" };
+
+    for (let i = 0; i < uris.length; i += PLAYLIST_ITEMS_BATCH_SIZE) {
+      const path = `${this.playlistPath(playlistId)}/items`;
+      const data = await this.request(path, {
+        method: "POST",
+        data: { uris: uris.slice(i, i + PLAYLIST_ITEMS_BATCH_SIZE) },
+      });
+      snapshot = this.validate(SnapshotSchema, data, path);
+    }
+
+    return snapshot;
+  }
+
+  /**
+   * Remove every occurrence of the given URIs from a playlist, in batches of at most 100
+   *
+   * @returns {Promise<SpotifySnapshot>} The snapshot after the last batch
+   */
+  async removeItems(playlistId: string, uris: string[]): Promise<SpotifySnapshot> {
+    let snapshot: SpotifySnapshot = { snapshot_id: "" };
+
+    for (let i = 0; i < uris.length; i += PLAYLIST_ITEMS_BATCH_SIZE) {
+      const path = `${this.playlistPath(playlistId)}/items`;
+      const data = await this.request(path, {
+        method: "DELETE",
+        data: { items: uris.slice(i, i + PLAYLIST_ITEMS_BATCH_SIZE).map((uri) => ({ uri })) },
+      });
+      snapshot = this.validate(SnapshotSchema, data, path);
+    }
+
+    return snapshot;
+  }
+
+  /**
+   * Remove the items at the given positions from a playlist, leaving other
+   * occurrences of the same URIs in place
+   *
+   * Positions are removed from the end of the playlist backwards, so that each
+   * batch of at most 100 leaves the positions of the next batches unchanged.
+   * Every batch is made against the snapshot the previous one returned,
+   * starting with the given one.
+   *
+   * @param {string} playlistId - The playlist
+   * @param {{ uri: string; position: number }[]} items - 0-based positions and the URIs expected there
+   * @param {string} snapshotId - snapshot_id the positions were read from
+   * @returns {Promise<SpotifySnapshot>} The snapshot after the last batch
+   */
+  async removeItemsAtPositions(playlistId: string, items: { uri: string; position: number }[], snapshotId?: string): Promise<SpotifySnapshot> {
+    const sorted = [...items].sort((a, b) => b.position - a.position);
+    let snapshot: SpotifySnapshot = { snapshot_id: snapshotId ?? "" };
+
+    for (let i = 0; i < sorted.length; i += PLAYLIST_ITEMS_BATCH_SIZE) {
+      const path = `${this.playlistPath(playlistId)}/items`;
+      const data = await this.request(path, {
+        method: "DELETE",
+        data: {
+          items: sorted.slice(i, i + PLAYLIST_ITEMS_BATCH_SIZE).map(({ uri, position }) => ({ uri, positions: [position] })),
+          ...(snapshot.snapshot_id ? { snapshot_id: snapshot.snapshot_id } : {}),
+        },
+        // Repeating a batch that went through could remove other items
+        retryable: false,
+      });
+      snapshot = this.validate(SnapshotSchema, data, path);
+    }
+
+    return snapshot;
+  }
+
+  /**
+   * Replace all items of a playlist, keeping the given order
+   *
+   * The first 100 items replace the playlist's contents; the rest are added
+   * in batches after them.
+   *
+   * @returns {Promise<SpotifySnapshot>} The snapshot after the last batch
+   */
+  async replaceItems(playlistId: string, uris: string[]): Promise<SpotifySnapshot> {
+    const path = `${this.playlistPath(playlistId)}/items`;
+    const data = await this.request(path, {
+      method: "PUT",
+      data: { uris: uris.slice(0, PLAYLIST_ITEMS_BATCH_SIZE) },
+    });
+    const snapshot = this.validate(SnapshotSchema, data, path);
+
+    return uris.length > PLAYLIST_ITEMS_BATCH_SIZE
+      ? this.addItems(playlistId, uris.slice(PLAYLIST_ITEMS_BATCH_SIZE))
+      : snapshot;
+  }
+
+  /**
+   * Move a range of items in a playlist
+   */
+  async reorderItems(playlistId: string, rangeStart: number, insertBefore: number, rangeLength: number): Promise<SpotifySnapshot> {
+    const path = `${this.playlistPath(playlistId)}/items`;
+    const data = await this.request(path, {
+      method: "PUT",
+      data: {
+        range_start: rangeStart,
+        insert_before: insertBefore,
+        range_length: rangeLength,
+      },
+      // Repeating a move that went through would move the range again
+      retryable: false,
+    });
+    return this.validate(SnapshotSchema, data, path);
+  }
+
+  /**
+   * Unfollow a playlist, removing it from the user's library
+   */
+  async unfollowPlaylist(playlistId: string): Promise<void> {
+    await this.request(`${this.playlistPath(playlistId)}/followers`, { method: "DELETE" });
+  }
+
+  /**
+   * Follow a playlist, adding it back to the user's library
+   */
+  async followPlaylist(playlistId: string): Promise<void> {
+    await this.request(`${this.playlistPath(playlistId)}/followers`, { method: "PUT" });
+  }
+
+  /**
+   * Change a playlist's name, description, visibility or collaborative setting
+   */
+  async updatePlaylist(playlistId: string, details: PlaylistDetails): Promise<void> {
+    await this.request(this.playlistPath(playlistId), { method: "PUT", data: details });
+  }
+
+  /**
+   * Get the cover images of a playlist
+   */
+  async getPlaylistCoverImages(playlistId: string): Promise<SpotifyImage[]> {
+    const path = `${this.playlistPath(playlistId)}/images`;
+    const data = await this.request(path);
+    return data ? this.validate(z.array(ImageSchema), data, path) : [];
+  }
+
+  /**
+   * Upload a base64 encoded JPEG as the cover image of a playlist
+   */
+  async uploadPlaylistCover(playlistId: string, imageBase64: string): Promise<void> {
+    await this.request(`${this.playlistPath(playlistId)}/images`, {
+      method: "PUT",
+      data: imageBase64,
+      contentType: "image/jpeg",
+    });
+  }
+
+  /**
+   * Get the tracks the user played recently
+   */
+  async getRecentlyPlayed(limit: number, before?: number, after?: number): Promise<SpotifyCursorPaging<SpotifyPlayHistory>> {
+    const params = new URLSearchParams({ limit: limit.toString() });
+    if (before) params.append("before", before.toString());
+    if (after) params.append("after", after.toString());
+
+    return this.get(`/me/player/recently-played?${params}`, cursorPagingSchema(PlayHistorySchema));
+  }
+
+  /**
+   * Get track recommendations for the given seeds
+   */
+  async getRecommendations(seeds: { tracks?: string[]; artists?: string[]; genres?: string[] }, limit: number): Promise<SpotifyRecommendationsResponse> {
+    const params = new URLSearchParams({ limit: limit.toString() });
+    if (seeds.tracks) params.append("seed_tracks", seeds.tracks.join(","));
+    if (seeds.artists) params.append("seed_artists", seeds.artists.join(","));
+    if (seeds.genres) params.append("seed_genres", seeds.genres.join(","));
+
+    return this.get(`/recommendations?${params}`, RecommendationsResponseSchema);
+  }
+
+  /**
+   * Get the user's top tracks over a time range
+   */
+  async getTopTracks(limit: number, offset: number, timeRange: TimeRange): Promise<SpotifyPaging<SpotifyTrack>> {
+    const params = new URLSearchParams({
+      limit: limit.toString(),
+      offset: offset.toString(),
+      time_range: timeRange,
+    });
+    return this.get(`/me/top/tracks?${params}`, pagingSchema(TrackSchema));
+  }
+
+  /**
+   * Get the user's top artists over a time range
+   */
+  async getTopArtists(limit: number, offset: number, timeRange: TimeRange): Promise<SpotifyPaging<SpotifyArtist>> {
+    const params = new URLSearchParams({
+      limit: limit.toString(),
+      offset: offset.toString(),
+      time_range: timeRange,
+    });
+    return this.get(`/me/top/artists?${params}`, pagingSchema(ArtistSchema));
+  }
+
+  /**
+   * Get the tracks saved in the user's library, most recently saved first
+   */
+  async getSavedTracks(limit: number, offset: number): Promise<SpotifyPaging<SpotifySavedTrack>> {
+    const params = new URLSearchParams({ limit: limit.toString(), offset: offset.toString() });
+    return this.get(`/me/tracks?${params}`, pagingSchema(SavedTrackSchema));
+  }
+
+  /**
+   * Save tracks to the user's library
+   */
+  async saveTracks(trackIds: string[]): Promise<void> {
+    for (let i = 0; i < trackIds.length; i += SAVED_TRACKS_BATCH_SIZE) {
+      await this.request("/me/tracks", { method: "PUT", data: { ids: trackIds.slice(i, i + SAVED_TRACKS_BATCH_SIZE) } });
+    }
+  }
+
+  /**
+   * Remove tracks from the user's library
+   */
+  async removeSavedTracks(trackIds: string[]): Promise<void> {
+    for (let i = 0; i < trackIds.length; i += SAVED_TRACKS_BATCH_SIZE) {
+      await this.request("/me/tracks", { method: "DELETE", data: { ids: trackIds.slice(i, i + SAVED_TRACKS_BATCH_SIZE) } });
+    }
+  }
+
+  /**
+   * Check which tracks are saved in the user's library
+   *
+   * @returns {Promise<boolean[]>} One entry per track ID, in the same order
+   */
+  async checkSavedTracks(trackIds: string[]): Promise<boolean[]> {
+    const saved: boolean[] = [];
+
+    for (let i = 0; i < trackIds.length; i += SAVED_TRACKS_BATCH_SIZE) {
+      const ids = trackIds.slice(i, i + SAVED_TRACKS_BATCH_SIZE);
+      saved.push(...await this.get(`/me/tracks/contains?ids=${ids.join(",")}`, z.array(z.boolean())));
+    }
+
+    return saved;
+  }
+
+  /**
+   * Get the albums saved in the user's library, most recently saved first
+   */
+  async getSavedAlbums(limit: number, offset: number): Promise<SpotifyPaging<SpotifySavedAlbum>> {
+    const params = new URLSearchParams({ limit: limit.toString(), offset: offset.toString() });
+    return this.get(`/me/albums?${params}`, pagingSchema(SavedAlbumSchema));
+  }
+
+  /**
+   * Save albums to the user's library
+   */
+  async saveAlbums(albumIds: string[]): Promise<void> {
+    for (let i = 0; i < albumIds.length; i += SAVED_ALBUMS_BATCH_SIZE) {
+      await this.request("/me/albums", { method: "PUT", data: { ids: albumIds.slice(i, i + SAVED_ALBUMS_BATCH_SIZE) } });
+    }
+  }
+
+  /**
+   * Get the artists the user follows, in alphabetical order
+   *
+   * @param {number} limit - Number of artists to return
+   * @param {string} after - ID of the last artist of the previous page (optional)
+   */
+  async getFollowedArtists(limit: number, after?: string): Promise<SpotifyCursorPaging<SpotifyArtist>> {
+    const params = new URLSearchParams({ type: "artist", limit: limit.toString() });
+    if (after) params.append("after", after);
+
+    const response = await this.get(`/me/following?${params}`, FollowedArtistsResponseSchema);
+    return response.artists;
+  }
+
+  /**
+   * Iterates over the pages of the current user's playlists
+   */
+  userPlaylistPages(offset: number = 0): AsyncGenerator<SpotifyPaging<SpotifyPlaylist>> {
+    const params = new URLSearchParams({ limit: MAX_PAGE_SIZE.toString(), offset: offset.toString() });
+    return this.pages(`/me/playlists?${params}`, PlaylistSchema);
+  }
+
+  /**
+   * Iterates over the pages of the items in a playlist
+   */
+  playlistItemPages(playlistId: string, offset: number = 0): AsyncGenerator<SpotifyPaging<SpotifyPlaylistItem>> {
+    const params = new URLSearchParams({ limit: MAX_PAGE_SIZE.toString(), offset: offset.toString() });
+    return this.pages(`${this.playlistPath(playlistId)}/items?${params}`, PlaylistItemSchema);
+  }
+
+  /**
+   * Iterates over the pages of the user's top tracks over a time range
+   */
+  topTrackPages(timeRange: TimeRange, offset: number = 0): AsyncGenerator<SpotifyPaging<SpotifyTrack>> {
+    const params = new URLSearchParams({
+      limit: MAX_PAGE_SIZE.toString(),
+      offset: offset.toString(),
+      time_range: timeRange,
+    });
+    return this.pages(`/me/top/tracks?${params}`, TrackSchema);
+  }
+
+  /**
+   * Iterates over the pages of the user's top artists over a time range
+   */
+  topArtistPages(timeRange: TimeRange, offset: number = 0): AsyncGenerator<SpotifyPaging<SpotifyArtist>> {
+    const params = new URLSearchParams({
+      limit: MAX_PAGE_SIZE.toString(),
+      offset: offset.toString(),
+      time_range: timeRange,
+    });
+    return this.pages(`/me/top/artists?${params}`, ArtistSchema);
+  }
+
+  /**
+   * Iterates over the pages of an artist's albums
+   */
+  artistAlbumPages(artistId: string, offset: number = 0): AsyncGenerator<SpotifyPaging<SpotifyAlbum>> {
+    const params = new URLSearchParams({ limit: MAX_PAGE_SIZE.toString(), offset: offset.toString() });
+    return this.pages(`/artists/${encodeURIComponent(artistId)}/albums?${params}`, AlbumSchema);
+  }
+
+  /**
+   * Iterates over the pages of the tracks of an album
+   */
+  albumTrackPages(albumId: string, offset: number = 0): AsyncGenerator<SpotifyPaging<SpotifyAlbumTrack>> {
+    const params = new URLSearchParams({ limit: MAX_PAGE_SIZE.toString(), offset: offset.toString() });
+    return this.pages(`/albums/${encodeURIComponent(albumId)}/tracks?${params}`, AlbumTrackSchema);
+  }
+
+  /**
+   * Iterates over the pages of the user's saved tracks
+   */
+  savedTrackPages(offset: number = 0): AsyncGenerator<SpotifyPaging<SpotifySavedTrack>> {
+    const params = new URLSearchParams({ limit: MAX_PAGE_SIZE.toString(), offset: offset.toString() });
+    return this.pages(`/me/tracks?${params}`, SavedTrackSchema);
+  }
+
+  /**
+   * Iterates over the pages of the user's saved albums
+   */
+  savedAlbumPages(offset: number = 0): AsyncGenerator<SpotifyPaging<SpotifySavedAlbum>> {
+    const params = new URLSearchParams({ limit: MAX_PAGE_SIZE.toString(), offset: offset.toString() });
+    return this.pages(`/me/albums?${params}`, SavedAlbumSchema);
+  }
+
+  /**
+   * Iterates over the pages of the artists the user follows
+   *
+   * The endpoint is cursor-based and wraps its pages in an `artists` object,
+   * so pages are unwrapped here to fit collectItems.
+   */
+  async *followedArtistPages(after?: string): AsyncGenerator<SpotifyPaging<SpotifyArtist>> {
+    const params = new URLSearchParams({ type: "artist", limit: MAX_PAGE_SIZE.toString() });
+    if (after) params.append("after", after);
+    let next: string | null = `/me/following?${params}`;
+
+    while (next) {
+      const { artists }: { artists: SpotifyCursorPaging<SpotifyArtist> } = await this.get(next, FollowedArtistsResponseSchema);
+      yield { items: artists.items, total: artists.total ?? artists.items.length, next: artists.next };
+      next = artists.next && artists.items.length > 0 ? this.relativeEndpoint(artists.next) : null;
+    }
+  }
+
+  /**
+   * Fetches pages one at a time, following the `next` link of each page
+   *
+   * Pages are only requested when the consumer asks for them, so stopping
+   * the iteration early does not cost any extra requests.
+   *
+   * @param {string} endpoint - Endpoint of the first page
+   * @param {z.ZodTypeAny} itemSchema - Schema of the items in each page
+   */
+  private async *pages<T extends z.ZodTypeAny>(endpoint: string, itemSchema: T): AsyncGenerator<SpotifyPaging<z.output<T>>> {
+    const schema = pagingSchema(itemSchema);
+    let next: string | null = endpoint;
+
+    while (next) {
+      const page: SpotifyPaging<z.output<T>> = await this.get(next, schema);
+      yield page;
+      // An empty page with a next link would otherwise loop forever
+      next = page.next && page.items.length > 0 ? this.relativeEndpoint(page.next) : null;
+    }
+  }
+
+  /**
+   * Turns a `next` link into an endpoint relative to the API base
+   *
+   * @throws {APIError} If the link points outside the Spotify API
+   */
+  private relativeEndpoint(url: string): string {
+    if (!url.startsWith(this.options.apiBase)) {
+      throw new APIError(`Unexpected pagination link from Spotify: ${url}`);
+    }
+    return url.slice(this.options.apiBase.length);
+  }
+
+  private playlistPath(playlistId: string): string {
+    return `/playlists/${encodeURIComponent(playlistId)}`;
+  }
+
+  private withDevice(endpoint: string, deviceId?: string): string {
+    if (!deviceId) {
+      return endpoint;
+    }
+    return `${endpoint}${endpoint.includes("?") ? "&" : "?"}device_id=${encodeURIComponent(deviceId)}`;
+  }
+
+  /**
+   * Sends a GET request and validates the response
+   */
+  private async get<T extends z.ZodTypeAny>(endpoint: string, schema: T): Promise<z.output<T>> {
+    return this.validate(schema, await this.request(endpoint), endpoint);
+  }
+
+  /**
+   * Checks a response against its schema
+   *
+   * @throws {APIError} If the response does not have the expected shape
+   */
+  private validate<T extends z.ZodTypeAny>(schema: T, data: unknown, endpoint: string): z.output<T> {
+    const result = schema.safeParse(data);
+
+    if (!result.success) {
+      const issues = result.error.errors
+        .slice(0, 5)
+        .map((e) => `${e.path.join(".")}: ${e.message}`)
+        .join(", ");
+      console.error(`Unexpected response from ${endpoint}: ${issues}`);
+      throw new APIError(`Unexpected response from Spotify for ${endpoint.split("?")[0]}: ${issues}`, undefined, data);
+    }
+
+    return result.data;
+  }
+
+  /**
+   * Makes an authenticated request to the Spotify API
+   *
+   * Obtains the access token from the active profile's token store, which
+   * refreshes it when needed. Requests go through the request scheduler,
+   * which limits concurrency and retries rate-limited (429) requests. Server
+   * and network errors are only retried for methods that are safe to repeat.
+   * When Spotify rejects the access token, it is refreshed and the request
+   * sent once more; only a rejected refresh drops the stored tokens.
+   *
+   * @param {string} endpoint - The Spotify API endpoint (e.g., "/me/playlists")
+   * @param {RequestOptions} options - HTTP method, body and content type
+   * @returns {Promise<any>} The raw response data
+   * @throws {AuthenticationError} If authentication is missing or expired
+   * @throws {APIError} If the API request fails
+   */
+  private async request(endpoint: string, options: RequestOptions = {}): Promise<any> {
+    const { method = "GET", data, contentType = "application/json", retryable = method !== "POST" } = options;
+    const tokenStore = this.options.getTokenStore();
+
+    console.error(`Starting API request to ${endpoint}`);
+
+    const send = () => this.options.scheduler.schedule(
+      async () => this.httpClient({
+        method,
+        url: `${this.options.apiBase}${endpoint}`,
+        headers: {
+          Authorization: `Bearer ${await tokenStore.getAccessToken()}`,
+          "Content-Type": contentType,
+        },
+        data: data ? data : undefined,
+      }),
+      { retryOnServerError: retryable }
+    );
+
+    try {
+      let response;
+      try {
+        response = await send();
+      } catch (error: any) {
+        if (error.response?.status !== 401) {
+          throw error;
+        }
+        // The access token can be revoked before it expires; a request
+        // answered 401 was not carried out, so it is safe to send again
+        console.error("Spotify rejected the access token, refreshing it");
+        await tokenStore.refresh();
+        response = await send();
+      }
+
+      console.error(`Request to ${endpoint} succeeded`);
+      return response.data;
+    } catch (error: any) {
+      if (error instanceof AuthenticationError) {
+        throw error;
+      }
+
+      console.error(`Spotify API error: ${error.message}`);
+      if (error.response) {
+        console.error(`Status: ${error.response.status}`);
+        console.error(`Data:`, error.response.data);
+
+        if (error.response.status === 401) {
+          throw new AuthenticationError("Authorization expired. Please authenticate again.");
+        }
+
+        // Tokens issued before a feature was added lack the scopes it needs
+        if (error.response.status === 403 && /insufficient client scope/i.test(JSON.stringify(error.response.data ?? ""))) {
+          throw new InsufficientScopeError(
+            "The stored authorization does not include the permissions this needs. Run auth-spotify with reauthorize set to true to grant them."
+          );
+        }
+      }
+      const detail = error.response?.data ? (typeof error.response.data === 'object' ? JSON.stringify(error.response.data) : String(error.response.data)) : '';
+      throw new APIError(`Spotify API error: ${error.message}${detail ? ` - ${detail}` : ''}`, error.response?.status, error.response?.data);
+    }
+  }
+}
+
+function isPresent<T>(value: T | null | undefined): value is T {
+  return value !== null && value !== undefined;
+}
+
+/**
+ * Collects the items of a paginated endpoint, up to a maximum number of items
+ *
+ * @param {AsyncIterable} pages - Pages to read, e.g. from SpotifyClient.playlistItemPages
+ * @param {number} maxItems - Stop once this many items have been collected
+ * @returns {Promise<CollectedItems<T>>} The items, the reported total and whether the listing was cut short
+ */
+export async function collectItems<T>(pages: AsyncIterable<SpotifyPaging<T>>, maxItems: number): Promise<CollectedItems<T>> {
+  const items: T[] = [];
+  let total = 0;
+
+  for await (const page of pages) {
+    total = page.total;
+    const taken = page.items.slice(0, maxItems - items.length);
+    items.push(...taken);
+
+    if (items.length >= maxItems) {
+      return { items, total, truncated: taken.length < page.items.length || Boolean(page.next) };
+    }
+  }
+
+  return { items, total, truncated: false };
+}
@@ -0,0 +1,250 @@
+/**
+ * Spotify URI and URL parsing
+ *
+ * This file turns the different ways users refer to Spotify items (IDs,
+ * spotify: URIs, open.spotify.com links and spotify.link short links) into a
+ * type and an ID, and checks that the item is of the type a tool expects.
+ * The zod helpers at the end let tool schemas accept any of these forms.
+ */
+import axios from "axios";
+import { z } from "zod";
+import { ValidationError } from "./errors.js";
+
+export type SpotifyEntityType = "track" | "album" | "artist" | "playlist" | "show" | "episode";
+
+const ENTITY_TYPES: SpotifyEntityType[] = ["track", "album", "artist", "playlist", "show", "episode"];
+
+/**
+ * A reference to a Spotify item
+ */
+export interface SpotifyReference {
+  type: SpotifyEntityType;
+  id: string;
+  uri: string;
+}
+
+export interface ParseReferenceOptions {
+  // Type assumed for plain IDs; without it plain IDs are rejected
+  defaultType?: SpotifyEntityType;
+  // Types the caller accepts
+  allowedTypes?: SpotifyEntityType[];
+}
+
+const ID_PATTERN = /^[A-Za-z0-9]{22}$/;
+// Older playlist URIs include the owner: spotify:user:<user>:playlist:<id>
+const URI_PATTERN = /^spotify:(?:user:[^:]+:)?(track|album|artist|playlist|show|episode):([A-Za-z0-9]+)$/;
+const WEB_HOSTS = ["open.spotify.com", "play.spotify.com"];
+const SHORT_LINK_HOSTS = ["spotify.link", "spotify.app.link"];
+const MAX_SHORT_LINK_HOPS = 5;
+
+/**
+ * Minimal HTTP client used to follow short links
+ */
+export type ShortLinkHttpClient = (config: {
+  method: string;
+  url: string;
+  maxRedirects: number;
+  validateStatus: (status: number) => boolean;
+}) => Promise<{ status: number; headers: Record<string, any>; data: any }>;
+
+function isEntityType(value: string): value is SpotifyEntityType {
+  return (ENTITY_TYPES as string[]).includes(value);
+}
+
+function withArticle(word: string): string {
+  return `${/^[aeiou]/.test(word) ? "an" : "a"} ${word}`;
+}
+
+function describeTypes(types: SpotifyEntityType[]): string {
+  return types.length === 1
+    ? types[0]
+    : `${types.slice(0, -1).join(", ")} or ${types[types.length - 1]}`;
+}
+
+/**
+ * Reads the type and ID from an open.spotify.com link
+ *
+ * Handles locale prefixes (/intl-de/), embeds (/embed/) and legacy user
+ * playlist paths (/user/<user>/playlist/<id>); query strings are ignored.
+ */
+function parseWebUrl(input: string): { type: string; id: string } | null {
+  let url: URL;
+  try {
+    url = new URL(input);
+  } catch {
+    return null;
+  }
+
+  if (!WEB_HOSTS.includes(url.hostname.toLowerCase())) {
+    return null;
+  }
+
+  const segments = url.pathname.split("/").filter(Boolean);
+  while (segments.length > 0 && (/^intl-[a-z-]+$/i.test(segments[0]) || segments[0] === "embed")) {
+    segments.shift();
+  }
+  if (segments[0] === "user" && segments.length >= 4) {
+    segments.splice(0, 2);
+  }
+
+  return segments.length >= 2 ? { type: segments[0], id: segments[1] } : null;
+}
+
+/**
+ * Parses an ID, spotify: URI or open.spotify.com link
+ *
+ * @param {string} input - The reference as given by the user
+ * @param {ParseReferenceOptions} options - Default type for plain IDs and the accepted types
+ * @returns {SpotifyReference} The type, ID and canonical URI of the item
+ * @throws {ValidationError} If the input cannot be parsed or has a type that is not accepted
+ */
+export function parseSpotifyReference(input: string, options: ParseReferenceOptions = {}): SpotifyReference {
+  const value = input.trim().replace(/^<(.*)>$/, "$1");
+  let parsed: { type: string; id: string } | null = null;
+
+  const uriMatch = URI_PATTERN.exec(value);
+  if (uriMatch) {
+    parsed = { type: uriMatch[1], id: uriMatch[2] };
+  } else if (/^https?:\/\//i.test(value)) {
+    parsed = parseWebUrl(value);
+  } else if (ID_PATTERN.test(value) && options.defaultType) {
+    parsed = { type: options.defaultType, id: value };
+  }
+
+  if (!parsed || !isEntityType(parsed.type) || !/^[A-Za-z0-9]+$/.test(parsed.id)) {
+    const expected = options.allowedTypes ? describeTypes(options.allowedTypes) : "Spotify item";
+    throw new ValidationError(`"${input}" is not a valid ${expected} ID, URI or link`);
+  }
+
+  if (options.allowedTypes && !options.allowedTypes.includes(parsed.type)) {
+    throw new ValidationError(
+      `"${input}" is ${withArticle(parsed.type)}, but ${withArticle(describeTypes(options.allowedTypes))} is expected here`
+    );
+  }
+
+  return {
+    type: parsed.type,
+    id: parsed.id,
+    uri: `spotify:${parsed.type}:${parsed.id}`,
+  };
+}
+
+function hostOf(input: string): string | null {
+  try {
+    return new URL(input).hostname.toLowerCase();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Whether the input is a spotify.link short link, as shared from the mobile apps
+ */
+export function isShortLink(input: string): boolean {
+  const host = hostOf(input.trim());
+  return host !== null && SHORT_LINK_HOSTS.includes(host);
+}
+
+/**
+ * Follows a spotify.link short link to the open.spotify.com link it stands for
+ *
+ * Short links answer with a redirect or, for some clients, with an HTML page
+ * that links to the target, so both are handled. Only short link hosts are
+ * requested, so a redirect cannot point the server at another address.
+ *
+ * @param {string} input - The short link
+ * @param {ShortLinkHttpClient} httpClient - Client used for the requests
+ * @returns {Promise<string>} The open.spotify.com link
+ * @throws {ValidationError} If the link cannot be followed to a Spotify item
+ */
+export async function resolveShortLink(
+  input: string,
+  httpClient: ShortLinkHttpClient = axios.request as unknown as ShortLinkHttpClient
+): Promise<string> {
+  let url = input.trim();
+
+  for (let hop = 0; hop < MAX_SHORT_LINK_HOPS; hop++) {
+    const host = hostOf(url);
+    if (host && WEB_HOSTS.includes(host)) {
+      return url;
+    }
+    if (!host || !SHORT_LINK_HOSTS.includes(host)) {
+      throw new ValidationError(`The short link "${input}" leads to ${host ?? url}, which is not a Spotify link`);
+    }
+
+    let response;
+    try {
+      response = await httpClient({
+        method: "GET",
+        url,
+        maxRedirects: 0,
+        validateStatus: (status) => status < 400,
+      });
+    } catch (error: any) {
+      throw new ValidationError(`Could not follow the short link "${input}": ${error.message}`);
+    }
+
+    const location = response.status >= 300 ? response.headers?.location : undefined;
+    const linked = typeof response.data === "string"
+      ? /https:\/\/open\.spotify\.com\/[^\s"'<>]+/.exec(response.data)?.[0]
+      : undefined;
+    const next = location ? new URL(location, url).toString() : linked?.replace(/&amp;/g, "&");
+
+    if (!next) {
+      break;
+    }
+    url = next;
+  }
+
+  const host = hostOf(url);
+  if (host && WEB_HOSTS.includes(host)) {
+    return url;
+  }
+  throw new ValidationError(`The short link "${input}" does not lead to a Spotify item`);
+}
+
+/**
+ * Parses any reference to a Spotify item, following short links first
+ *
+ * @param {string} input - The reference as given by the user
+ * @param {ParseReferenceOptions} options - Default type for plain IDs and the accepted types
+ * @param {ShortLinkHttpClient} httpClient - Client used to follow short links
+ * @returns {Promise<SpotifyReference>} The type, ID and canonical URI of the item
+ * @throws {ValidationError} If the input cannot be parsed or has a type that is not accepted
+ */
+export async function resolveSpotifyReference(
+  input: string,
+  options: ParseReferenceOptions = {},
+  httpClient?: ShortLinkHttpClient
+): Promise<SpotifyReference> {
+  if (isShortLink(input)) {
+    return parseSpotifyReference(await resolveShortLink(input, httpClient), options);
+  }
+  return parseSpotifyReference(input, options);
+}
+
+/**
+ * Zod schema for a reference to a Spotify item
+ *
+ * Accepts IDs, URIs and links and parses to a SpotifyReference. Schemas using
+ * it must be parsed with parseAsync, as short links are followed over the network.
+ */
+export function spotifyReference(options: ParseReferenceOptions) {
+  return z.string().transform(async (value, ctx): Promise<SpotifyReference> => {
+    try {
+      return await resolveSpotifyReference(value, options);
+    } catch (error: any) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: error.message });
+      return z.NEVER;
+    }
+  });
+}
+
+/**
+ * Zod schema for the ID of a Spotify item of the given type
+ *
+ * Like spotifyReference, but parses to the bare ID the Web API expects.
+ */
+export function spotifyId(type: SpotifyEntityType) {
+  return spotifyReference({ defaultType: type, allowedTypes: [type] }).transform((reference) => reference.id);
+}
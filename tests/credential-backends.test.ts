@@ -0,0 +1,130 @@
+/**
+ * @jest-environment node
+ */
+import { jest } from '@jest/globals';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  EncryptedFileBackend,
+  MemoryBackend,
+  PlainFileBackend,
+  createCredentialBackend,
+} from '../credential-backends.js';
+import { TokenStore } from '../token-store.js';
+import { ValidationError } from '../errors.js';
+
+const tokenData = {
+  accessToken: 'access',
+  refreshToken: 'refresh',
+  tokenExpirationTime: 1234567890,
+};
+
+describe('Credential backends', () => {
+  let tmpDir: string;
+  let tokenPath: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'spotify-mcp-backends-'));
+    tokenPath = path.join(tmpDir, 'tokens.json');
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  describe('PlainFileBackend', () => {
+    it('should round-trip token data', () => {
+      const backend = new PlainFileBackend();
+      backend.save(tokenPath, tokenData);
+
+      expect(backend.load(tokenPath)).toEqual(tokenData);
+    });
+
+    it('should write the file with 0600 permissions', () => {
+      if (process.platform === 'win32') return;
+      new PlainFileBackend().save(tokenPath, tokenData);
+
+      expect(fs.statSync(tokenPath).mode & 0o777).toBe(0o600);
+    });
+
+    it('should restrict permissions of existing world-readable files', () => {
+      if (process.platform === 'win32') return;
+      fs.writeFileSync(tokenPath, JSON.stringify(tokenData), { mode: 0o644 });
+
+      new PlainFileBackend().load(tokenPath);
+
+      expect(fs.statSync(tokenPath).mode & 0o777).toBe(0o600);
+    });
+  });
+
+  describe('EncryptedFileBackend', () => {
+    it('should round-trip token data without storing it in plaintext', () => {
+      const backend = new EncryptedFileBackend('correct horse');
+      backend.save(tokenPath, tokenData);
+
+      const raw = fs.readFileSync(tokenPath, 'utf-8');
+      expect(raw).not.toContain('access');
+      expect(backend.load(tokenPath)).toEqual(tokenData);
+    });
+
+    it('should fail to decrypt with the wrong passphrase', () => {
+      new EncryptedFileBackend('correct horse').save(tokenPath, tokenData);
+
+      expect(() => new EncryptedFileBackend('wrong').load(tokenPath)).toThrow(ValidationError);
+    });
+
+    it('should return null for plaintext token files', () => {
+      fs.writeFileSync(tokenPath, JSON.stringify(tokenData));
+
+      expect(new EncryptedFileBackend('correct horse').load(tokenPath)).toBeNull();
+    });
+
+    it('should require a passphrase', () => {
+      expect(() => new EncryptedFileBackend('')).toThrow(ValidationError);
+    });
+  });
+
+  describe('MemoryBackend', () => {
+    it('should keep data in memory only', () => {
+      const backend = new MemoryBackend();
+      backend.save(tokenPath, tokenData);
+
+      expect(backend.load(tokenPath)).toEqual(tokenData);
+      expect(fs.existsSync(tokenPath)).toBe(false);
+
+      backend.remove(tokenPath);
+      expect(backend.load(tokenPath)).toBeNull();
+    });
+  });
+
+  describe('createCredentialBackend', () => {
+    it('should create the configured backend', () => {
+      expect(createCredentialBackend('file').name).toBe('file');
+      expect(createCredentialBackend('encrypted-file', 'secret').name).toBe('encrypted-file');
+      expect(createCredentialBackend('memory').name).toBe('memory');
+    });
+
+    it('should reject unknown backends', () => {
+      expect(() => createCredentialBackend('keychain')).toThrow(ValidationError);
+    });
+  });
+
+  describe('plaintext migration', () => {
+    it('should migrate a plaintext token file to the encrypted backend on load', () => {
+      fs.writeFileSync(tokenPath, JSON.stringify(tokenData));
+      const backend = new EncryptedFileBackend('correct horse');
+      const store = new TokenStore({
+        tokenPath,
+        clientId: 'test-client-id',
+        authBase: 'https://accounts.spotify.com',
+        backend,
+        httpClient: { post: jest.fn() as any },
+      });
+
+      expect(store.load()).toBe(true);
+      expect(fs.readFileSync(tokenPath, 'utf-8')).not.toContain('access');
+      expect(backend.load(tokenPath)).toEqual(tokenData);
+    });
+  });
+});
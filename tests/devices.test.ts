@@ -0,0 +1,55 @@
+/**
+ * @jest-environment node
+ */
+import { isDeviceId, resolveDevice, scoreDeviceName } from '../devices.js';
+import { ValidationError } from '../errors.js';
+
+const device = (id: string | null, name: string, type = 'Speaker') => ({
+  id,
+  name,
+  type,
+  is_active: false,
+  is_restricted: false,
+  volume_percent: 50,
+});
+
+const devices = [
+  device('a'.repeat(40), 'Kitchen Speaker'),
+  device('b'.repeat(40), 'Living Room TV', 'TV'),
+  device('c'.repeat(40), "Jane's MacBook Pro", 'Computer'),
+];
+
+describe('devices', () => {
+  it('should recognize device IDs', () => {
+    expect(isDeviceId('0d1841b0976bae2a3a310dd74c0f3df354899bc8')).toBe(true);
+    expect(isDeviceId('kitchen speaker')).toBe(false);
+  });
+
+  it('should score exact, partial and word matches', () => {
+    expect(scoreDeviceName('Kitchen Speaker', 'kitchen speaker')).toBe(1);
+    expect(scoreDeviceName('Kitchen Speaker', 'kitchen')).toBe(0.9);
+    expect(scoreDeviceName('Living Room TV', 'living tv')).toBeCloseTo(0.8);
+    expect(scoreDeviceName('Living Room TV', 'bedroom')).toBe(0);
+  });
+
+  it('should resolve devices by ID or fuzzy name', () => {
+    expect(resolveDevice(devices, 'b'.repeat(40)).name).toBe('Living Room TV');
+    expect(resolveDevice(devices, 'kitchen speaker').name).toBe('Kitchen Speaker');
+    expect(resolveDevice(devices, 'macbook').name).toBe("Jane's MacBook Pro");
+    expect(resolveDevice(devices, 'living-room').name).toBe('Living Room TV');
+  });
+
+  it('should list the available devices when nothing matches', () => {
+    expect(() => resolveDevice(devices, 'bedroom')).toThrow(/Available devices: Kitchen Speaker \(Speaker\)/);
+  });
+
+  it('should refuse ambiguous names', () => {
+    const speakers = [device('a'.repeat(40), 'Kitchen Speaker'), device('d'.repeat(40), 'Office Speaker')];
+
+    expect(() => resolveDevice(speakers, 'speaker')).toThrow(/matches several devices/);
+  });
+
+  it('should refuse devices without an ID', () => {
+    expect(() => resolveDevice([device(null, 'Car')], 'car')).toThrow(ValidationError);
+  });
+});
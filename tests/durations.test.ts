@@ -0,0 +1,46 @@
+/**
+ * @jest-environment node
+ */
+import { formatDuration, parseDuration } from '../durations.js';
+import { ValidationError } from '../errors.js';
+
+describe('parseDuration', () => {
+  it.each([
+    ['1:30', 90000],
+    ['0:05', 5000],
+    ['1:02:03', 3723000],
+    ['0:45.5', 45500],
+    ['90', 90000],
+    ['90s', 90000],
+    ['2m15s', 135000],
+    ['2m', 120000],
+    ['1h2m', 3720000],
+    ['500ms', 500],
+    [' 1:30 ', 90000],
+  ])('should parse "%s"', (input, expected) => {
+    expect(parseDuration(input)).toBe(expected);
+  });
+
+  it('should take numbers as seconds', () => {
+    expect(parseDuration(42)).toBe(42000);
+  });
+
+  it.each(['', 'abc', '1:75', '1:60:00', '-5', '1:2:3:4', 'm'])('should reject "%s"', (input) => {
+    expect(() => parseDuration(input)).toThrow(ValidationError);
+  });
+
+  it('should reject negative numbers', () => {
+    expect(() => parseDuration(-1)).toThrow(ValidationError);
+  });
+});
+
+describe('formatDuration', () => {
+  it('should format minutes and seconds', () => {
+    expect(formatDuration(90000)).toBe('1:30');
+    expect(formatDuration(5000)).toBe('0:05');
+  });
+
+  it('should include hours for long durations', () => {
+    expect(formatDuration(3723000)).toBe('1:02:03');
+  });
+});
@@ -0,0 +1,166 @@
+/**
+ * @jest-environment node
+ */
+import express from 'express';
+import { AddressInfo } from 'net';
+import { Server as HttpServer } from 'http';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { ListToolsRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import { McpHttpEndpoint } from '../http-transport.js';
+
+const TOKEN = 'test-token';
+
+const initializeRequest = {
+  jsonrpc: '2.0',
+  id: 1,
+  method: 'initialize',
+  params: {
+    protocolVersion: '2025-03-26',
+    capabilities: {},
+    clientInfo: { name: 'test-client', version: '1.0.0' },
+  },
+};
+
+/**
+ * Reads the JSON-RPC message from a JSON or SSE response
+ */
+async function readMessage(response: Response): Promise<any> {
+  const text = await response.text();
+  if (!response.headers.get('content-type')?.includes('text/event-stream')) {
+    return JSON.parse(text);
+  }
+  const data = text.split('\n').find((line) => line.startsWith('data: '));
+  return JSON.parse((data as string).slice('data: '.length));
+}
+
+describe('McpHttpEndpoint', () => {
+  let endpoint: McpHttpEndpoint;
+  let httpServer: HttpServer;
+  let url: string;
+  let closedServers: number;
+
+  const post = (body: any, headers: Record<string, string> = {}) => fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Accept: 'application/json, text/event-stream',
+      Authorization: `Bearer ${TOKEN}`,
+      ...headers,
+    },
+    body: JSON.stringify(body),
+  });
+
+  const initialize = async (): Promise<string> => {
+    const response = await post(initializeRequest);
+    expect(response.status).toBe(200);
+    await readMessage(response);
+    return response.headers.get('mcp-session-id') as string;
+  };
+
+  beforeEach(async () => {
+    closedServers = 0;
+    endpoint = new McpHttpEndpoint({
+      authToken: TOKEN,
+      createServer: () => {
+        const server = new Server({ name: 'test', version: '1.0.0' }, { capabilities: { tools: {} } });
+        server.setRequestHandler(ListToolsRequestSchema, async () => ({
+          tools: [{ name: 'test-tool', inputSchema: { type: 'object' as const, properties: {} } }],
+        }));
+        server.onclose = () => {
+          closedServers++;
+        };
+        return server;
+      },
+    });
+
+    const app = express();
+    endpoint.mount(app);
+    httpServer = await new Promise<HttpServer>((resolve) => {
+      const listening = app.listen(0, '127.0.0.1', () => resolve(listening));
+    });
+    url = `http://127.0.0.1:${(httpServer.address() as AddressInfo).port}/mcp`;
+  });
+
+  afterEach(async () => {
+    await endpoint.closeAll();
+    await new Promise((resolve) => httpServer.close(resolve));
+  });
+
+  it('should reject requests without the bearer token', async () => {
+    const response = await post(initializeRequest, { Authorization: 'Bearer wrong' });
+
+    expect(response.status).toBe(401);
+    expect(response.headers.get('www-authenticate')).toContain('Bearer');
+    expect(endpoint.sessionCount).toBe(0);
+  });
+
+  it('should create a session on initialize and route later requests to it', async () => {
+    const sessionId = await initialize();
+
+    expect(sessionId).toBeTruthy();
+    expect(endpoint.sessionCount).toBe(1);
+
+    const response = await post(
+      { jsonrpc: '2.0', id: 2, method: 'tools/list', params: {} },
+      { 'mcp-session-id': sessionId, 'mcp-protocol-version': '2025-03-26' }
+    );
+    const message = await readMessage(response);
+
+    expect(message.result.tools[0].name).toBe('test-tool');
+  });
+
+  it('should give every client its own session', async () => {
+    const first = await initialize();
+    const second = await initialize();
+
+    expect(first).not.toBe(second);
+    expect(endpoint.sessionCount).toBe(2);
+  });
+
+  it('should close the server of an initialize request that starts no session', async () => {
+    const response = await post(initializeRequest, { Accept: 'application/json' });
+
+    expect(response.status).toBe(406);
+    expect(endpoint.sessionCount).toBe(0);
+    expect(closedServers).toBe(1);
+  });
+
+  it('should reject requests without a session unless they initialize one', async () => {
+    const response = await post({ jsonrpc: '2.0', id: 2, method: 'tools/list', params: {} });
+
+    expect(response.status).toBe(400);
+  });
+
+  it('should answer 404 for unknown sessions', async () => {
+    const response = await post(
+      { jsonrpc: '2.0', id: 2, method: 'tools/list', params: {} },
+      { 'mcp-session-id': 'unknown' }
+    );
+
+    expect(response.status).toBe(404);
+  });
+
+  it('should end a session on DELETE', async () => {
+    const sessionId = await initialize();
+
+    const response = await fetch(url, {
+      method: 'DELETE',
+      headers: {
+        Authorization: `Bearer ${TOKEN}`,
+        'mcp-session-id': sessionId,
+        'mcp-protocol-version': '2025-03-26',
+      },
+    });
+
+    expect(response.status).toBe(200);
+    expect(endpoint.sessionCount).toBe(0);
+  });
+
+  it('should close idle sessions', async () => {
+    await initialize();
+
+    await endpoint.closeIdleSessions(Date.now() + 2 * 60 * 60 * 1000);
+
+    expect(endpoint.sessionCount).toBe(0);
+  });
+});
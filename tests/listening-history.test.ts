@@ -0,0 +1,159 @@
+/**
+ * @jest-environment node
+ */
+import { jest } from '@jest/globals';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ValidationError } from '../errors.js';
+import { HistoryRecorder } from '../history-recorder.js';
+import {
+  ListeningHistoryStore,
+  countHistory,
+  filterHistory,
+  findStreamingHistoryFiles,
+  fromPlayHistory,
+  parseDateBound,
+  parseStreamingHistory,
+} from '../listening-history.js';
+
+const play = (id: string, playedAt: string, artist = 'Artist') => ({
+  played_at: playedAt,
+  track: {
+    id,
+    name: `Track ${id}`,
+    uri: `spotify:track:${id}`,
+    duration_ms: 180000,
+    artists: [{ id: 'a1', name: artist, external_urls: { spotify: 'a' } }],
+    album: { id: 'al1', name: 'Album', artists: [], release_date: '2020', total_tracks: 1, external_urls: { spotify: 'b' } },
+    external_urls: { spotify: 'c' },
+  },
+});
+
+describe('listening history', () => {
+  let tmpDir: string;
+  let store: ListeningHistoryStore;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'spotify-history-test-'));
+    store = new ListeningHistoryStore(path.join(tmpDir, 'history', 'default.jsonl'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should parse extended and account data streaming history exports', () => {
+    const { entries, skipped } = parseStreamingHistory([
+      {
+        ts: '2024-03-01T08:00:00Z',
+        ms_played: 200000,
+        master_metadata_track_name: 'Song',
+        master_metadata_album_artist_name: 'Band',
+        master_metadata_album_album_name: 'Record',
+        spotify_track_uri: 'spotify:track:s1',
+      },
+      { ts: '2024-03-01T08:05:00Z', ms_played: 4000, master_metadata_track_name: 'Skipped' },
+      { ts: '2024-03-01T09:00:00Z', ms_played: 600000, episode_name: 'Episode 1', episode_show_name: 'Show' },
+      { endTime: '2023-01-31 18:04', artistName: 'Old Band', trackName: 'Old Song', msPlayed: 120000 },
+      { unrelated: true },
+    ]);
+
+    expect(entries.map((e) => [e.playedAt, e.track, e.artists[0]])).toEqual([
+      ['2024-03-01T08:00:00.000Z', 'Song', 'Band'],
+      ['2024-03-01T09:00:00.000Z', 'Episode 1', 'Show'],
+      ['2023-01-31T18:04:00.000Z', 'Old Song', 'Old Band'],
+    ]);
+    expect(skipped).toBe(2);
+    expect(() => parseStreamingHistory({})).toThrow(ValidationError);
+  });
+
+  it('should store plays once and reload them from the file', () => {
+    const entries = parseStreamingHistory([
+      { ts: '2024-03-01T08:00:00Z', ms_played: 200000, master_metadata_track_name: 'Song', spotify_track_uri: 'spotify:track:s1' },
+    ]).entries;
+
+    expect(store.add(entries)).toEqual({ added: 1, duplicates: 0 });
+    expect(store.add(entries)).toEqual({ added: 0, duplicates: 1 });
+
+    const reloaded = new ListeningHistoryStore(store.filePath);
+    expect(reloaded.all()).toHaveLength(1);
+    expect(reloaded.add(entries).duplicates).toBe(1);
+  });
+
+  it('should keep a play once when both the recorder and an imported export have it', () => {
+    // Two plays in a row, which the export times by when they stopped
+    store.add([fromPlayHistory(play('s1', '2024-03-01T08:00:00Z', 'Band')), fromPlayHistory(play('s1', '2024-03-01T08:03:00Z', 'Band'))]);
+
+    const imported = parseStreamingHistory([
+      { ts: '2024-03-01T08:03:00Z', ms_played: 180000, master_metadata_track_name: 'Track s1', master_metadata_album_artist_name: 'Band', spotify_track_uri: 'spotify:track:s1' },
+      { ts: '2024-03-01T08:06:00Z', ms_played: 180000, master_metadata_track_name: 'Track s1', master_metadata_album_artist_name: 'Band', spotify_track_uri: 'spotify:track:s1' },
+      { ts: '2024-03-01T09:00:00Z', ms_played: 180000, master_metadata_track_name: 'Track s1', master_metadata_album_artist_name: 'Band', spotify_track_uri: 'spotify:track:s1' },
+    ]).entries;
+
+    expect(store.add(imported)).toEqual({ added: 1, duplicates: 2 });
+    expect(store.all().map((entry) => entry.playedAt)).toEqual([
+      '2024-03-01T08:00:00.000Z',
+      '2024-03-01T08:03:00.000Z',
+      '2024-03-01T09:00:00.000Z',
+    ]);
+  });
+
+  it('should filter by date range, artist and track, and count per group', () => {
+    store.add(parseStreamingHistory([
+      { ts: '2026-10-10T10:00:00Z', ms_played: 60000, master_metadata_track_name: 'One', master_metadata_album_artist_name: 'Alpha' },
+      { ts: '2026-10-11T10:00:00Z', ms_played: 60000, master_metadata_track_name: 'Two', master_metadata_album_artist_name: 'Beta' },
+      { ts: '2026-10-12T23:59:00Z', ms_played: 60000, master_metadata_track_name: 'One', master_metadata_album_artist_name: 'Alpha' },
+    ]).entries);
+
+    const inRange = filterHistory(store.all(), {
+      from: parseDateBound('2026-10-11', 'from'),
+      to: parseDateBound('2026-10-12', 'to'),
+    });
+    expect(inRange.map((e) => e.playedAt.slice(0, 10))).toEqual(['2026-10-12', '2026-10-11']);
+
+    expect(filterHistory(store.all(), { artist: 'alp' })).toHaveLength(2);
+    expect(countHistory(store.all(), 'track')[0]).toEqual({ name: 'One - Alpha', count: 2, share: 2 / 3 });
+    expect(countHistory(store.all(), 'day').map((g) => g.name)).toEqual(['2026-10-10', '2026-10-11', '2026-10-12']);
+  });
+
+  it('should parse relative date bounds and reject invalid ones', () => {
+    const now = Date.parse('2026-10-19T12:00:00Z');
+
+    expect(parseDateBound('7d', 'from', now).toISOString()).toBe('2026-10-12T12:00:00.000Z');
+    expect(parseDateBound('2026-10-19T08:30:00Z', 'to', now).toISOString()).toBe('2026-10-19T08:30:00.000Z');
+    expect(() => parseDateBound('last week', 'from', now)).toThrow(ValidationError);
+  });
+
+  it('should find export files in directories', () => {
+    fs.writeFileSync(path.join(tmpDir, 'Streaming_History_Audio_2024.json'), '[]');
+    fs.writeFileSync(path.join(tmpDir, 'Userdata.json'), '{}');
+
+    expect(findStreamingHistoryFiles([tmpDir])).toEqual([path.join(tmpDir, 'Streaming_History_Audio_2024.json')]);
+    expect(() => findStreamingHistoryFiles([path.join(tmpDir, 'missing.json')])).toThrow(ValidationError);
+  });
+
+  describe('HistoryRecorder', () => {
+    it('should fetch plays after the last recorded one', async () => {
+      const fetchRecentlyPlayed = jest.fn<any>()
+        .mockResolvedValueOnce([play('t2', '2026-10-19T10:05:00.000Z'), play('t1', '2026-10-19T10:00:00.000Z')])
+        .mockResolvedValueOnce([play('t3', '2026-10-19T10:10:00.000Z')]);
+      const recorder = new HistoryRecorder({ fetchRecentlyPlayed, getStore: () => store });
+
+      await expect(recorder.poll()).resolves.toBe(2);
+      await expect(recorder.poll()).resolves.toBe(1);
+
+      expect(fetchRecentlyPlayed).toHaveBeenNthCalledWith(1, undefined);
+      expect(fetchRecentlyPlayed).toHaveBeenNthCalledWith(2, Date.parse('2026-10-19T10:05:00.000Z'));
+      expect(store.all().map((e) => e.uri)).toEqual(['spotify:track:t2', 'spotify:track:t1', 'spotify:track:t3']);
+    });
+
+    it('should keep polling after failures', async () => {
+      const fetchRecentlyPlayed = jest.fn<any>().mockRejectedValue(new Error('Not authenticated'));
+      const recorder = new HistoryRecorder({ fetchRecentlyPlayed, getStore: () => store });
+
+      await expect(recorder.poll()).resolves.toBe(0);
+      await expect(recorder.record()).rejects.toThrow('Not authenticated');
+    });
+  });
+});
@@ -0,0 +1,92 @@
+/**
+ * @jest-environment node
+ */
+import {
+  breakdownTaste,
+  compareTaste,
+  countValues,
+  formatListeningSummary,
+  releaseDecade,
+} from '../listening-summary.js';
+
+const artist = (name: string, genres: string[] = []) => ({
+  id: name.toLowerCase(),
+  name,
+  genres,
+  external_urls: { spotify: `https://open.spotify.com/artist/${name}` },
+});
+
+const track = (name: string, artistName: string, releaseDate: string) => ({
+  id: name,
+  name,
+  duration_ms: 200000,
+  artists: [artist(artistName)],
+  album: {
+    id: `${name}-album`,
+    name: 'Album',
+    artists: [artist(artistName)],
+    release_date: releaseDate,
+    total_tracks: 10,
+    external_urls: { spotify: 'a' },
+  },
+  external_urls: { spotify: 't' },
+});
+
+const shortArtists = [artist('Newcomer', ['hyperpop', 'pop']), artist('Steady', ['indie rock'])];
+const longArtists = [artist('Steady', ['indie rock']), artist('Oldie', ['classic rock', 'indie rock'])];
+const shortTracks = [track('a', 'Newcomer', '2023-01-01'), track('b', 'Newcomer', '2022'), track('c', 'Steady', '2009-05-05')];
+const longTracks = [track('d', 'Oldie', '1975-01-01'), track('e', 'Steady', '2008-01-01')];
+
+describe('listening-summary', () => {
+  it('should count values by frequency with their share', () => {
+    expect(countValues(['a', 'b', 'a', 'c'])).toEqual([
+      { name: 'a', count: 2, share: 0.5 },
+      { name: 'b', count: 1, share: 0.25 },
+      { name: 'c', count: 1, share: 0.25 },
+    ]);
+  });
+
+  it('should read decades from full and partial release dates', () => {
+    expect(releaseDecade('1994-05-02')).toBe('1990s');
+    expect(releaseDecade('2020')).toBe('2020s');
+    expect(releaseDecade('0000')).toBeNull();
+  });
+
+  it('should break down genres by artist and artists and decades by track', () => {
+    const breakdown = breakdownTaste(shortTracks, shortArtists);
+
+    expect(breakdown.genres.map((g) => g.name)).toEqual(['hyperpop', 'pop', 'indie rock']);
+    expect(breakdown.artists[0]).toEqual({ name: 'Newcomer', count: 2, share: 2 / 3 });
+    expect(breakdown.decades.map((d) => d.name)).toEqual(['2020s', '2000s']);
+  });
+
+  it('should compare short-term artists and genres with the long term', () => {
+    const comparison = compareTaste(
+      { artists: shortArtists, breakdown: breakdownTaste(shortTracks, shortArtists) },
+      { artists: longArtists, breakdown: breakdownTaste(longTracks, longArtists) }
+    );
+
+    expect(comparison.newArtists).toEqual(['Newcomer']);
+    expect(comparison.fadingArtists).toEqual(['Oldie']);
+    expect(comparison.steadyArtists).toEqual(['Steady']);
+    expect(comparison.risingGenres[0]).toEqual({ name: 'hyperpop', change: 33 });
+    expect(comparison.fallingGenres.map((g) => g.name)).toEqual(['indie rock', 'classic rock']);
+  });
+
+  it('should format every time range, recent plays and the comparison', () => {
+    const text = formatListeningSummary(
+      {
+        topTracks: { short_term: shortTracks, medium_term: [], long_term: longTracks },
+        topArtists: { short_term: shortArtists, medium_term: [], long_term: longArtists },
+        recentlyPlayed: [{ track: shortTracks[0], played_at: '2026-10-01T10:00:00Z' }],
+      },
+      3
+    );
+
+    expect(text).toContain('== Last 4 weeks (short_term) ==');
+    expect(text).toContain('== Last 6 months (medium_term) ==\nTop artists: None');
+    expect(text).toContain('== Recently played (last 1 plays) ==\nArtists: Newcomer (1, 100%)');
+    expect(text).toContain('New in your rotation: Newcomer');
+    expect(text).toContain('Most played decade: 2020s now, 1970s over the long term');
+  });
+});
@@ -0,0 +1,54 @@
+/**
+ * @jest-environment node
+ */
+import {
+  createAuthorizationRequest,
+  generateCodeChallenge,
+  generateCodeVerifier,
+  generateState,
+} from '../pkce.js';
+
+describe('PKCE helpers', () => {
+  describe('generateCodeVerifier', () => {
+    it('should produce a verifier within the RFC 7636 length limits', () => {
+      const verifier = generateCodeVerifier();
+      expect(verifier.length).toBeGreaterThanOrEqual(43);
+      expect(verifier.length).toBeLessThanOrEqual(128);
+      expect(verifier).toMatch(/^[A-Za-z0-9\-_]+$/);
+    });
+
+    it('should produce a different verifier each time', () => {
+      expect(generateCodeVerifier()).not.toBe(generateCodeVerifier());
+    });
+  });
+
+  describe('generateCodeChallenge', () => {
+    it('should match the RFC 7636 S256 example', () => {
+      const verifier = 'dBjftJeZ4CVP-mB92K27uhbUJU1p1r_wW1gFWFOEjXk';
+      expect(generateCodeChallenge(verifier)).toBe('E9Melhoa2OwvFrEMTJguCHaoeK1t8URWbuGJSstw-cM');
+    });
+  });
+
+  describe('generateState', () => {
+    it('should produce a url-safe random value', () => {
+      const state = generateState();
+      expect(state).toMatch(/^[A-Za-z0-9\-_]+$/);
+      expect(state).not.toBe(generateState());
+    });
+  });
+
+  describe('createAuthorizationRequest', () => {
+    it('should only include state when PKCE is disabled', () => {
+      const request = createAuthorizationRequest(false);
+      expect(request.state).toBeDefined();
+      expect(request.codeVerifier).toBeUndefined();
+      expect(request.codeChallenge).toBeUndefined();
+    });
+
+    it('should include a matching verifier and challenge when PKCE is enabled', () => {
+      const request = createAuthorizationRequest(true);
+      expect(request.codeVerifier).toBeDefined();
+      expect(request.codeChallenge).toBe(generateCodeChallenge(request.codeVerifier as string));
+    });
+  });
+});
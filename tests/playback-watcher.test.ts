@@ -0,0 +1,77 @@
+/**
+ * @jest-environment node
+ */
+import { jest } from '@jest/globals';
+import { PlaybackWatcher } from '../playback-watcher.js';
+
+const playing = (uri: string | null): any => ({
+  is_playing: true,
+  progress_ms: 0,
+  item: uri ? { id: uri.split(':').pop(), uri } : null,
+  device: { id: 'd1', name: 'Device', volume_percent: 50 },
+  shuffle_state: false,
+  repeat_state: 'off',
+});
+
+describe('PlaybackWatcher', () => {
+  let getPlayback: jest.Mock<any>;
+  let watcher: PlaybackWatcher;
+  let changes: any[];
+
+  beforeEach(() => {
+    getPlayback = jest.fn();
+    watcher = new PlaybackWatcher({ getPlayback: getPlayback as any, intervalMs: 60000 });
+    changes = [];
+    watcher.on('trackChanged', (playback) => changes.push(playback));
+  });
+
+  afterEach(() => {
+    watcher.stop();
+  });
+
+  it('should only emit when the track changes after the first poll', async () => {
+    getPlayback
+      .mockResolvedValueOnce(playing('spotify:track:1'))
+      .mockResolvedValueOnce(playing('spotify:track:1'))
+      .mockResolvedValueOnce(playing('spotify:track:2'))
+      .mockResolvedValueOnce(null);
+
+    await watcher.poll();
+    await watcher.poll();
+    expect(changes).toHaveLength(0);
+
+    await watcher.poll();
+    await watcher.poll();
+    expect(changes).toHaveLength(2);
+    expect(changes[0].item.uri).toBe('spotify:track:2');
+    expect(changes[1]).toBeNull();
+  });
+
+  it('should poll only while there are subscribers', () => {
+    getPlayback.mockResolvedValue(null);
+
+    watcher.addSubscriber();
+    watcher.addSubscriber();
+    expect(watcher.active).toBe(true);
+    expect(getPlayback).toHaveBeenCalledTimes(1);
+
+    watcher.removeSubscriber();
+    expect(watcher.active).toBe(true);
+
+    watcher.removeSubscriber();
+    expect(watcher.active).toBe(false);
+  });
+
+  it('should keep the current track when polling fails', async () => {
+    getPlayback
+      .mockResolvedValueOnce(playing('spotify:track:1'))
+      .mockRejectedValueOnce(new Error('Not authenticated'))
+      .mockResolvedValueOnce(playing('spotify:track:1'));
+
+    await watcher.poll();
+    await watcher.poll();
+    await watcher.poll();
+
+    expect(changes).toHaveLength(0);
+  });
+});
@@ -0,0 +1,72 @@
+/**
+ * @jest-environment node
+ */
+import { findDuplicates, formatDuplicateGroups } from '../playlist-duplicates.js';
+import type { SpotifyPlaylistItem, SpotifyTrack } from '../types.js';
+
+const track = (id: string, name: string, artists: string[], durationMs: number, isrc?: string): SpotifyTrack => ({
+  id,
+  name,
+  uri: `spotify:track:${id}`,
+  duration_ms: durationMs,
+  artists: artists.map((artist) => ({ id: artist, name: artist, external_urls: { spotify: '' } })),
+  album: { id: 'al', name: 'Album', artists: [], release_date: '2020', total_tracks: 1, external_urls: { spotify: '' } },
+  external_ids: isrc ? { isrc } : undefined,
+  external_urls: { spotify: '' },
+});
+
+const single = track('single', 'Song', ['Band'], 200000);
+const albumVersion = track('album', 'Song', ['Band'], 201500);
+const remaster = track('remaster', 'Other - 2011 Remaster', ['Band'], 180000, 'GBAAA1100001');
+const original = track('original', 'Other', ['Band'], 170000, 'gbaaa1100001');
+const live = track('live', 'Song - Live', ['Band'], 260000);
+
+const items: SpotifyPlaylistItem[] = [
+  { item: single },
+  { item: remaster },
+  { item: null },
+  { item: single },
+  { item: albumVersion },
+  { item: original },
+  { item: live },
+];
+
+describe('findDuplicates', () => {
+  it('should only match the same track ID in exact mode', () => {
+    const groups = findDuplicates(items, 'exact');
+
+    expect(groups).toHaveLength(1);
+    expect(groups[0].kept.position).toBe(0);
+    expect(groups[0].duplicates.map((d) => d.position)).toEqual([3]);
+    expect(groups[0].reason).toBe('same track');
+  });
+
+  it('should match by ISRC and by title, artists and duration in fuzzy mode', () => {
+    const groups = findDuplicates(items, 'fuzzy');
+
+    expect(groups.map((group) => [group.kept.position, group.duplicates.map((d) => d.position), group.reason])).toEqual([
+      [0, [3, 4], 'same title, artists and duration'],
+      [1, [5], 'same ISRC'],
+    ]);
+  });
+
+  it('should keep positions counting items without a track', () => {
+    const groups = findDuplicates([{ item: null }, { track: single }, { item: single }], 'exact');
+
+    expect(groups[0].kept.position).toBe(1);
+    expect(groups[0].duplicates[0].position).toBe(2);
+  });
+
+  it('should not report playlists without duplicates', () => {
+    expect(findDuplicates([{ item: single }, { item: live }], 'fuzzy')).toEqual([]);
+  });
+});
+
+describe('formatDuplicateGroups', () => {
+  it('should list the kept occurrence and the duplicates', () => {
+    expect(formatDuplicateGroups(findDuplicates(items, 'fuzzy').slice(0, 1))).toBe(`Song - Band (same title, artists and duration)
+   Kept at position 0 (ID: single)
+   Duplicate at position 3: same ID
+   Duplicate at position 4: Song - Band (ID: album)`);
+  });
+});
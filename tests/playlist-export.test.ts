@@ -0,0 +1,153 @@
+/**
+ * @jest-environment node
+ */
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { parseCommand } from '../cli.js';
+import { ValidationError } from '../errors.js';
+import { resolveInsideDirectory } from '../local-files.js';
+import { buildPlaylistExport, formatFromFileName, formatPlaylistExport, writePlaylistExport } from '../playlist-export.js';
+import type { SpotifyPlaylist, SpotifyPlaylistItem } from '../types.js';
+
+const playlist: SpotifyPlaylist = {
+  id: 'pl1',
+  name: 'Road "Trip" & Co',
+  description: '',
+  snapshot_id: 'snap1',
+  owner: { display_name: 'Sam', id: 'sam' },
+  public: true,
+  external_urls: { spotify: 'https://open.spotify.com/playlist/pl1' },
+};
+
+const track = (id: string, name: string, artists: string[], isrc?: string) => ({
+  id,
+  name,
+  uri: `spotify:track:${id}`,
+  duration_ms: 215400,
+  artists: artists.map((artist) => ({ id: artist, name: artist, external_urls: { spotify: '' } })),
+  album: { id: 'al', name: 'Album, Deluxe', artists: [], release_date: '2020', total_tracks: 10, external_urls: { spotify: '' } },
+  external_ids: isrc ? { isrc } : undefined,
+  external_urls: { spotify: `https://open.spotify.com/track/${id}` },
+});
+
+const items: SpotifyPlaylistItem[] = [
+  { added_at: '2026-01-02T10:00:00Z', added_by: { id: 'sam', display_name: 'Sam' }, item: track('t1', 'First', ['A', 'B'], 'USAAA0000001') },
+  { added_at: '2026-01-03T10:00:00Z', added_by: null, item: null },
+  { added_at: null, track: track('t2', 'Second <Live>', ['C']) },
+];
+
+const data = buildPlaylistExport(playlist, items, new Date('2026-10-19T12:00:00Z'));
+
+describe('buildPlaylistExport', () => {
+  it('should keep the playlist positions and leave out items that are not tracks', () => {
+    expect(data.tracks.map((t) => [t.position, t.name, t.addedBy, t.isrc])).toEqual([
+      [1, 'First', 'Sam', 'USAAA0000001'],
+      [3, 'Second <Live>', null, null],
+    ]);
+    expect(data.skipped).toBe(1);
+    expect(data.playlist).toMatchObject({ owner: 'Sam', snapshotId: 'snap1', description: null });
+  });
+});
+
+describe('formatPlaylistExport', () => {
+  it('should quote CSV fields containing separators', () => {
+    const lines = formatPlaylistExport(data, 'csv').split('\r\n');
+
+    expect(lines[0]).toBe('position,name,artists,album,duration_ms,isrc,added_at,added_by,uri,url');
+    expect(lines[1]).toBe('1,First,A; B,"Album, Deluxe",215400,USAAA0000001,2026-01-02T10:00:00Z,Sam,spotify:track:t1,https://open.spotify.com/track/t1');
+    expect(lines).toHaveLength(4);
+  });
+
+  it('should write JSON with the playlist details', () => {
+    const parsed = JSON.parse(formatPlaylistExport(data, 'json'));
+
+    expect(parsed.playlist.name).toBe('Road "Trip" & Co');
+    expect(parsed.exportedAt).toBe('2026-10-19T12:00:00.000Z');
+    expect(parsed.tracks).toHaveLength(2);
+  });
+
+  it('should write extended M3U entries', () => {
+    expect(formatPlaylistExport(data, 'm3u8')).toBe(`#EXTM3U
+#PLAYLIST:Road "Trip" & Co
+#EXTINF:215,A, B - First
+https://open.spotify.com/track/t1
+#EXTINF:215,C - Second <Live>
+https://open.spotify.com/track/t2
+`);
+  });
+
+  it('should escape XSPF text', () => {
+    const xspf = formatPlaylistExport(data, 'xspf');
+
+    expect(xspf).toContain('<title>Road &quot;Trip&quot; &amp; Co</title>');
+    expect(xspf).toContain('<title>Second &lt;Live&gt;</title>');
+    expect(xspf).toContain('<identifier>urn:isrc:USAAA0000001</identifier>');
+    expect(xspf).not.toContain('<annotation>');
+  });
+});
+
+describe('formatFromFileName', () => {
+  it.each([['backup.CSV', 'csv'], ['list.m3u', 'm3u8'], ['dir/list.xspf', 'xspf']])('should read the format of %s', (file, format) => {
+    expect(formatFromFileName(file)).toBe(format);
+  });
+
+  it('should reject unknown extensions', () => {
+    expect(() => formatFromFileName('backup.txt')).toThrow(ValidationError);
+  });
+});
+
+describe('writePlaylistExport', () => {
+  it('should write the export readable by the owner only', () => {
+    const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'spotify-export-test-'));
+    try {
+      const written = writePlaylistExport(path.join(tmpDir, 'exports', 'list.csv'), 'position\r\n');
+
+      expect(fs.readFileSync(written, 'utf-8')).toBe('position\r\n');
+      expect(fs.statSync(written).mode & 0o777).toBe(0o600);
+      expect(fs.statSync(path.dirname(written)).mode & 0o777).toBe(0o700);
+    } finally {
+      fs.rmSync(tmpDir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('resolveInsideDirectory', () => {
+  it('should resolve relative paths inside the directory', () => {
+    expect(resolveInsideDirectory('/home/sam/.spotify-mcp/exports', 'backups/list.csv')).toBe('/home/sam/.spotify-mcp/exports/backups/list.csv');
+  });
+
+  it.each([
+    ['../tokens.json'],
+    ['backups/../../tokens.json'],
+    ['..\\tokens.json'],
+    ['/home/sam/.bashrc'],
+    ['C:\\Users\\sam\\list.csv'],
+    ['.'],
+  ])('should reject %s', (outputPath) => {
+    expect(() => resolveInsideDirectory('/home/sam/.spotify-mcp/exports', outputPath)).toThrow(ValidationError);
+  });
+});
+
+describe('parseCommand', () => {
+  it('should leave the server arguments alone', () => {
+    expect(parseCommand([])).toBeNull();
+    expect(parseCommand(['--transport', 'http'])).toBeNull();
+  });
+
+  it('should parse export-playlist', () => {
+    expect(parseCommand(['export-playlist', 'pl1'])).toEqual({ command: 'export-playlist', playlist: 'pl1', format: 'csv', output: undefined });
+    expect(parseCommand(['export-playlist', '--output=out/list.json', 'pl1'])).toMatchObject({ format: 'json', output: 'out/list.json' });
+    expect(parseCommand(['export-playlist', 'pl1', '--format', 'XSPF', '--output', 'list.txt'])).toMatchObject({ format: 'xspf' });
+  });
+
+  it.each([
+    [['export-playlist']],
+    [['export-playlist', 'a', 'b']],
+    [['export-playlist', 'pl1', '--format', 'pdf']],
+    [['export-playlist', 'pl1', '--verbose']],
+    [['export-playlist', 'pl1', '--output']],
+  ])('should reject %j', (argv) => {
+    expect(() => parseCommand(argv)).toThrow(ValidationError);
+  });
+});
@@ -0,0 +1,158 @@
+/**
+ * @jest-environment node
+ */
+import { jest } from '@jest/globals';
+import { ValidationError } from '../errors.js';
+import {
+  TracklistEntry,
+  formatImportReview,
+  matchEntry,
+  parseCsv,
+  parseTracklist,
+  scoreCandidate,
+} from '../playlist-import.js';
+import type { SpotifyTrack } from '../types.js';
+
+const track = (id: string, name: string, artists: string[], durationMs = 200000, isrc?: string): SpotifyTrack => ({
+  id,
+  name,
+  uri: `spotify:track:${id}`,
+  duration_ms: durationMs,
+  artists: artists.map((artist) => ({ id: artist, name: artist, external_urls: { spotify: '' } })),
+  album: { id: 'al', name: 'Album', artists: [], release_date: '2020', total_tracks: 1, external_urls: { spotify: '' } },
+  external_ids: isrc ? { isrc } : undefined,
+  external_urls: { spotify: `https://open.spotify.com/track/${id}` },
+});
+
+const entry = (fields: Partial<TracklistEntry>): TracklistEntry => ({
+  line: 1,
+  text: '',
+  title: '',
+  artist: null,
+  album: null,
+  isrc: null,
+  durationMs: null,
+  uri: null,
+  ...fields,
+});
+
+describe('parseCsv', () => {
+  it('should handle quoted fields, escaped quotes and line breaks', () => {
+    expect(parseCsv('a,b\r\n"x, y","say ""hi""\nthere"\n\n')).toEqual([
+      ['a', 'b'],
+      ['x, y', 'say "hi"\nthere'],
+    ]);
+  });
+});
+
+describe('parseTracklist', () => {
+  it('should read text lines, ignoring numbering, timestamps and comments', () => {
+    const { format, entries } = parseTracklist(`# Show 42
+1. Daft Punk - One More Time
+[00:12:30] Röyksopp – Eple (3:45)
+
+Just A Title
+https://open.spotify.com/track/4uLU6hMCjMI75M1A2tKUQC?si=abc`);
+
+    expect(format).toBe('text');
+    expect(entries.map((e) => [e.line, e.artist, e.title, e.durationMs, e.uri])).toEqual([
+      [2, 'Daft Punk', 'One More Time', null, null],
+      [3, 'Röyksopp', 'Eple', 225000, null],
+      [5, null, 'Just A Title', null, null],
+      [6, null, '', null, 'spotify:track:4uLU6hMCjMI75M1A2tKUQC'],
+    ]);
+  });
+
+  it('should read M3U playlists with and without #EXTINF', () => {
+    const { format, entries } = parseTracklist(`#EXTM3U
+#EXTINF:215,Air - La Femme d'Argent
+/music/air/01.mp3
+/music/03%20Moby%20-%20Porcelain.flac
+`);
+
+    expect(format).toBe('m3u');
+    expect(entries.map((e) => [e.line, e.artist, e.title, e.durationMs])).toEqual([
+      [2, 'Air', "La Femme d'Argent", 215000],
+      [4, 'Moby', 'Porcelain', null],
+    ]);
+  });
+
+  it('should read CSV files, including playlist exports', () => {
+    const { format, entries } = parseTracklist(`position,name,artists,album,duration_ms,isrc,uri
+1,First,A; B,"Album, Deluxe",215400,usaaa0000001,
+2,Second,C,,,,spotify:track:4uLU6hMCjMI75M1A2tKUQC`);
+
+    expect(format).toBe('csv');
+    expect(entries[0]).toMatchObject({ line: 2, title: 'First', artist: 'A; B', album: 'Album, Deluxe', durationMs: 215400, isrc: 'USAAA0000001', uri: null });
+    expect(entries[1]).toMatchObject({ uri: 'spotify:track:4uLU6hMCjMI75M1A2tKUQC', durationMs: null });
+  });
+
+  it('should reject CSV files without usable columns', () => {
+    expect(() => parseTracklist('foo,bar\n1,2', 'csv')).toThrow(ValidationError);
+  });
+});
+
+describe('scoreCandidate', () => {
+  const line = entry({ artist: 'Beyonce feat. Jay-Z', title: 'Crazy in Love', durationMs: 236000 });
+
+  it('should score the right track above similar ones', () => {
+    const right = scoreCandidate(line, track('1', 'Crazy In Love (feat. JAY-Z)', ['Beyoncé', 'JAY-Z'], 236133));
+    const cover = scoreCandidate(line, track('2', 'Crazy in Love', ['Some Cover Band'], 180000));
+    const other = scoreCandidate(line, track('3', 'Halo', ['Beyoncé'], 261000));
+
+    expect(right).toBeGreaterThan(0.95);
+    expect(cover).toBeLessThan(0.7);
+    expect(other).toBeLessThan(0.6);
+  });
+
+  it('should ignore remaster suffixes', () => {
+    expect(scoreCandidate(entry({ artist: 'Queen', title: 'Bohemian Rhapsody' }), track('1', 'Bohemian Rhapsody - Remastered 2011', ['Queen'])))
+      .toBeGreaterThan(0.95);
+  });
+
+  it('should cap the score of lines without an artist', () => {
+    expect(scoreCandidate(entry({ title: 'Halo' }), track('1', 'Halo', ['Beyoncé']))).toBe(0.8);
+  });
+});
+
+describe('matchEntry', () => {
+  it('should take Spotify URIs as they are', async () => {
+    const search = jest.fn<any>();
+
+    const match = await matchEntry(entry({ uri: 'spotify:track:abc' }), search);
+
+    expect(match).toMatchObject({ uri: 'spotify:track:abc', score: 1, method: 'uri' });
+    expect(search).not.toHaveBeenCalled();
+  });
+
+  it('should prefer the ISRC', async () => {
+    const search = jest.fn<any>().mockResolvedValue([track('t1', 'Song', ['A'], 200000, 'USAAA0000001')]);
+
+    const match = await matchEntry(entry({ title: 'Something else', isrc: 'USAAA0000001' }), search);
+
+    expect(search).toHaveBeenCalledWith('isrc:USAAA0000001', 1);
+    expect(match).toMatchObject({ uri: 'spotify:track:t1', method: 'isrc', score: 1 });
+  });
+
+  it('should fall back to a plain search and keep the best candidate', async () => {
+    const search = jest.fn<any>()
+      .mockResolvedValueOnce([])
+      .mockResolvedValueOnce([track('x', 'Other', ['Nobody']), track('t2', 'One More Time', ['Daft Punk'])]);
+
+    const match = await matchEntry(entry({ artist: 'Daft Punk', title: 'One More Time' }), search);
+
+    expect(search).toHaveBeenNthCalledWith(1, 'track:"One More Time" artist:"Daft Punk"', 10);
+    expect(search).toHaveBeenNthCalledWith(2, 'Daft Punk One More Time', 10);
+    expect(match).toMatchObject({ uri: 'spotify:track:t2', method: 'search' });
+  });
+
+  it('should not accept candidates below the minimum confidence', async () => {
+    const search = jest.fn<any>().mockResolvedValue([track('x', 'Completely Different', ['Nobody'])]);
+
+    const match = await matchEntry(entry({ line: 7, text: 'Daft Punk - One More Time', artist: 'Daft Punk', title: 'One More Time' }), search);
+
+    expect(match.uri).toBeNull();
+    expect(match.candidate?.id).toBe('x');
+    expect(formatImportReview([match])).toMatch(/^Not matched:\nLine 7: "Daft Punk - One More Time" \(best guess: Nobody - Completely Different, \d+%, ID: x\)$/);
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * @jest-environment node
+ */
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ValidationError } from '../errors.js';
+import {
+  MAX_SNAPSHOTS_PER_PLAYLIST,
+  RESTORE_REASON,
+  PlaylistSnapshot,
+  PlaylistSnapshotStore,
+  buildPlaylistSnapshot,
+  diffSnapshots,
+  formatSnapshotDiff,
+} from '../playlist-snapshots.js';
+import type { SpotifyPlaylist } from '../types.js';
+
+const playlist = (snapshotId: string, name = 'Mix'): SpotifyPlaylist => ({
+  id: 'pl1',
+  name,
+  description: 'Songs',
+  snapshot_id: snapshotId,
+  owner: { id: 'me' },
+  public: false,
+  collaborative: false,
+  external_urls: { spotify: '' },
+});
+
+const track = (id: string) => ({
+  id,
+  name: `Track ${id}`,
+  uri: `spotify:track:${id}`,
+  duration_ms: 1000,
+  artists: [{ id: 'a', name: 'Artist', external_urls: { spotify: '' } }],
+  album: { id: 'al', name: 'Album', artists: [], release_date: '2020', total_tracks: 1, external_urls: { spotify: '' } },
+  external_urls: { spotify: '' },
+});
+
+const snapshot = (snapshotId: string, ids: string[], name?: string, takenAt = '2026-10-19T10:00:00Z'): PlaylistSnapshot =>
+  buildPlaylistSnapshot(playlist(snapshotId, name), ids.map((id) => ({ item: track(id) })), 'remove-tracks-from-playlist', new Date(takenAt));
+
+describe('buildPlaylistSnapshot', () => {
+  it('should keep the tracks in order and count items without a track', () => {
+    const result = buildPlaylistSnapshot(playlist('s1'), [{ item: track('a') }, { item: null }, { track: track('b') }], 'delete-playlist');
+
+    expect(result.snapshotId).toBe('s1');
+    expect(result.items.map((item) => item.uri)).toEqual(['spotify:track:a', 'spotify:track:b']);
+    expect(result.skipped).toBe(1);
+    expect(result.details).toEqual({ name: 'Mix', description: 'Songs', public: false, collaborative: false });
+  });
+});
+
+describe('diffSnapshots', () => {
+  it('should list added and removed tracks, counting duplicates', () => {
+    const diff = diffSnapshots(snapshot('s1', ['a', 'b', 'b', 'c']), snapshot('s2', ['a', 'b', 'c', 'd'], 'New mix'));
+
+    expect(diff.removed.map((item) => item.uri)).toEqual(['spotify:track:b']);
+    expect(diff.added.map((item) => item.uri)).toEqual(['spotify:track:d']);
+    expect(diff.details).toEqual([{ field: 'name', from: 'Mix', to: 'New mix' }]);
+    expect(diff.reordered).toBe(false);
+  });
+
+  it('should notice reordered tracks', () => {
+    const diff = diffSnapshots(snapshot('s1', ['a', 'b', 'c']), snapshot('s2', ['c', 'a', 'b']));
+
+    expect(diff.reordered).toBe(true);
+    expect(formatSnapshotDiff(diff, 'before', 'after')).toBe('Changes from before to after:\n\nThe order of the remaining tracks changed.');
+  });
+
+  it('should report identical states', () => {
+    expect(formatSnapshotDiff(diffSnapshots(snapshot('s1', ['a']), snapshot('s1', ['a'])), 'x', 'y')).toBe('No differences between x and y.');
+  });
+});
+
+describe('PlaylistSnapshotStore', () => {
+  let tmpDir: string;
+  let store: PlaylistSnapshotStore;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'spotify-snapshots-test-'));
+    store = new PlaylistSnapshotStore(path.join(tmpDir, 'snapshots', 'default'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should skip snapshots of an unchanged playlist', () => {
+    expect(store.add(snapshot('s1', ['a']))).toBe(true);
+    expect(store.add(snapshot('s1', ['a']))).toBe(false);
+    expect(store.add(snapshot('s2', ['a', 'b'], undefined, '2026-10-19T11:00:00Z'))).toBe(true);
+
+    expect(store.list('pl1').map((s) => s.snapshotId)).toEqual(['s2', 's1']);
+    expect(store.list().map((s) => s.snapshotId)).toEqual(['s2', 's1']);
+  });
+
+  it('should find snapshots by ID or as the latest one', () => {
+    store.add(snapshot('s1', ['a']));
+    store.add(snapshot('s2', ['b'], undefined, '2026-10-19T11:00:00Z'));
+
+    expect(store.get('pl1', 'latest').snapshotId).toBe('s2');
+    expect(store.get('pl1', 's1').items[0].uri).toBe('spotify:track:a');
+    expect(() => store.get('pl1', 'missing')).toThrow(ValidationError);
+    expect(() => store.get('other', 'latest')).toThrow(ValidationError);
+  });
+
+  it('should skip the snapshots taken before a restore when looking for the latest one', () => {
+    store.add(snapshot('s1', ['a']));
+    store.add({ ...snapshot('s2', ['b'], undefined, '2026-10-19T11:00:00Z'), reason: RESTORE_REASON });
+
+    expect(store.get('pl1', 'latest').snapshotId).toBe('s1');
+    expect(store.get('pl1', 's2').reason).toBe(RESTORE_REASON);
+  });
+
+  it('should keep only the most recent snapshots of a playlist', () => {
+    for (let i = 0; i < MAX_SNAPSHOTS_PER_PLAYLIST + 5; i++) {
+      store.add(snapshot(`s${i}`, ['a'], undefined, new Date(Date.UTC(2026, 0, 1, 0, i)).toISOString()));
+    }
+
+    const snapshots = store.list('pl1');
+    expect(snapshots).toHaveLength(MAX_SNAPSHOTS_PER_PLAYLIST);
+    expect(snapshots[snapshots.length - 1].snapshotId).toBe('s5');
+  });
+});
@@ -0,0 +1,107 @@
+/**
+ * @jest-environment node
+ */
+import { jest } from '@jest/globals';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { DEFAULT_PROFILE, ProfileManager } from '../profiles.js';
+import { TokenStore } from '../token-store.js';
+import { ValidationError } from '../errors.js';
+
+describe('ProfileManager', () => {
+  let baseDir: string;
+
+  const createManager = (initialProfile?: string) => new ProfileManager({
+    baseDir,
+    initialProfile,
+    createStore: (tokenPath) => new TokenStore({
+      tokenPath,
+      clientId: 'test-client-id',
+      clientSecret: 'test-client-secret',
+      authBase: 'https://accounts.spotify.com',
+      httpClient: { post: jest.fn() as any },
+    }),
+  });
+
+  const writeTokens = (file: string) => {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, JSON.stringify({
+      accessToken: 'a',
+      refreshToken: 'r',
+      tokenExpirationTime: Date.now() + 3600000,
+    }));
+  };
+
+  beforeEach(() => {
+    baseDir = fs.mkdtempSync(path.join(os.tmpdir(), 'spotify-mcp-profiles-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(baseDir, { recursive: true, force: true });
+  });
+
+  it('should start on the default profile using the legacy token file', () => {
+    const manager = createManager();
+
+    expect(manager.activeName).toBe(DEFAULT_PROFILE);
+    expect(manager.activeStore().tokenPath).toBe(path.join(baseDir, 'tokens.json'));
+  });
+
+  it('should give each profile its own token file', () => {
+    const manager = createManager();
+
+    expect(manager.tokenPathFor('work')).toBe(path.join(baseDir, 'profiles', 'work.json'));
+    expect(manager.getStore('work')).not.toBe(manager.getStore(DEFAULT_PROFILE));
+  });
+
+  it('should persist the active profile across instances', () => {
+    createManager().switch('work');
+
+    expect(createManager().activeName).toBe('work');
+    expect(fs.statSync(path.join(baseDir, 'active-profile.json')).mode & 0o777).toBe(0o600);
+  });
+
+  it('should let the initial profile override the persisted one', () => {
+    createManager().switch('work');
+
+    expect(createManager('family').activeName).toBe('family');
+  });
+
+  it('should emit switched when the active profile changes', () => {
+    const manager = createManager();
+    const listener = jest.fn();
+    manager.on('switched', listener);
+
+    manager.switch('work');
+
+    expect(listener).toHaveBeenCalledWith('work');
+  });
+
+  it('should list profiles with their authentication state', () => {
+    writeTokens(path.join(baseDir, 'profiles', 'work.json'));
+    const manager = createManager();
+
+    expect(manager.list()).toEqual([
+      { name: 'default', active: true, authenticated: false },
+      { name: 'work', active: false, authenticated: true },
+    ]);
+  });
+
+  it('should remove the token file on logout', () => {
+    const tokenFile = path.join(baseDir, 'profiles', 'work.json');
+    writeTokens(tokenFile);
+    const manager = createManager();
+
+    manager.logout('work');
+
+    expect(fs.existsSync(tokenFile)).toBe(false);
+    expect(manager.getStore('work').hasTokens()).toBe(false);
+  });
+
+  it('should reject profile names that could escape the profiles directory', () => {
+    const manager = createManager();
+
+    expect(() => manager.switch('../evil')).toThrow(ValidationError);
+  });
+});
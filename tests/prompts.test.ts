@@ -0,0 +1,55 @@
+/**
+ * @jest-environment node
+ */
+import { PROMPTS, getPrompt } from '../prompts.js';
+import { ValidationError } from '../errors.js';
+
+const text = (result: ReturnType<typeof getPrompt>) => result.messages[0].content.text as string;
+
+describe('prompts', () => {
+  it('should list every prompt with its arguments', () => {
+    expect(PROMPTS.map((prompt) => prompt.name)).toEqual([
+      'mood-playlist',
+      'monthly-listening-summary',
+      'clean-up-playlist',
+    ]);
+    expect(PROMPTS[0].arguments?.find((arg) => arg.name === 'mood')?.required).toBe(true);
+  });
+
+  it('should render the mood playlist prompt with the tools to call', () => {
+    const result = getPrompt('mood-playlist', { mood: 'late night drive', trackCount: '15' });
+
+    expect(result.messages[0].role).toBe('user');
+    expect(text(result)).toContain('"late night drive"');
+    expect(text(result)).toContain('15 suitable tracks');
+    for (const tool of ['get-top-tracks', 'search-spotify', 'create-playlist', 'add-tracks-to-playlist']) {
+      expect(text(result)).toContain(tool);
+    }
+  });
+
+  it('should apply defaults for optional arguments', () => {
+    expect(text(getPrompt('mood-playlist', { mood: 'calm' }))).toContain('20 suitable tracks');
+    expect(text(getPrompt('monthly-listening-summary'))).toContain('time_range "short_term"');
+  });
+
+  it('should include the playlist ID in the clean up prompt', () => {
+    expect(text(getPrompt('clean-up-playlist', { playlistId: 'abc123' }))).toContain('playlistId "abc123"');
+  });
+
+  it('should remove duplicates with the duplicate tools in the clean up prompt', () => {
+    const rendered = text(getPrompt('clean-up-playlist', { playlistId: 'abc123' }));
+
+    expect(rendered).toContain('find-playlist-duplicates');
+    expect(rendered).toContain('dedupe-playlist');
+    expect(rendered).not.toContain('add-tracks-to-playlist');
+  });
+
+  it('should reject missing or invalid arguments', () => {
+    expect(() => getPrompt('clean-up-playlist', {})).toThrow(ValidationError);
+    expect(() => getPrompt('mood-playlist', { mood: 'calm', trackCount: '500' })).toThrow(ValidationError);
+  });
+
+  it('should reject unknown prompts', () => {
+    expect(() => getPrompt('unknown')).toThrow('Unknown prompt: unknown');
+  });
+});
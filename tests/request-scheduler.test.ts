@@ -0,0 +1,125 @@
+/**
+ * @jest-environment node
+ */
+import { jest } from '@jest/globals';
+import { RequestScheduler, parseRetryAfter } from '../request-scheduler.js';
+
+const httpError = (status: number, headers: Record<string, string> = {}) =>
+  Object.assign(new Error(`Request failed with status code ${status}`), {
+    response: { status, headers, data: {} },
+  });
+
+const networkError = (code: string) => Object.assign(new Error(code), { code });
+
+const createScheduler = (options = {}) => new RequestScheduler({
+  maxConcurrency: 2,
+  maxRetries: 3,
+  baseDelayMs: 1,
+  maxDelayMs: 5,
+  maxRetryAfterMs: 1000,
+  random: () => 1,
+  ...options,
+});
+
+describe('RequestScheduler', () => {
+  describe('parseRetryAfter', () => {
+    it('should parse seconds', () => {
+      expect(parseRetryAfter('2')).toBe(2000);
+    });
+
+    it('should parse HTTP dates', () => {
+      const now = Date.parse('2026-01-01T00:00:00Z');
+      expect(parseRetryAfter('Thu, 01 Jan 2026 00:00:03 GMT', now)).toBe(3000);
+    });
+
+    it('should return null for missing values', () => {
+      expect(parseRetryAfter(undefined)).toBeNull();
+    });
+  });
+
+  it('should resolve with the task result', async () => {
+    const scheduler = createScheduler();
+
+    await expect(scheduler.schedule(async () => 'ok')).resolves.toBe('ok');
+    expect(scheduler.getMetrics()).toEqual(expect.objectContaining({ queued: 1, succeeded: 1, failed: 0 }));
+  });
+
+  it('should never run more tasks than the concurrency cap', async () => {
+    const scheduler = createScheduler({ maxConcurrency: 2 });
+    let running = 0;
+    let maxRunning = 0;
+
+    const task = async () => {
+      running++;
+      maxRunning = Math.max(maxRunning, running);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      running--;
+    };
+
+    await Promise.all(Array.from({ length: 6 }, () => scheduler.schedule(task)));
+
+    expect(maxRunning).toBe(2);
+  });
+
+  it('should honor Retry-After on 429 responses', async () => {
+    const scheduler = createScheduler();
+    const task = jest.fn<() => Promise<string>>()
+      .mockRejectedValueOnce(httpError(429, { 'retry-after': '0.05' }))
+      .mockResolvedValueOnce('ok');
+
+    const start = Date.now();
+    await expect(scheduler.schedule(task)).resolves.toBe('ok');
+
+    expect(Date.now() - start).toBeGreaterThanOrEqual(45);
+    expect(task).toHaveBeenCalledTimes(2);
+    expect(scheduler.getMetrics()).toEqual(expect.objectContaining({ retried: 1, rateLimited: 1 }));
+  });
+
+  it('should give up when Retry-After exceeds the maximum wait', async () => {
+    const scheduler = createScheduler();
+    const task = jest.fn<() => Promise<string>>()
+      .mockRejectedValueOnce(httpError(429, { 'retry-after': '3600' }));
+
+    await expect(scheduler.schedule(task)).rejects.toThrow('429');
+    expect(task).toHaveBeenCalledTimes(1);
+  });
+
+  it('should retry 5xx responses and network errors with backoff', async () => {
+    const scheduler = createScheduler();
+    const task = jest.fn<() => Promise<string>>()
+      .mockRejectedValueOnce(httpError(503))
+      .mockRejectedValueOnce(networkError('ECONNRESET'))
+      .mockResolvedValueOnce('ok');
+
+    await expect(scheduler.schedule(task)).resolves.toBe('ok');
+    expect(task).toHaveBeenCalledTimes(3);
+    expect(scheduler.getMetrics().retried).toBe(2);
+  });
+
+  it('should not retry server errors when disabled for the request', async () => {
+    const scheduler = createScheduler();
+    const task = jest.fn<() => Promise<string>>()
+      .mockRejectedValueOnce(httpError(502));
+
+    await expect(scheduler.schedule(task, { retryOnServerError: false })).rejects.toThrow('502');
+    expect(task).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not retry client errors', async () => {
+    const scheduler = createScheduler();
+    const task = jest.fn<() => Promise<string>>()
+      .mockRejectedValueOnce(httpError(404));
+
+    await expect(scheduler.schedule(task)).rejects.toThrow('404');
+    expect(scheduler.getMetrics()).toEqual(expect.objectContaining({ retried: 0, failed: 1 }));
+  });
+
+  it('should fail after the maximum number of retries', async () => {
+    const scheduler = createScheduler({ maxRetries: 2 });
+    const task = jest.fn<() => Promise<string>>().mockRejectedValue(httpError(500));
+
+    await expect(scheduler.schedule(task)).rejects.toThrow('500');
+    expect(task).toHaveBeenCalledTimes(3);
+    expect(scheduler.getMetrics()).toEqual(expect.objectContaining({ retried: 2, failed: 1 }));
+  });
+});
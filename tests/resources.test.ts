@@ -0,0 +1,77 @@
+/**
+ * @jest-environment node
+ */
+import { jest } from '@jest/globals';
+import { readResource, isSubscribable, CURRENT_PLAYBACK_URI, PLAYLISTS_URI } from '../resources.js';
+import { ValidationError } from '../errors.js';
+
+const track = {
+  id: 't1',
+  name: 'Track',
+  uri: 'spotify:track:t1',
+  duration_ms: 1000,
+  artists: [{ id: 'a1', name: 'Artist', external_urls: { spotify: 'a' } }],
+  album: { name: 'Album' },
+  external_urls: { spotify: 'https://open.spotify.com/track/t1' },
+};
+
+const playlist = {
+  id: 'p1',
+  name: 'Playlist',
+  description: null,
+  owner: { id: 'owner' },
+  public: false,
+  items: { total: 2 },
+  external_urls: { spotify: 'https://open.spotify.com/playlist/p1' },
+};
+
+async function* pages(...all: any[]) {
+  yield* all;
+}
+
+describe('resources', () => {
+  const read = async (client: any, uri: string) => {
+    const result = await readResource(client, uri);
+    expect(result.contents[0].mimeType).toBe('application/json');
+    return JSON.parse(result.contents[0].text as string);
+  };
+
+  it('should describe an idle player', async () => {
+    const data = await read({ getPlayback: jest.fn<any>().mockResolvedValue(null) }, CURRENT_PLAYBACK_URI);
+
+    expect(data).toEqual({ active: false, is_playing: false, track: null });
+  });
+
+  it('should list playlists with their resource URIs', async () => {
+    const client = { userPlaylistPages: () => pages({ items: [playlist], total: 1, next: null }) };
+
+    const data = await read(client, PLAYLISTS_URI);
+
+    expect(data.total).toBe(1);
+    expect(data.playlists[0].resource).toBe('spotify://playlist/p1');
+    expect(data.playlists[0].owner).toBe('owner');
+  });
+
+  it('should read a playlist with its tracks', async () => {
+    const client = {
+      getPlaylist: jest.fn<any>().mockResolvedValue(playlist),
+      playlistItemPages: jest.fn(() => pages({ items: [{ item: track }, { item: null }], total: 2, next: null })),
+    };
+
+    const data = await read(client, 'spotify://playlist/p1');
+
+    expect(client.getPlaylist).toHaveBeenCalledWith('p1');
+    expect(data.tracks[0]).toMatchObject({ position: 0, name: 'Track', artists: ['Artist'] });
+    expect(data.tracks[1]).toMatchObject({ position: 1, unavailable: true });
+    expect(data.truncated).toBe(false);
+  });
+
+  it('should reject unknown resources', async () => {
+    await expect(readResource({} as any, 'spotify://unknown')).rejects.toThrow(ValidationError);
+  });
+
+  it('should only allow subscribing to the current playback', () => {
+    expect(isSubscribable(CURRENT_PLAYBACK_URI)).toBe(true);
+    expect(isSubscribable(PLAYLISTS_URI)).toBe(false);
+  });
+});
@@ -0,0 +1,26 @@
+/**
+ * @jest-environment node
+ */
+import { AUTH } from '../config.js';
+import { TOOL_SCOPES, missingScopes, requiredScopes } from '../scopes.js';
+
+describe('scopes', () => {
+  it('should only require scopes that are requested when authorizing', () => {
+    const required = new Set(Object.values(TOOL_SCOPES).flat());
+
+    expect([...required].filter((scope) => !AUTH.SCOPES.includes(scope))).toEqual([]);
+    expect(new Set(AUTH.SCOPES).size).toBe(AUTH.SCOPES.length);
+  });
+
+  it('should list the scopes a tool needs that were not granted', () => {
+    expect(requiredScopes('save-tracks')).toEqual(['user-library-modify']);
+    expect(missingScopes('save-tracks', ['user-library-read'])).toEqual(['user-library-modify']);
+    expect(missingScopes('save-tracks', ['user-library-read', 'user-library-modify'])).toEqual([]);
+    expect(missingScopes('query-listening-history', ['user-top-read'])).toEqual(['user-read-recently-played']);
+  });
+
+  it('should not report missing scopes when the granted scopes are unknown or not needed', () => {
+    expect(missingScopes('save-tracks', null)).toEqual([]);
+    expect(missingScopes('search-spotify', [])).toEqual([]);
+  });
+});
@@ -0,0 +1,387 @@
+/**
+ * @jest-environment node
+ */
+import { jest } from '@jest/globals';
+import { SpotifyClient, collectItems } from '../spotify-client.js';
+import { RequestScheduler } from '../request-scheduler.js';
+import { TokenStore } from '../token-store.js';
+import { MemoryBackend } from '../credential-backends.js';
+import { APIError, AuthenticationError } from '../errors.js';
+
+const SPOTIFY_API_BASE = "https://api.spotify.com/v1";
+
+const artist = { id: 'a1', name: 'Artist', external_urls: { spotify: 'https://open.spotify.com/artist/a1' } };
+const album = {
+  id: 'al1',
+  name: 'Album',
+  artists: [artist],
+  release_date: '2020-01-01',
+  total_tracks: 10,
+  external_urls: { spotify: 'https://open.spotify.com/album/al1' },
+};
+const track = {
+  id: 't1',
+  name: 'Track',
+  uri: 'spotify:track:t1',
+  duration_ms: 180000,
+  artists: [artist],
+  album,
+  external_urls: { spotify: 'https://open.spotify.com/track/t1' },
+};
+
+describe('SpotifyClient', () => {
+  let http: jest.Mock<any>;
+  let store: TokenStore;
+  let client: SpotifyClient;
+
+  beforeEach(() => {
+    http = jest.fn();
+    store = new TokenStore({
+      tokenPath: '/tmp/spotify-client-test.json',
+      clientId: 'test-client-id',
+      authBase: 'https://accounts.spotify.com',
+      backend: new MemoryBackend(),
+    });
+    store.setTokens({ access_token: 'access', refresh_token: 'refresh', expires_in: 3600 });
+    client = new SpotifyClient({
+      apiBase: SPOTIFY_API_BASE,
+      scheduler: new RequestScheduler({ maxRetries: 0 }),
+      getTokenStore: () => store,
+      httpClient: http as any,
+    });
+  });
+
+  it('should send the access token and return validated data', async () => {
+    http.mockResolvedValue({ data: { id: 'user', display_name: 'User', external_urls: { spotify: 'x' } } });
+
+    const user = await client.getCurrentUser();
+
+    expect(user.display_name).toBe('User');
+    expect(http).toHaveBeenCalledWith(expect.objectContaining({
+      method: 'GET',
+      url: `${SPOTIFY_API_BASE}/me`,
+      headers: expect.objectContaining({ Authorization: 'Bearer access' }),
+    }));
+  });
+
+  it('should reject responses that do not match the schema', async () => {
+    http.mockResolvedValue({ data: { display_name: 'User' } });
+
+    await expect(client.getCurrentUser()).rejects.toThrow(APIError);
+  });
+
+  it('should drop null entries from search results', async () => {
+    http.mockResolvedValue({ data: { tracks: { items: [track, null] } } });
+
+    const results = await client.search('query', 'track', 5);
+
+    expect(results.tracks?.items).toHaveLength(1);
+    expect(http.mock.calls[0][0].url).toBe(`${SPOTIFY_API_BASE}/search?q=query&type=track&limit=5`);
+  });
+
+  it('should return null when there is no playback', async () => {
+    http.mockResolvedValue({ data: '' });
+
+    await expect(client.getPlayback()).resolves.toBeNull();
+  });
+
+  it('should turn unavailable playlist items into null', async () => {
+    http.mockResolvedValue({
+      data: { items: [{ item: track }, { item: { id: 'local', name: 'Local file' } }], total: 2 },
+    });
+
+    const page = await client.getPlaylistItems('p1', 20, 0);
+
+    expect(page.items[0].item?.id).toBe('t1');
+    expect(page.items[1].item).toBeNull();
+  });
+
+  it('should add items in batches of 100 and return the last snapshot', async () => {
+    http
+      .mockResolvedValueOnce({ data: { snapshot_id: 'one' } })
+      .mockResolvedValueOnce({ data: { snapshot_id: 'two' } });
+    const uris = Array.from({ length: 150 }, (_, i) => `spotify:track:${i}`);
+
+    const snapshot = await client.addItems('p1', uris);
+
+    expect(snapshot.snapshot_id).toBe('two');
+    expect(http).toHaveBeenCalledTimes(2);
+    expect(http.mock.calls[0][0].data.uris).toHaveLength(100);
+    expect(http.mock.calls[1][0].data.uris).toHaveLength(50);
+  });
+
+  it('should replace the first 100 items and add the rest', async () => {
+    http
+      .mockResolvedValueOnce({ data: { snapshot_id: 'one' } })
+      .mockResolvedValueOnce({ data: { snapshot_id: 'two' } });
+    const uris = Array.from({ length: 130 }, (_, i) => `spotify:track:${i}`);
+
+    const snapshot = await client.replaceItems('p1', uris);
+
+    expect(snapshot.snapshot_id).toBe('two');
+    expect(http.mock.calls[0][0]).toMatchObject({ method: 'PUT', data: { uris: uris.slice(0, 100) } });
+    expect(http.mock.calls[1][0]).toMatchObject({ method: 'POST', data: { uris: uris.slice(100) } });
+  });
+
+  it('should empty a playlist when replacing its items with none', async () => {
+    http.mockResolvedValueOnce({ data: { snapshot_id: 'empty' } });
+
+    await client.replaceItems('p1', []);
+
+    expect(http).toHaveBeenCalledTimes(1);
+    expect(http.mock.calls[0][0]).toMatchObject({ method: 'PUT', data: { uris: [] } });
+  });
+
+  it('should remove items by position from the end, chaining snapshots', async () => {
+    http
+      .mockResolvedValueOnce({ data: { snapshot_id: 'one' } })
+      .mockResolvedValueOnce({ data: { snapshot_id: 'two' } });
+    const items = Array.from({ length: 120 }, (_, i) => ({ uri: `spotify:track:${i}`, position: i * 2 }));
+
+    const snapshot = await client.removeItemsAtPositions('p1', items, 'start');
+
+    expect(snapshot.snapshot_id).toBe('two');
+    const [first, second] = http.mock.calls.map((call: any[]) => call[0].data);
+    expect(first.snapshot_id).toBe('start');
+    expect(first.items).toHaveLength(100);
+    expect(first.items[0]).toEqual({ uri: 'spotify:track:119', positions: [238] });
+    expect(second.snapshot_id).toBe('one');
+    expect(second.items[second.items.length - 1]).toEqual({ uri: 'spotify:track:0', positions: [0] });
+  });
+
+  it('should not retry a reorder after a server error', async () => {
+    const retrying = new SpotifyClient({
+      apiBase: SPOTIFY_API_BASE,
+      scheduler: new RequestScheduler({ maxRetries: 2, baseDelayMs: 1, maxDelayMs: 1 }),
+      getTokenStore: () => store,
+      httpClient: http as any,
+    });
+    http.mockRejectedValue({ message: 'Bad gateway', response: { status: 502, data: {} } });
+
+    await expect(retrying.reorderItems('p1', 0, 5, 1)).rejects.toBeInstanceOf(APIError);
+    expect(http).toHaveBeenCalledTimes(1);
+  });
+
+  it('should send the cover image as image/jpeg', async () => {
+    http.mockResolvedValue({ data: '' });
+
+    await client.uploadPlaylistCover('p1', 'base64data');
+
+    expect(http).toHaveBeenCalledWith(expect.objectContaining({
+      method: 'PUT',
+      url: `${SPOTIFY_API_BASE}/playlists/p1/images`,
+      data: 'base64data',
+      headers: expect.objectContaining({ 'Content-Type': 'image/jpeg' }),
+    }));
+  });
+
+  it('should pass playback settings and the device as query parameters', async () => {
+    http.mockResolvedValue({ data: '' });
+
+    await client.setVolume(40, 'device 1');
+    await client.seek(90000);
+    await client.setRepeatMode('context', 'd2');
+
+    expect(http.mock.calls.map((call) => call[0].url)).toEqual([
+      `${SPOTIFY_API_BASE}/me/player/volume?volume_percent=40&device_id=device%201`,
+      `${SPOTIFY_API_BASE}/me/player/seek?position_ms=90000`,
+      `${SPOTIFY_API_BASE}/me/player/repeat?state=context&device_id=d2`,
+    ]);
+  });
+
+  it('should parse queues of tracks and episodes and drop unknown items', async () => {
+    const episode = {
+      id: 'e1',
+      name: 'Episode',
+      type: 'episode',
+      duration_ms: 60000,
+      show: { name: 'Show' },
+      external_urls: { spotify: 'https://open.spotify.com/episode/e1' },
+    };
+    http.mockResolvedValue({ data: { currently_playing: track, queue: [episode, { type: 'ad' }, track] } });
+
+    const queue = await client.getQueue();
+
+    expect(queue.currently_playing?.id).toBe('t1');
+    expect(queue.queue.map((item) => item.id)).toEqual(['e1', 't1']);
+  });
+
+  it('should queue an item with its URI encoded', async () => {
+    http.mockResolvedValue({ data: '' });
+
+    await client.addToQueue('spotify:track:t1', 'd1');
+
+    expect(http).toHaveBeenCalledWith(expect.objectContaining({
+      method: 'POST',
+      url: `${SPOTIFY_API_BASE}/me/player/queue?uri=spotify%3Atrack%3At1&device_id=d1`,
+    }));
+  });
+
+  it('should send a context, offset and start position when playing', async () => {
+    http.mockResolvedValue({ data: '' });
+
+    await client.play({ contextUri: 'spotify:album:al1', offset: { position: 3 }, positionMs: 1000 }, 'd1');
+    await client.play({ uris: ['spotify:track:t1'] });
+
+    expect(http.mock.calls.map((call) => [call[0].url, call[0].data])).toEqual([
+      [`${SPOTIFY_API_BASE}/me/player/play?device_id=d1`, { context_uri: 'spotify:album:al1', offset: { position: 3 }, position_ms: 1000 }],
+      [`${SPOTIFY_API_BASE}/me/player/play`, { uris: ['spotify:track:t1'] }],
+    ]);
+  });
+
+  describe('when Spotify answers 401', () => {
+    const unauthorized = { message: 'Unauthorized', response: { status: 401, data: {} } };
+    let backend: MemoryBackend;
+    let post: jest.Mock<any>;
+
+    beforeEach(() => {
+      backend = new MemoryBackend();
+      post = jest.fn();
+      store = new TokenStore({
+        tokenPath: '/tmp/spotify-client-test.json',
+        clientId: 'test-client-id',
+        authBase: 'https://accounts.spotify.com',
+        backend,
+        httpClient: { post: post as any },
+      });
+      store.setTokens({ access_token: 'access', refresh_token: 'refresh', expires_in: 3600 });
+    });
+
+    it('should refresh the token, retry once and keep the stored tokens', async () => {
+      http.mockRejectedValueOnce(unauthorized).mockResolvedValueOnce({ data: '' });
+      post.mockResolvedValue({ data: { access_token: 'fresh', expires_in: 3600 } });
+
+      await client.pause();
+
+      expect(http).toHaveBeenCalledTimes(2);
+      expect(http.mock.calls[1][0]).toMatchObject({ headers: { Authorization: 'Bearer fresh' } });
+      expect(backend.load('/tmp/spotify-client-test.json')).toMatchObject({ accessToken: 'fresh', refreshToken: 'refresh' });
+    });
+
+    it('should keep the stored tokens when the retry is rejected too', async () => {
+      http.mockRejectedValue(unauthorized);
+      post.mockResolvedValue({ data: { access_token: 'fresh', expires_in: 3600 } });
+
+      await expect(client.pause()).rejects.toThrow(AuthenticationError);
+      expect(http).toHaveBeenCalledTimes(2);
+      expect(backend.load('/tmp/spotify-client-test.json')?.refreshToken).toBe('refresh');
+    });
+
+    it('should drop the tokens when the refresh token is rejected', async () => {
+      http.mockRejectedValue(unauthorized);
+      post.mockRejectedValue({ message: 'Bad request', response: { status: 400, data: { error: 'invalid_grant' } } });
+
+      await expect(client.pause()).rejects.toThrow(AuthenticationError);
+      expect(store.hasTokens()).toBe(false);
+    });
+  });
+
+  it('should read albums with their embedded tracks and page through the rest', async () => {
+    const albumTrack = { ...track, track_number: 1, disc_number: 1, album: undefined };
+    http
+      .mockResolvedValueOnce({
+        data: { ...album, label: 'Label', copyrights: [{ text: '(C) 2020 Label', type: 'C' }], tracks: { items: [albumTrack], total: 2, next: 'x' } },
+      })
+      .mockResolvedValueOnce({ data: { items: [{ ...albumTrack, id: 't2', track_number: 2 }], total: 2, next: null } });
+
+    const result = await client.getAlbum('al1');
+    const rest = await collectItems(client.albumTrackPages('al1', 1), 10);
+
+    expect(result.label).toBe('Label');
+    expect(result.tracks?.items[0].track_number).toBe(1);
+    expect(rest.items.map((t) => t.id)).toEqual(['t2']);
+    expect(http.mock.calls[1][0].url).toBe(`${SPOTIFY_API_BASE}/albums/al1/tracks?limit=50&offset=1`);
+  });
+
+  it('should ask to authorize again when a scope is missing, without dropping the tokens', async () => {
+    http.mockRejectedValue({
+      message: 'Forbidden',
+      response: { status: 403, data: { error: { status: 403, message: 'Insufficient client scope' } } },
+    });
+
+    await expect(client.saveTracks(['t1'])).rejects.toThrow('Run auth-spotify with reauthorize');
+    expect(store.hasTokens()).toBe(true);
+  });
+
+  it('should save tracks in batches of 50 and check them in order', async () => {
+    const ids = Array.from({ length: 60 }, (_, i) => `t${i}`);
+    http.mockResolvedValue({ data: '' });
+
+    await client.saveTracks(ids);
+
+    expect(http.mock.calls.map((call) => [call[0].method, call[0].data.ids.length])).toEqual([['PUT', 50], ['PUT', 10]]);
+
+    http.mockReset();
+    http
+      .mockResolvedValueOnce({ data: Array(50).fill(true) })
+      .mockResolvedValueOnce({ data: Array(10).fill(false) });
+
+    const saved = await client.checkSavedTracks(ids);
+
+    expect(saved.slice(48, 52)).toEqual([true, true, false, false]);
+    expect(http.mock.calls[1][0].url).toBe(`${SPOTIFY_API_BASE}/me/tracks/contains?ids=${ids.slice(50).join(',')}`);
+  });
+
+  it('should wrap other failures in an APIError with the status', async () => {
+    http.mockRejectedValue({ message: 'Not found', response: { status: 404, data: { error: 'missing' } } });
+
+    const error = await client.unfollowPlaylist('p1').catch((e) => e);
+
+    expect(error).toBeInstanceOf(APIError);
+    expect(error.status).toBe(404);
+    expect(error.message).toContain('missing');
+  });
+
+  describe('pagination', () => {
+    const page = (ids: string[], next: string | null, total = 120) => ({
+      data: { items: ids.map((id) => ({ ...track, id })), total, next },
+    });
+
+    it('should follow next links until the last page', async () => {
+      http
+        .mockResolvedValueOnce(page(['1', '2'], `${SPOTIFY_API_BASE}/me/top/tracks?offset=2&limit=2`, 3))
+        .mockResolvedValueOnce(page(['3'], null, 3));
+
+      const result = await collectItems(client.topTrackPages('short_term'), 100);
+
+      expect(result.items.map((t) => t.id)).toEqual(['1', '2', '3']);
+      expect(result.truncated).toBe(false);
+      expect(http.mock.calls[0][0].url).toBe(`${SPOTIFY_API_BASE}/me/top/tracks?limit=50&offset=0&time_range=short_term`);
+      expect(http.mock.calls[1][0].url).toBe(`${SPOTIFY_API_BASE}/me/top/tracks?offset=2&limit=2`);
+    });
+
+    it('should stop requesting pages once maxItems is reached', async () => {
+      http
+        .mockResolvedValueOnce(page(['1', '2'], `${SPOTIFY_API_BASE}/me/top/tracks?offset=2`))
+        .mockResolvedValueOnce(page(['3', '4'], `${SPOTIFY_API_BASE}/me/top/tracks?offset=4`));
+
+      const result = await collectItems(client.topTrackPages('long_term'), 3);
+
+      expect(result.items).toHaveLength(3);
+      expect(result.total).toBe(120);
+      expect(result.truncated).toBe(true);
+      expect(http).toHaveBeenCalledTimes(2);
+    });
+
+    it('should unwrap and follow the cursor pages of followed artists', async () => {
+      const artistPage = (ids: string[], next: string | null) => ({
+        data: { artists: { items: ids.map((id) => ({ ...artist, id })), total: 3, next, cursors: { after: ids[ids.length - 1] } } },
+      });
+      http
+        .mockResolvedValueOnce(artistPage(['a1', 'a2'], `${SPOTIFY_API_BASE}/me/following?type=artist&after=a2`))
+        .mockResolvedValueOnce(artistPage(['a3'], null));
+
+      const result = await collectItems(client.followedArtistPages(), 100);
+
+      expect(result.items.map((a) => a.id)).toEqual(['a1', 'a2', 'a3']);
+      expect(result.total).toBe(3);
+      expect(http.mock.calls[1][0].url).toBe(`${SPOTIFY_API_BASE}/me/following?type=artist&after=a2`);
+    });
+
+    it('should refuse next links outside the API', async () => {
+      http.mockResolvedValueOnce(page(['1'], 'https://example.com/next'));
+
+      await expect(collectItems(client.topTrackPages('short_term'), 10)).rejects.toThrow(APIError);
+    });
+  });
+});
@@ -0,0 +1,88 @@
+/**
+ * @jest-environment node
+ */
+import { ValidationError } from '../errors.js';
+import { jest } from '@jest/globals';
+import { isShortLink, parseSpotifyReference, resolveShortLink, spotifyId, spotifyReference } from '../spotify-uris.js';
+
+const ID = '4uLU6hMCjMI75M1A2tKUQC';
+
+describe('spotify-uris', () => {
+  it('should parse URIs, including legacy user playlist URIs', () => {
+    expect(parseSpotifyReference(`spotify:album:${ID}`)).toEqual({
+      type: 'album',
+      id: ID,
+      uri: `spotify:album:${ID}`,
+    });
+    expect(parseSpotifyReference(`spotify:user:someone:playlist:${ID}`).uri).toBe(`spotify:playlist:${ID}`);
+  });
+
+  it('should parse web links with locale, embed and query parts', () => {
+    expect(parseSpotifyReference(`https://open.spotify.com/track/${ID}?si=abc`).uri).toBe(`spotify:track:${ID}`);
+    expect(parseSpotifyReference(`https://open.spotify.com/intl-de/album/${ID}`).uri).toBe(`spotify:album:${ID}`);
+    expect(parseSpotifyReference(`https://open.spotify.com/embed/playlist/${ID}`).uri).toBe(`spotify:playlist:${ID}`);
+    expect(parseSpotifyReference(`https://open.spotify.com/user/someone/playlist/${ID}`).uri).toBe(`spotify:playlist:${ID}`);
+  });
+
+  it('should only accept plain IDs when a default type is given', () => {
+    expect(parseSpotifyReference(ID, { defaultType: 'track' }).uri).toBe(`spotify:track:${ID}`);
+    expect(() => parseSpotifyReference(ID)).toThrow(ValidationError);
+  });
+
+  it('should reject references of the wrong type', () => {
+    expect(() => parseSpotifyReference(`spotify:artist:${ID}`, { allowedTypes: ['track', 'episode'] }))
+      .toThrow('is an artist, but a track or episode is expected here');
+  });
+
+  it('should reject unrelated links and malformed input', () => {
+    expect(() => parseSpotifyReference(`https://example.com/track/${ID}`)).toThrow(ValidationError);
+    expect(() => parseSpotifyReference('spotify:track:')).toThrow(ValidationError);
+    expect(() => parseSpotifyReference(`https://open.spotify.com/concert/${ID}`)).toThrow(ValidationError);
+  });
+
+  it('should follow short links through redirects and HTML pages', async () => {
+    expect(isShortLink('https://spotify.link/abc123')).toBe(true);
+    expect(isShortLink(`https://open.spotify.com/track/${ID}`)).toBe(false);
+
+    const redirecting = jest.fn<any>().mockResolvedValue({
+      status: 307,
+      headers: { location: `https://open.spotify.com/playlist/${ID}?si=x` },
+      data: '',
+    });
+    await expect(resolveShortLink('https://spotify.link/abc123', redirecting))
+      .resolves.toBe(`https://open.spotify.com/playlist/${ID}?si=x`);
+    expect(redirecting).toHaveBeenCalledWith(expect.objectContaining({ url: 'https://spotify.link/abc123', maxRedirects: 0 }));
+
+    const page = jest.fn<any>().mockResolvedValue({
+      status: 200,
+      headers: {},
+      data: `<html><a href="https://open.spotify.com/album/${ID}?si=y&amp;t=1">Open</a></html>`,
+    });
+    await expect(resolveShortLink('https://spotify.link/def456', page))
+      .resolves.toBe(`https://open.spotify.com/album/${ID}?si=y&t=1`);
+  });
+
+  it('should reject short links that do not lead to Spotify', async () => {
+    const elsewhere = jest.fn<any>().mockResolvedValue({ status: 200, headers: {}, data: 'Not found' });
+    await expect(resolveShortLink('https://spotify.link/missing', elsewhere)).rejects.toThrow(ValidationError);
+
+    const failing = jest.fn<any>().mockRejectedValue(new Error('getaddrinfo ENOTFOUND'));
+    await expect(resolveShortLink('https://spotify.link/abc123', failing)).rejects.toThrow('Could not follow the short link');
+
+    const internal = jest.fn<any>()
+      .mockResolvedValueOnce({ status: 302, headers: { location: 'https://spotify.app.link/next' }, data: '' })
+      .mockResolvedValueOnce({ status: 302, headers: { location: 'http://169.254.169.254/latest/meta-data' }, data: '' });
+    await expect(resolveShortLink('https://spotify.link/abc123', internal)).rejects.toThrow('not a Spotify link');
+    expect(internal).toHaveBeenCalledTimes(2);
+  });
+
+  it('should parse schema fields to references and IDs', async () => {
+    await expect(spotifyId('playlist').parseAsync(`https://open.spotify.com/playlist/${ID}?si=abc`)).resolves.toBe(ID);
+    await expect(spotifyReference({ allowedTypes: ['album'] }).parseAsync(`spotify:album:${ID}`))
+      .resolves.toEqual({ type: 'album', id: ID, uri: `spotify:album:${ID}` });
+
+    const result = await spotifyId('playlist').safeParseAsync(`https://open.spotify.com/album/${ID}`);
+    expect(result.success).toBe(false);
+    expect(!result.success && result.error.issues[0].message).toContain('but a playlist is expected here');
+  });
+});
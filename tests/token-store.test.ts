@@ -0,0 +1,218 @@
+/**
+ * @jest-environment node
+ */
+import { jest } from '@jest/globals';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { TokenStore } from '../token-store.js';
+import { AuthenticationError } from '../errors.js';
+
+const SPOTIFY_AUTH_BASE = "https://accounts.spotify.com";
+
+describe('TokenStore', () => {
+  let tmpDir: string;
+  let tokenPath: string;
+  let mockPost: jest.Mock;
+  let store: TokenStore;
+
+  const writeTokenFile = (data: any) => {
+    fs.writeFileSync(tokenPath, JSON.stringify(data));
+  };
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'spotify-mcp-test-'));
+    tokenPath = path.join(tmpDir, 'tokens.json');
+    mockPost = jest.fn().mockResolvedValue({
+      data: { access_token: 'new-token', expires_in: 3600, refresh_token: 'new-refresh' }
+    });
+    store = new TokenStore({
+      tokenPath,
+      clientId: 'test-client-id',
+      clientSecret: 'test-client-secret',
+      authBase: SPOTIFY_AUTH_BASE,
+      httpClient: { post: mockPost as any },
+    });
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  describe('load and save', () => {
+    it('should return false when the token file does not exist', () => {
+      expect(store.load()).toBe(false);
+      expect(store.hasTokens()).toBe(false);
+    });
+
+    it('should load tokens from the token file', () => {
+      writeTokenFile({ accessToken: 'a', refreshToken: 'r', tokenExpirationTime: Date.now() + 3600000 });
+
+      expect(store.load()).toBe(true);
+      expect(store.hasTokens()).toBe(true);
+    });
+
+    it('should reject incomplete token files', () => {
+      writeTokenFile({ accessToken: 'a', refreshToken: null, tokenExpirationTime: 0 });
+
+      expect(store.load()).toBe(false);
+    });
+
+    it('should persist tokens received from the token endpoint', () => {
+      store.setTokens({ access_token: 'a', refresh_token: 'r', expires_in: 3600 });
+
+      const saved = JSON.parse(fs.readFileSync(tokenPath, 'utf-8'));
+      expect(saved.accessToken).toBe('a');
+      expect(saved.refreshToken).toBe('r');
+      expect(saved.tokenExpirationTime).toBeGreaterThan(Date.now());
+    });
+  });
+
+  describe('granted scopes', () => {
+    it('should persist the granted scopes and reload them', () => {
+      store.setTokens({ access_token: 'a', refresh_token: 'r', expires_in: 3600, scope: 'user-top-read user-library-read' });
+
+      expect(JSON.parse(fs.readFileSync(tokenPath, 'utf-8')).scopes).toEqual(['user-top-read', 'user-library-read']);
+
+      const reloaded = new TokenStore({ tokenPath, clientId: 'test-client-id', authBase: SPOTIFY_AUTH_BASE });
+      reloaded.load();
+      expect(reloaded.getGrantedScopes()).toEqual(['user-top-read', 'user-library-read']);
+    });
+
+    it('should keep the scopes when a refresh response leaves them out', () => {
+      store.setTokens({ access_token: 'a', refresh_token: 'r', expires_in: 3600, scope: 'user-top-read' });
+      store.setTokens({ access_token: 'b', expires_in: 3600 });
+
+      expect(store.getGrantedScopes()).toEqual(['user-top-read']);
+    });
+
+    it('should treat the scopes of older token files as unknown', () => {
+      writeTokenFile({ accessToken: 'a', refreshToken: 'r', tokenExpirationTime: Date.now() + 3600000 });
+
+      store.load();
+
+      expect(store.getGrantedScopes()).toBeNull();
+    });
+  });
+
+  describe('getAccessToken', () => {
+    it('should throw when not authenticated', async () => {
+      await expect(store.getAccessToken()).rejects.toThrow(AuthenticationError);
+    });
+
+    it('should return the existing token if not expired', async () => {
+      writeTokenFile({ accessToken: 'valid', refreshToken: 'r', tokenExpirationTime: Date.now() + 3600000 });
+
+      await expect(store.getAccessToken()).resolves.toBe('valid');
+      expect(mockPost).not.toHaveBeenCalled();
+    });
+
+    it('should refresh the token if expired', async () => {
+      writeTokenFile({ accessToken: 'old', refreshToken: 'r', tokenExpirationTime: Date.now() - 1000 });
+
+      await expect(store.getAccessToken()).resolves.toBe('new-token');
+      expect(mockPost).toHaveBeenCalledWith(
+        `${SPOTIFY_AUTH_BASE}/api/token`,
+        expect.stringContaining('grant_type=refresh_token'),
+        expect.any(Object)
+      );
+
+      const saved = JSON.parse(fs.readFileSync(tokenPath, 'utf-8'));
+      expect(saved.accessToken).toBe('new-token');
+      expect(saved.refreshToken).toBe('new-refresh');
+    });
+
+    it('should share one refresh request between concurrent callers', async () => {
+      writeTokenFile({ accessToken: 'old', refreshToken: 'r', tokenExpirationTime: Date.now() - 1000 });
+
+      const tokens = await Promise.all([
+        store.getAccessToken(),
+        store.getAccessToken(),
+        store.getAccessToken(),
+      ]);
+
+      expect(tokens).toEqual(['new-token', 'new-token', 'new-token']);
+      expect(mockPost).toHaveBeenCalledTimes(1);
+    });
+
+    it('should invalidate and persist cleared tokens when the refresh token is rejected', async () => {
+      writeTokenFile({ accessToken: 'old', refreshToken: 'r', tokenExpirationTime: Date.now() - 1000 });
+      mockPost.mockRejectedValueOnce(Object.assign(new Error('Request failed with status code 400'), {
+        response: { status: 400, data: { error: 'invalid_grant' } },
+      }));
+
+      await expect(store.getAccessToken()).rejects.toThrow('Authentication expired. Please authenticate again.');
+      expect(store.hasTokens()).toBe(false);
+
+      const saved = JSON.parse(fs.readFileSync(tokenPath, 'utf-8'));
+      expect(saved.accessToken).toBeNull();
+      expect(saved.refreshToken).toBeNull();
+    });
+
+    it.each([
+      ['a network error', new Error('Network error')],
+      ['a server error', Object.assign(new Error('Request failed with status code 503'), { response: { status: 503, data: {} } })],
+    ])('should keep the tokens when the refresh fails with %s', async (_, error) => {
+      writeTokenFile({ accessToken: 'old', refreshToken: 'r', tokenExpirationTime: Date.now() - 1000 });
+      mockPost.mockRejectedValueOnce(error);
+
+      await expect(store.getAccessToken()).rejects.toBe(error);
+      expect(store.hasTokens()).toBe(true);
+
+      const saved = JSON.parse(fs.readFileSync(tokenPath, 'utf-8'));
+      expect(saved.refreshToken).toBe('r');
+      await expect(store.getAccessToken()).resolves.toBe('new-token');
+    });
+  });
+
+  describe('public client (PKCE)', () => {
+    beforeEach(() => {
+      store = new TokenStore({
+        tokenPath,
+        clientId: 'test-client-id',
+        authBase: SPOTIFY_AUTH_BASE,
+        httpClient: { post: mockPost as any },
+      });
+    });
+
+    it('should send the client ID in the body instead of Basic auth', async () => {
+      writeTokenFile({ accessToken: 'old', refreshToken: 'r', tokenExpirationTime: Date.now() - 1000 });
+
+      await store.getAccessToken();
+
+      const [, body, config] = mockPost.mock.calls[0] as any[];
+      expect(body).toContain('client_id=test-client-id');
+      expect(config.headers.Authorization).toBeUndefined();
+    });
+
+    it('should send the code verifier when exchanging an authorization code', async () => {
+      await store.exchangeAuthorizationCode('auth-code', 'http://127.0.0.1:8888/callback', 'verifier');
+
+      const [, body] = mockPost.mock.calls[0] as any[];
+      expect(body).toContain('grant_type=authorization_code');
+      expect(body).toContain('code_verifier=verifier');
+      expect(store.hasTokens()).toBe(true);
+    });
+  });
+
+  describe('events', () => {
+    it('should emit refreshed after a successful refresh', async () => {
+      writeTokenFile({ accessToken: 'old', refreshToken: 'r', tokenExpirationTime: Date.now() - 1000 });
+      const listener = jest.fn();
+      store.on('refreshed', listener);
+
+      await store.getAccessToken();
+
+      expect(listener).toHaveBeenCalledWith(expect.objectContaining({ authenticated: true }));
+    });
+
+    it('should emit invalidated with the reason', () => {
+      const listener = jest.fn();
+      store.on('invalidated', listener);
+
+      store.invalidate('test reason');
+
+      expect(listener).toHaveBeenCalledWith('test reason');
+    });
+  });
+});
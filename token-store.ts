@@ -0,0 +1,373 @@
+/**
+ * Token storage and lifecycle
+ *
+ * This file defines the TokenStore, the single owner of the Spotify OAuth
+ * tokens. It loads and persists them, refreshes them when they expire and
+ * invalidates them when Spotify rejects them. Other modules can subscribe
+ * to its events instead of reading token state directly.
+ */
+import { EventEmitter } from "events";
+import axios from "axios";
+import querystring from "querystring";
+import { CredentialBackend, PlainFileBackend, readPlaintextTokens } from "./credential-backends.js";
+import { AuthenticationError } from "./errors.js";
+
+/**
+ * Refresh the access token this long before it actually expires
+ */
+const EXPIRY_MARGIN_MS = 60000;
+
+/**
+ * Token data as persisted by the credential backend
+ */
+export interface TokenData {
+  accessToken: string | null;
+  refreshToken: string | null;
+  tokenExpirationTime: number;
+  // Scopes granted with the tokens; missing in files written by older versions
+  scopes?: string[] | null;
+}
+
+/**
+ * Token endpoint response from Spotify
+ */
+export interface TokenResponse {
+  access_token: string;
+  refresh_token?: string;
+  expires_in: number;
+  scope?: string;
+}
+
+/**
+ * Non-sensitive view of the token state, passed to event listeners
+ */
+export interface TokenStatus {
+  authenticated: boolean;
+  expiresAt: number;
+}
+
+/**
+ * Events emitted by the TokenStore
+ */
+export interface TokenStoreEvents {
+  loaded: [TokenStatus];
+  saved: [TokenStatus];
+  refreshed: [TokenStatus];
+  refreshFailed: [Error];
+  invalidated: [string];
+}
+
+/**
+ * Minimal HTTP client used to talk to the token endpoint
+ */
+export interface TokenHttpClient {
+  post(url: string, data: string, config: { headers: Record<string, string> }): Promise<{ data: TokenResponse }>;
+}
+
+export interface TokenStoreOptions {
+  tokenPath: string;
+  clientId: string;
+  clientSecret?: string;
+  authBase: string;
+  backend?: CredentialBackend;
+  httpClient?: TokenHttpClient;
+}
+
+/**
+ * Owns loading, persisting, refreshing and invalidating Spotify tokens
+ */
+export class TokenStore extends EventEmitter<TokenStoreEvents> {
+  private accessToken: string | null = null;
+  private refreshToken: string | null = null;
+  private tokenExpirationTime = 0;
+  private grantedScopes: string[] | null = null;
+  private refreshPromise: Promise<string> | null = null;
+  private readonly options: TokenStoreOptions;
+  private readonly httpClient: TokenHttpClient;
+  private readonly backend: CredentialBackend;
+
+  constructor(options: TokenStoreOptions) {
+    super();
+    this.options = options;
+    this.httpClient = options.httpClient || axios;
+    this.backend = options.backend || new PlainFileBackend();
+  }
+
+  /**
+   * Path of the token file, also used as the key in the credential backend
+   */
+  get tokenPath(): string {
+    return this.options.tokenPath;
+  }
+
+  /**
+   * Returns a non-sensitive summary of the current token state
+   */
+  getStatus(): TokenStatus {
+    return {
+      authenticated: Boolean(this.accessToken && this.refreshToken),
+      expiresAt: this.tokenExpirationTime,
+    };
+  }
+
+  /**
+   * Whether both an access token and a refresh token are held in memory
+   */
+  hasTokens(): boolean {
+    return Boolean(this.accessToken && this.refreshToken);
+  }
+
+  /**
+   * Scopes granted with the current tokens, or null if they are not known
+   * (tokens stored by a version that did not record them)
+   */
+  getGrantedScopes(): string[] | null {
+    return this.grantedScopes;
+  }
+
+  /**
+   * Whether the access token is expired or about to expire
+   */
+  isExpired(now: number = Date.now()): boolean {
+    return now >= this.tokenExpirationTime - EXPIRY_MARGIN_MS;
+  }
+
+  /**
+   * Loads tokens from the credential backend
+   *
+   * If the backend has nothing stored but a plaintext token file from an
+   * earlier version exists at the same path, it is migrated to the backend.
+   * Returns true if tokens were successfully loaded, false otherwise
+   */
+  load(): boolean {
+    const tokenPath = this.options.tokenPath;
+
+    try {
+      let tokenData = this.backend.load(tokenPath);
+
+      if (!tokenData && !(this.backend instanceof PlainFileBackend)) {
+        tokenData = readPlaintextTokens(tokenPath);
+        if (tokenData) {
+          console.error(`Migrating plaintext token file ${tokenPath} to the ${this.backend.name} backend`);
+          this.backend.save(tokenPath, tokenData);
+        }
+      }
+
+      if (!tokenData) {
+        console.error(`No stored tokens found for ${tokenPath}`);
+        return false;
+      }
+
+      if (!tokenData.accessToken || !tokenData.refreshToken) {
+        console.error(`Stored token data is incomplete`);
+        return false;
+      }
+
+      this.accessToken = tokenData.accessToken;
+      this.refreshToken = tokenData.refreshToken;
+      this.tokenExpirationTime = tokenData.tokenExpirationTime || 0;
+      this.grantedScopes = tokenData.scopes ?? null;
+
+      console.error(`Tokens loaded from ${tokenPath} (expires ${new Date(this.tokenExpirationTime).toISOString()})`);
+      this.emit('loaded', this.getStatus());
+      return true;
+    } catch (error) {
+      console.error(`Error loading tokens: ${error}`);
+      return false;
+    }
+  }
+
+  /**
+   * Persists the current tokens to the credential backend
+   * This allows tokens to be shared between different instances of the application
+   */
+  save(): void {
+    const tokenPath = this.options.tokenPath;
+
+    try {
+      this.backend.save(tokenPath, {
+        accessToken: this.accessToken,
+        refreshToken: this.refreshToken,
+        tokenExpirationTime: this.tokenExpirationTime,
+        scopes: this.grantedScopes,
+      });
+      console.error(`Tokens saved to ${tokenPath} (${this.backend.name} backend)`);
+      this.emit('saved', this.getStatus());
+    } catch (error) {
+      console.error(`Error saving tokens: ${error}`);
+    }
+  }
+
+  /**
+   * Removes the stored tokens from the credential backend
+   */
+  remove(): void {
+    try {
+      this.backend.remove(this.options.tokenPath);
+    } catch (error) {
+      console.error(`Error removing tokens: ${error}`);
+    }
+  }
+
+  /**
+   * Stores tokens received from the token endpoint and persists them
+   */
+  setTokens(response: TokenResponse, now: number = Date.now()): void {
+    this.accessToken = response.access_token;
+    this.tokenExpirationTime = now + response.expires_in * 1000;
+
+    if (response.refresh_token) {
+      this.refreshToken = response.refresh_token;
+    }
+
+    // Refresh responses may leave out the scope, which then stays unchanged
+    if (response.scope !== undefined) {
+      this.grantedScopes = response.scope.split(" ").filter(Boolean);
+    }
+
+    this.save();
+  }
+
+  /**
+   * Returns a valid access token, refreshing it first if needed
+   *
+   * @returns {Promise<string>} The valid access token
+   * @throws {AuthenticationError} If no tokens are available or the refresh fails
+   */
+  async getAccessToken(): Promise<string> {
+    if (!this.accessToken || !this.refreshToken) {
+      this.load();
+    }
+
+    if (!this.accessToken) {
+      throw new AuthenticationError("Not authenticated. Please authorize the app first.");
+    }
+
+    if (!this.isExpired()) {
+      return this.accessToken;
+    }
+
+    return this.refresh();
+  }
+
+  /**
+   * Refreshes the access token using the refresh token
+   *
+   * Concurrent callers share a single in-flight refresh request. When Spotify
+   * rejects the refresh token, the tokens are invalidated so that the user is
+   * asked to authenticate again; other failures keep them for the next try.
+   *
+   * @returns {Promise<string>} The new access token
+   * @throws {AuthenticationError} If there is no refresh token or Spotify rejects it
+   */
+  refresh(): Promise<string> {
+    if (this.refreshPromise) {
+      return this.refreshPromise;
+    }
+
+    if (!this.refreshToken) {
+      this.invalidate("Token expired but no refresh token available");
+      return Promise.reject(new AuthenticationError("Authentication expired. Please authenticate again."));
+    }
+
+    const refreshToken = this.refreshToken;
+
+    this.refreshPromise = (async () => {
+      try {
+        console.error(`Access token expired, refreshing...`);
+        const data = await this.requestToken({
+          grant_type: "refresh_token",
+          refresh_token: refreshToken,
+        });
+
+        this.setTokens(data);
+        console.error(`Token refreshed successfully, expires at ${new Date(this.tokenExpirationTime).toISOString()}`);
+        this.emit('refreshed', this.getStatus());
+        return this.accessToken as string;
+      } catch (error: any) {
+        console.error(`Error refreshing token: ${error.message}`);
+        this.emit('refreshFailed', error);
+
+        // Network errors, timeouts and server errors leave the refresh token
+        // usable, so it is only dropped when Spotify rejects it
+        const status = error.response?.status;
+        if (status !== 400 && status !== 401 && error.response?.data?.error !== "invalid_grant") {
+          throw error;
+        }
+        this.invalidate("Token refresh failed");
+        throw new AuthenticationError("Authentication expired. Please authenticate again.");
+      } finally {
+        this.refreshPromise = null;
+      }
+    })();
+
+    return this.refreshPromise;
+  }
+
+  /**
+   * Exchanges an authorization code for tokens and persists them
+   *
+   * @param {string} code - Authorization code received on the callback
+   * @param {string} redirectUri - Redirect URI used for the authorization request
+   * @param {string} codeVerifier - PKCE code verifier, required when no client secret is configured
+   */
+  async exchangeAuthorizationCode(code: string, redirectUri: string, codeVerifier?: string): Promise<void> {
+    const params: Record<string, string> = {
+      code,
+      redirect_uri: redirectUri,
+      grant_type: "authorization_code",
+    };
+
+    if (codeVerifier) {
+      params.code_verifier = codeVerifier;
+    }
+
+    const data = await this.requestToken(params);
+
+    this.setTokens(data);
+  }
+
+  /**
+   * Clears the tokens in memory and on disk
+   *
+   * @param {string} reason - Why the tokens are being dropped, passed to listeners
+   */
+  invalidate(reason: string): void {
+    console.error(`Invalidating tokens: ${reason}`);
+    this.accessToken = null;
+    this.refreshToken = null;
+    this.tokenExpirationTime = 0;
+    this.grantedScopes = null;
+    this.save();
+    this.emit('invalidated', reason);
+  }
+
+  /**
+   * Sends a request to the Spotify token endpoint
+   *
+   * Confidential clients authenticate with HTTP Basic auth. Without a client
+   * secret (PKCE), the client ID is sent in the request body instead.
+   */
+  private async requestToken(params: Record<string, string>): Promise<TokenResponse> {
+    const { clientId, clientSecret, authBase } = this.options;
+    const headers: Record<string, string> = {
+      "Content-Type": "application/x-www-form-urlencoded",
+    };
+
+    if (clientSecret) {
+      headers.Authorization = `Basic ${Buffer.from(
+        `${clientId}:${clientSecret}`
+      ).toString("base64")}`;
+    } else {
+      params = { ...params, client_id: clientId };
+    }
+
+    const response = await this.httpClient.post(
+      `${authBase}/api/token`,
+      querystring.stringify(params),
+      { headers }
+    );
+
+    return response.data;
+  }
+}
@@ -12,9 +12,50 @@
 export interface SpotifyTrack {
   id: string;
   name: string;
+  uri?: string;
   duration_ms: number;
   artists: SpotifyArtist[];
   album: SpotifyAlbum;
+  popularity?: number;
+  explicit?: boolean;
+  external_ids?: {
+    isrc?: string;
+  };
+  available_markets?: string[];
+  external_urls: {
+    spotify: string;
+  };
+}
+
+/**
+ * Track as listed in an album, without the album itself
+ */
+export interface SpotifyAlbumTrack {
+  id: string;
+  name: string;
+  uri?: string;
+  duration_ms: number;
+  artists: SpotifyArtist[];
+  track_number: number;
+  disc_number: number;
+  explicit?: boolean;
+  external_urls: {
+    spotify: string;
+  };
+}
+
+/**
+ * Spotify podcast episode object
+ */
+export interface SpotifyEpisode {
+  id: string;
+  name: string;
+  uri?: string;
+  duration_ms: number;
+  type: "episode";
+  show?: {
+    name: string;
+  };
   external_urls: {
     spotify: string;
   };
@@ -27,6 +68,10 @@ export interface SpotifyArtist {
   id: string;
   name: string;
   genres?: string[];
+  popularity?: number;
+  followers?: {
+    total: number;
+  };
   external_urls: {
     spotify: string;
   };
@@ -41,6 +86,14 @@ export interface SpotifyAlbum {
   artists: SpotifyArtist[];
   release_date: string;
   total_tracks: number;
+  album_type?: string;
+  // Only returned when fetching a single album
+  label?: string;
+  copyrights?: {
+    text: string;
+    type: string;
+  }[];
+  tracks?: SpotifyPaging<SpotifyAlbumTrack>;
   external_urls: {
     spotify: string;
   };
@@ -52,9 +105,10 @@ export interface SpotifyAlbum {
 export interface SpotifyPlaylist {
   id: string;
   name: string;
-  description: string;
+  description: string | null;
+  snapshot_id?: string;
   owner: {
-    display_name?: string;
+    display_name?: string | null;
     id?: string;
   };
   items?: {
@@ -64,28 +118,130 @@ export interface SpotifyPlaylist {
   tracks?: {
     total: number;
   };
-  public: boolean;
+  public: boolean | null;
+  collaborative?: boolean;
   external_urls: {
     spotify: string;
   };
 }
 
+/**
+ * Spotify image object
+ */
+export interface SpotifyImage {
+  url: string;
+  height?: number | null;
+  width?: number | null;
+}
+
+/**
+ * Spotify playlist item object
+ */
+export interface SpotifyPlaylistItem {
+  added_at?: string | null;
+  // Null for very old playlists and some generated ones
+  added_by?: {
+    id: string;
+    display_name?: string | null;
+  } | null;
+  item?: SpotifyTrack | null;
+  // Backward compatibility with pre-February 2026 responses.
+  track?: SpotifyTrack | null;
+}
+
+/**
+ * Spotify play history object
+ */
+export interface SpotifyPlayHistory {
+  track: SpotifyTrack;
+  played_at: string;
+}
+
+/**
+ * Track saved in the user's library
+ */
+export interface SpotifySavedTrack {
+  added_at: string;
+  track: SpotifyTrack;
+}
+
+/**
+ * Album saved in the user's library
+ */
+export interface SpotifySavedAlbum {
+  added_at: string;
+  album: SpotifyAlbum;
+}
+
+/**
+ * Spotify paging object
+ */
+export interface SpotifyPaging<T> {
+  items: T[];
+  total: number;
+  limit?: number;
+  offset?: number;
+  next?: string | null;
+}
+
+/**
+ * Spotify cursor-based paging object
+ */
+export interface SpotifyCursorPaging<T> {
+  items: T[];
+  total?: number;
+  next?: string | null;
+  cursors?: {
+    after?: string | null;
+    before?: string | null;
+  } | null;
+}
+
+/**
+ * Response of playlist item modifications
+ */
+export interface SpotifySnapshot {
+  snapshot_id: string;
+}
+
+/**
+ * Spotify device object
+ */
+export interface SpotifyDevice {
+  id: string | null;
+  name: string;
+  type: string;
+  is_active: boolean;
+  is_private_session?: boolean;
+  is_restricted: boolean;
+  volume_percent: number | null;
+  supports_volume?: boolean;
+}
+
 /**
  * Spotify playback state object
  */
 export interface SpotifyPlayback {
   is_playing: boolean;
-  progress_ms: number;
-  item?: SpotifyTrack;
+  progress_ms: number | null;
+  item?: SpotifyTrack | null;
   device: {
-    id: string;
+    id: string | null;
     name: string;
-    volume_percent: number;
+    volume_percent: number | null;
   };
   shuffle_state: boolean;
   repeat_state: "off" | "track" | "context";
 }
 
+/**
+ * Spotify queue: the current item and the items that play next
+ */
+export interface SpotifyQueue {
+  currently_playing: SpotifyTrack | SpotifyEpisode | null;
+  queue: Array<SpotifyTrack | SpotifyEpisode>;
+}
+
 /**
  * Spotify search response
  */
@@ -120,14 +276,10 @@ export interface SpotifyRecommendationsResponse {
  */
 export interface SpotifyUser {
   id: string;
-  display_name: string;
+  display_name: string | null;
   email?: string;
   country?: string;
-  images?: {
-    url: string;
-    height: number;
-    width: number;
-  }[];
+  images?: SpotifyImage[];
   external_urls: {
     spotify: string;
   };
@@ -136,7 +288,4 @@ export interface SpotifyUser {
 /**
  * Spotify playlist list response
  */
-export interface SpotifyPlaylistResponse {
-  items: SpotifyPlaylist[];
-  total: number;
-}
+export type SpotifyPlaylistResponse = SpotifyPaging<SpotifyPlaylist>;